@@ -1,6 +1,11 @@
 import { TestBed } from '@angular/core/testing';
 import { AppComponent } from './app';
+import { LocalCleanerClient } from './cleaner-client';
+import { parseRecipes, recipesToJson } from './cleaning-recipes';
+import { detectDelimiter, parseLine } from './csv-utils';
+import { RECOMMENDED_VALIDATION_RULES } from './validation-rules';
 import * as XLSX from 'xlsx';
+import { readBlobBuffer } from '../testing/blobs';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
@@ -38,14 +43,75 @@ describe('AppComponent', () => {
     expect(m1).toBe(m2);
   });
 
+  it('should keep India as the default profile and reject foreign numbers as other-country', () => {
+    const fixture = TestBed.createComponent(AppComponent);
+    const app = fixture.componentInstance as any;
+    expect(app.cleanMobile('09818202888')).toBe('+919818202888');
+
+    const detail = app.cleanMobileDetailed('+971 50 123 4567');
+    expect(detail.reason).toBe('foreignCountry');
+    expect(detail.foreignNumbers).toEqual(['+971501234567']);
+  });
+
+  it('should normalize numbers using the selected country profile', () => {
+    const fixture = TestBed.createComponent(AppComponent);
+    const app = fixture.componentInstance as any;
+
+    app.countryProfile = 'AE';
+    expect(app.cleanMobile('050 123 4567')).toBe('+971501234567');
+    expect(app.cleanMobile('00971501234567')).toBe('+971501234567');
+    expect(app.cleanMobileDetailed('9818202888').reason).toBe('invalidLength');
+
+    app.countryProfile = 'GB';
+    expect(app.cleanMobile('07911 123456')).toBe('+447911123456');
+    expect(app.cleanMobileDetailed('07700 900123').reason).toBe('invalidPattern');
+
+    app.countryProfile = 'BD';
+    expect(app.cleanMobile('01712-345678')).toBe('+8801712345678');
+
+    app.countryProfile = 'NP';
+    expect(app.cleanMobile('+977 9812345678')).toBe('+9779812345678');
+  });
+
+  it('should output E.164 for any supported country in multi-country mode', () => {
+    const fixture = TestBed.createComponent(AppComponent);
+    const app = fixture.componentInstance as any;
+    app.countryProfile = 'multi';
+
+    expect(app.cleanMobile('+447911123456')).toBe('+447911123456');
+    expect(app.cleanMobile('+8801712345678')).toBe('+8801712345678');
+    expect(app.cleanMobile('9818202888')).toBe('+919818202888');
+    expect(app.cleanMobileDetailed('+971501234567').reason).toBe('valid');
+  });
+
+  it('should reject numbers caught by custom validation rules and name the rule', () => {
+    const fixture = TestBed.createComponent(AppComponent);
+    const app = fixture.componentInstance as any;
+
+    expect(app.cleanMobileDetailed('9999900000').reason).toBe('valid');
+    app.useRecommendedRules();
+    app.setRuleList('blocklist', '+91 90000 00001\n');
+    expect(app.cleanMobileDetailed('9999900000').rule).toBe('Same digit 5+ times in a row');
+    expect(app.cleanMobileDetailed('9876598765').rule).toBe('Repeated halves');
+    expect(app.cleanMobileDetailed('09000000001').rule).toBe('Blocklisted number');
+    expect(app.cleanMobileDetailed('9818202888').reason).toBe('valid');
+
+    app.setRuleList('denyPatterns', '([');
+    expect(app.ruleProblems.length).toBe(1);
+  });
+
   it('should show empty-sheet error when selected sheet has no cells', async () => {
     const fixture = TestBed.createComponent(AppComponent);
     const app = fixture.componentInstance as any;
 
-    app.workbook = {
+    const cleaner = new LocalCleanerClient();
+    const source = app.createSource('book');
+    app.sources = [source];
+    cleaner.session.useWorkbook(source.id, {
       SheetNames: ['Sheet1'],
       Sheets: { Sheet1: {} as XLSX.WorkSheet }
-    } as XLSX.WorkBook;
+    } as XLSX.WorkBook);
+    app.cleaner = cleaner;
     app.selectedSheet = 'Sheet1';
 
     await app.previewSheet();
@@ -53,14 +119,68 @@ describe('AppComponent', () => {
     expect(app.errorMessage).toContain('empty');
   });
 
+  it('should apply a saved recipe when a new file has its headers, wherever the columns moved', async () => {
+    const fixture = TestBed.createComponent(AppComponent);
+    const app = fixture.componentInstance as any;
+
+    const { recipes } = parseRecipes(
+      recipesToJson([
+        {
+          name: 'Vendor weekly',
+          sheetPattern: 'Leads*',
+          headerRowIndex: 1,
+          mobileColumns: ['Phone 1', 'Phone 2'],
+          nameColumn: 'Customer',
+          exportMode: 'mobile-name',
+          countryProfile: 'IN',
+          multiCountryFallback: 'IN',
+          rules: RECOMMENDED_VALIDATION_RULES,
+          autoApply: true
+        }
+      ])
+    );
+    expect(recipes.length).toBe(1);
+    app.recipes = recipes;
+
+    const cleaner = new LocalCleanerClient();
+    const source = app.createSource('vendor');
+    app.sources = [source];
+    cleaner.session.useWorkbook(source.id, {
+      SheetNames: ['Leads week 12'],
+      Sheets: {
+        'Leads week 12': XLSX.utils.aoa_to_sheet([
+          ['Weekly export'],
+          ['Phone 2', 'Customer', 'City', 'Phone 1'],
+          ['', 'A', 'Pune', '9818202888'],
+          ['9313123456', 'B', 'Delhi', '']
+        ])
+      }
+    } as XLSX.WorkBook);
+    app.cleaner = cleaner;
+    app.selectedSheet = 'Leads week 12';
+
+    await app.previewSheet();
+
+    expect(app.recipeApplied).toBe(true);
+    expect(app.headerRowIndex).toBe(1);
+    expect(app.selectedColumns).toEqual([3, 0]);
+    expect(app.selectedNameColumn).toBe(1);
+    expect(app.exportMode).toBe('mobile-name');
+    expect(app.validationRules.maxRepeatedDigits).toBe(RECOMMENDED_VALIDATION_RULES.maxRepeatedDigits);
+  });
+
   it('should block oversized sheet before parsing all data', async () => {
     const fixture = TestBed.createComponent(AppComponent);
     const app = fixture.componentInstance as any;
 
-    app.workbook = {
+    const cleaner = new LocalCleanerClient();
+    const source = app.createSource('book');
+    app.sources = [source];
+    cleaner.session.useWorkbook(source.id, {
       SheetNames: ['Big'],
-      Sheets: { Big: { '!ref': 'A1:Z500001' } as XLSX.WorkSheet }
-    } as XLSX.WorkBook;
+      Sheets: { Big: { '!ref': 'A1:A2000001' } as XLSX.WorkSheet }
+    } as XLSX.WorkBook);
+    app.cleaner = cleaner;
     app.selectedSheet = 'Big';
 
     await app.previewSheet();
@@ -97,15 +217,101 @@ describe('AppComponent', () => {
   });
 
   it('should parse csv lines using app delimiter detection and parser', () => {
-    const fixture = TestBed.createComponent(AppComponent);
-    const app = fixture.componentInstance as any;
     const csv = 'Name,Mobile Number\nA,919818202888\nB,919313123456\n';
     const lines = csv.trim().split(/\r\n|\n/);
-    const delim = app.detectDelimiter(lines[0]);
-    const rows = lines.map((line: string) => app.parseLine(line, delim));
+    const delim = detectDelimiter(lines[0]);
+    const rows = lines.map((line: string) => parseLine(line, delim));
 
     expect(delim).toBe(',');
     expect(rows.length).toBe(3);
     expect(rows[1][0]).toBe('A');
   });
+
+  it('should detect columns on every sheet and write one cleaned sheet per source sheet', async () => {
+    const fixture = TestBed.createComponent(AppComponent);
+    const app = fixture.componentInstance as any;
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+      ['Name', 'Mobile'],
+      ['A', '9818202888'],
+      ['B', '9313123456'],
+      ['C', '9000000001']
+    ]), 'North');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+      ['Phone', 'Customer'],
+      ['9818202888', 'D'],
+      ['9000000002', 'E'],
+      ['9000000003', 'F']
+    ]), 'South');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['Notes'], ['none']]), 'Notes');
+
+    const cleaner = new LocalCleanerClient();
+    const source = app.createSource('regions');
+    source.sheetNames = wb.SheetNames;
+    app.sources = [source];
+    app.activateSource(0);
+    cleaner.session.useWorkbook(source.id, wb);
+    app.cleaner = cleaner;
+    app.selectedSheet = 'North';
+    app.allSheets = true;
+
+    await app.onAllSheetsChange();
+
+    expect(app.sheetMappings.map((m: any) => [m.sheetName, m.selectedColumns])).toEqual([
+      ['North', [1]],
+      ['South', [0]],
+      ['Notes', []]
+    ]);
+
+    let download: { blob: Blob; fileName: string } | null = null;
+    app.downloadBlob = (blob: Blob, fileName: string) => (download = { blob, fileName });
+    app.exportMode = 'unique';
+    app.sheetOutput = 'perSheet';
+    await app.cleanAndDownload();
+
+    expect(app.errorMessage).toBe('');
+    expect(app.sourceStats.map((s: any) => [s.sheetName, s.stats.valid, s.stats.duplicates])).toEqual([
+      ['North', 3, 0],
+      ['South', 2, 1]
+    ]);
+    expect(download!.fileName).toBe('(5)-regions_All_Sheets.xlsx');
+    const parsed = XLSX.read(await readBlobBuffer(download!.blob), { type: 'array' });
+    expect(parsed.SheetNames).toEqual(['North', 'South']);
+    expect(XLSX.utils.sheet_to_json(parsed.Sheets['South'], { header: 1 })).toEqual([
+      ['Mobile_Number'],
+      ['+919000000002'],
+      ['+919000000003']
+    ]);
+  });
+
+  it('should restore every export option of a saved session', () => {
+    const saved = TestBed.createComponent(AppComponent).componentInstance as any;
+    Object.assign(saved, {
+      exportMode: 'mobile-name',
+      splitIntoParts: true,
+      partsBy: 'count',
+      partsSize: 4,
+      exportVCard: true,
+      vcardVersion: '4.0',
+      vcardNamePrefix: 'Lead ',
+      addSeriesColumns: true,
+      keepCircles: ['Delhi'],
+      distributeLeads: true,
+      distributionAgents: [{ name: 'Asha', weight: 2, values: '' }],
+      distributionMethod: 'random',
+      distributionOutput: 'perAgent',
+      recordHistory: true,
+      skipRecentContacts: true,
+      recentContactDays: 7,
+      buildAudit: true
+    });
+    const state = saved.sessionState();
+
+    const restored = TestBed.createComponent(AppComponent).componentInstance as any;
+    restored.restoreSettings(structuredClone(state));
+
+    expect({ ...restored.sessionState(), savedAt: state.savedAt }).toEqual(state);
+    expect(restored.buildAudit).toBe(true);
+  });
 });
@@ -1,8 +1,102 @@
 import { Component, NgZone, ChangeDetectorRef, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import type { WorkBook, WorkSheet } from 'xlsx';
-import type JSZip from 'jszip';
+import { COUNTRY_CODES, COUNTRY_PROFILES, CountryCode, CountryProfileId } from './phone-profiles';
+import { MobileCleaner, MobileCleanDetail } from './mobile-cleaner';
+import {
+  CleanOptions,
+  CleanResult,
+  DuplicateStrategy,
+  ExportMode,
+  SourceOptions,
+  SourceStats,
+  StatCategory,
+  buildStatReport,
+  createEmptyStatDownloads,
+  createEmptyStats
+} from './cleaning-pipeline';
+import { CleanerClient, createCleanerClient } from './cleaner-client';
+import { MAX_PREVIEW_ROWS, SheetLoadResult } from './cleaner-session';
+import type { HistorySummary } from './contact-history';
+import { INDIAN_CIRCLES, UNKNOWN_SERIES } from './in-number-series';
+import { detectHeaderRow, detectMobileColumns, detectNameColumn } from './column-detection';
+import {
+  EMPTY_VALIDATION_RULES,
+  RECOMMENDED_VALIDATION_RULES,
+  ValidationRules,
+  validateRules
+} from './validation-rules';
+import {
+  RuleSet,
+  loadExportTemplates,
+  loadRecipes,
+  loadRuleSets,
+  saveExportTemplates,
+  saveRecipes,
+  saveRuleSets
+} from './local-settings';
+import { CleaningRecipe, findRecipe, parseRecipes, recipeColumns, recipesToJson } from './cleaning-recipes';
+import {
+  BUILT_IN_TEMPLATES,
+  ExportTemplate,
+  NUMBER_FORMAT_OPTIONS,
+  TEMPLATE_SOURCE_OPTIONS,
+  templateUsesName,
+  validateTemplate
+} from './export-templates';
+import type { VCardOptions } from './vcard-export';
+import { ExportParts, validateParts } from './export-parts';
+import { DISTRIBUTION_METHOD_OPTIONS, LeadDistribution, validateDistribution } from './lead-distribution';
+import { TEXT_ENCODINGS, TextEncodingId } from './text-encoding';
+import { CELL_STATUSES, CELL_STATUS_LABELS, CellStatus, GridPage, GridRequest, GridRow } from './review-grid';
+import {
+  MAX_STORED_FILE_BYTES,
+  SavedFile,
+  SavedMapping,
+  SavedSource,
+  SessionResult,
+  SessionState,
+  SessionStore,
+  canPickFileHandles,
+  droppedFileHandles,
+  pickFiles,
+  reopenFile,
+  storableFiles
+} from './session-store';
+
+type RuleListKey = 'denyPatterns' | 'allowPrefixes' | 'blocklist';
+
+interface ColumnMapping {
+  headerRowIndex: number | null;
+  headers: string[];
+  selectedColumns: number[];
+  selectedNameColumn: number | null;
+}
+
+/** Header row and columns of one sheet when every sheet of a workbook is cleaned. */
+interface SheetMapping extends ColumnMapping {
+  sheetName: string;
+  rowCount: number;
+  /** Leading rows used for the preview and detection. */
+  rows: any[][];
+  error?: string;
+}
+
+/** One uploaded file and the column mapping chosen for it. */
+interface UploadedSource extends ColumnMapping {
+  id: string;
+  fileName: string;
+  sheetNames: string[];
+  selectedSheet: string;
+  rawData: any[][];
+  previewData: any[][];
+  showPreview: boolean;
+  allSheets: boolean;
+  sheetMappings: SheetMapping[];
+  previewedSheet: string;
+  /** Encoding of a CSV, TSV or TXT upload; null for workbooks. */
+  encoding: TextEncodingId | null;
+}
 
 @Component({
   selector: 'app-root',
@@ -13,12 +107,20 @@ import type JSZip from 'jszip';
 })
 export class AppComponent implements OnInit, OnDestroy {
 
+  /* Uploaded files; the fields below edit the active one */
+  sources: UploadedSource[] = [];
+  activeSourceIndex = 0;
+
   fileName = '';
-  workbook: WorkBook | null = null;
+  encoding: TextEncodingId | null = null;
+  readonly encodingOptions = TEXT_ENCODINGS;
 
   sheetNames: string[] = [];
   selectedSheet = '';
+  allSheets = false;
+  sheetMappings: SheetMapping[] = [];
 
+  /** Leading rows of the selected sheet; the full data stays with the cleaner. */
   rawData: any[][] = [];
   previewData: any[][] = [];
 
@@ -27,8 +129,6 @@ export class AppComponent implements OnInit, OnDestroy {
   headerRowIndex: number | null = null;
   headers: string[] = [];
   selectedColumns: number[] = [];
-  csvStreamingFile: File | null = null;
-  csvDelimiter = ',';
 
   /* UX + Performance */
   isDragging = false;
@@ -38,50 +138,154 @@ export class AppComponent implements OnInit, OnDestroy {
   successMessage = '';
   isUploading = false;
   uploadProgress = 0;
+  uploadLabel = '';
 
   /* Statistics */
-  stats = {
-    total: 0,
-    valid: 0,
-    duplicates: 0,
-    invalidPattern: 0,
-    invalidLength: 0
-  };
+  stats = createEmptyStats();
   showStats = false;
-  statDownloads = {
-    valid: [] as Array<{ row: number; column: string; original: string; cleaned: string }>,
-    duplicates: [] as Array<{ row: number; mobile: string }>,
-    invalidPattern: [] as Array<{ row: number; column: string; value: string }>,
-    invalidLength: [] as Array<{ row: number; column: string; value: string }>
-  };
+  statDownloads = createEmptyStatDownloads();
+  sourceStats: SourceStats[] = [];
+
+  /* Suppression Lists (DND / opt-out) */
+  suppressionLists: Array<{ id: string; fileName: string; entryCount: number }> = [];
+  isLoadingSuppression = false;
+
+  /* Contact History (IndexedDB) */
+  recordHistory = false;
+  skipRecentContacts = false;
+  recentContactDays = 30;
+  historySummary: HistorySummary = { supported: true, count: 0 };
+
+  /* Operator & Circle (India) */
+  addSeriesColumns = false;
+  keepCircles: string[] = [];
+  readonly circleOptions = [...Object.values(INDIAN_CIRCLES).sort(), UNKNOWN_SERIES];
+  circleCounts: Array<{ circle: string; count: number }> = [];
+
+  /* Lead Distribution */
+  distributeLeads = false;
+  distributionAgents: Array<{ name: string; weight: number; values: string }> = [
+    { name: 'Agent 1', weight: 1, values: '' },
+    { name: 'Agent 2', weight: 1, values: '' }
+  ];
+  distributionMethod: LeadDistribution['method'] = 'roundRobin';
+  distributionColumn = '';
+  distributionOutput: LeadDistribution['output'] = 'column';
+  readonly distributionMethodOptions = DISTRIBUTION_METHOD_OPTIONS;
+  assignmentCounts: Array<{ agent: string; count: number }> = [];
+
+  /* Audit Workbook */
+  buildAudit = false;
+  auditBlob: Blob | null = null;
+
+  /* Validation Rules */
+  validationRules: ValidationRules = { ...EMPTY_VALIDATION_RULES };
+  ruleProblems: string[] = [];
+  ruleSets: RuleSet[] = loadRuleSets();
+  ruleSetName = '';
+
+  /* Cleaning Recipes */
+  recipes: CleaningRecipe[] = loadRecipes();
+  recipeName = '';
+  recipeSheetPattern = '';
+  recipeAutoApply = true;
+  /** Saved recipe whose headers match the sheet being previewed. */
+  matchedRecipe: CleaningRecipe | null = null;
+  recipeApplied = false;
+
+  /* Session Recovery */
+  /** Session saved before the last reload, offered until a new file is loaded. */
+  savedSession: { savedAt: number; fileNames: string[]; hasResult: boolean } | null = null;
+  isResuming = false;
+  /** Export of the last run, for downloading it again. */
+  lastExport: { blob: Blob; fileName: string } | null = null;
+
+  /* Password-Protected Files */
+  /** Upload waiting for its password; Step 1 asks for it while set. */
+  passwordPrompt: { fileName: string; message: string } | null = null;
+  passwordInput = '';
+  private passwordAnswer: ((password: string | null) => void) | null = null;
+
+  /* Row Review */
+  /** Grid over every data row of the shown sheet, as it was when the review was opened. */
+  review: {
+    key: string;
+    headers: string[];
+    columns: number[];
+    total: number;
+    dataRows: number;
+    problemRows: number;
+    counts: Record<CellStatus, number>;
+  } | null = null;
+  reviewProblemsOnly = false;
+  reviewJumpRow: number | null = null;
+  reviewRows: GridRow[] = [];
+  isLoadingReview = false;
+  readonly cellStatuses = CELL_STATUSES;
+  readonly cellStatusLabels = CELL_STATUS_LABELS;
+  private reviewRequest: GridRequest | null = null;
+  /** Fetched rows by their position in the grid. */
+  private reviewCache = new Map<number, GridRow>();
+  private reviewFirst = 0;
+  private reviewFetching = false;
+  private reviewScrollTarget: number | null = null;
 
   /* Export Options */
-  exportMode: 'full' | 'unique' | 'mobile-name' | 'keep-all' = 'full';
+  exportMode: ExportMode = 'full';
+  outputFormat: 'xlsx' | 'csv' = 'xlsx';
+  sheetOutput: 'merged' | 'perSheet' = 'merged';
+  duplicateStrategy: DuplicateStrategy = 'first';
+  splitIntoParts = false;
+  partsBy: ExportParts['by'] = 'rows';
+  partsSize = 5000;
+
+  /* Export Templates */
+  exportTemplate: ExportTemplate = cloneTemplate(BUILT_IN_TEMPLATES[0]);
+  savedTemplates: ExportTemplate[] = loadExportTemplates();
+  readonly builtInTemplates = BUILT_IN_TEMPLATES;
+  readonly numberFormatOptions = NUMBER_FORMAT_OPTIONS;
+  readonly templateSourceOptions = TEMPLATE_SOURCE_OPTIONS;
+
+  /* vCard (mobile-name exports) */
+  exportVCard = false;
+  vcardVersion: VCardOptions['version'] = '3.0';
+  vcardNamePrefix = '';
+  vcardNameSuffix = '';
   selectedNameColumn: number | null = null;
 
-  private readonly MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
-  private readonly MAX_XLSX_BROWSER_SAFE_SIZE = 80 * 1024 * 1024; // 80MB
-  private readonly CSV_STREAM_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB
-  private readonly MAX_STAT_DOWNLOAD_ROWS = 10000;
-  private readonly MAX_SHEET_ROWS = 2000000;
-  private readonly MAX_SHEET_COLUMNS = 500;
-  private readonly MAX_SHEET_CELLS = 50000000;
-  private readonly LARGE_SHEET_WARNING_ROWS = 250000;
-  private readonly FAST_MODE_ROWS = 100000;
-  private readonly MAX_PREVIEW_ROWS = 50;
-  private readonly MIN_VALID_MOBILES = 3;
-  private readonly INVALID_PATTERNS = [
-    /^(\d)\1{9}$/,           // All same digits
-    /^0123456789$/,          // Sequential
-    /^1234567890$/,
-    /^9876543210$/
+  /* Country Profile */
+  countryProfile: CountryProfileId = 'IN';
+  multiCountryFallback: CountryCode = 'IN';
+  readonly countryOptions: Array<{ id: CountryProfileId; label: string }> = [
+    ...COUNTRY_CODES.map(code => ({ id: code as CountryProfileId, label: COUNTRY_PROFILES[code].label })),
+    { id: 'multi', label: 'Multi-country (E.164)' }
   ];
 
+  private readonly MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
+  private readonly REVIEW_ROW_HEIGHT = 36; // px, as in app.css
+  private readonly REVIEW_VISIBLE_ROWS = 12;
+  private readonly REVIEW_PAGE_ROWS = 200;
+  private readonly REVIEW_MAX_CACHED_ROWS = 5000;
+  // Browsers cap element heights, so longer grids scroll more than one row per row height.
+  private readonly REVIEW_MAX_SCROLL_HEIGHT = 1000000;
+
   private boundHandlePaste = this.handlePaste.bind(this);
+  private boundSaveOnHide = this.saveOnHide.bind(this);
   private errorTimer: ReturnType<typeof setTimeout> | null = null;
   private successTimer: ReturnType<typeof setTimeout> | null = null;
-  private xlsxModule: typeof import('xlsx') | null = null;
-  private jsZipModule: typeof JSZip | null = null;
+  private cleaner: CleanerClient | null = null;
+  private mobileCleaner: MobileCleaner | null = null;
+  private nextSourceId = 1;
+  private nextSuppressionId = 1;
+  private sessionStore = new SessionStore();
+  private sessionTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Uploaded file of each source, and the file handles the browser gave for them. */
+  private sourceFiles = new Map<string, File>();
+  /** Uploaded file of each suppression list, by list id. */
+  private suppressionFiles = new Map<string, File>();
+  private fileHandles = new WeakMap<File, FileSystemFileHandle>();
+  /** Sheet whose mapping is currently shown in all-sheets mode. */
+  private previewedSheet = '';
   private DEBUG = false;
 
   constructor(private ngZone: NgZone, private cdr: ChangeDetectorRef) {}
@@ -89,60 +293,130 @@ export class AppComponent implements OnInit, OnDestroy {
   ngOnInit() {
     // Listen for paste events globally
     document.addEventListener('paste', this.boundHandlePaste);
+    document.addEventListener('visibilitychange', this.boundSaveOnHide);
+    void this.refreshHistorySummary();
+    void this.checkSavedSession();
   }
 
   ngOnDestroy() {
     document.removeEventListener('paste', this.boundHandlePaste);
+    document.removeEventListener('visibilitychange', this.boundSaveOnHide);
     if (this.errorTimer) clearTimeout(this.errorTimer);
     if (this.successTimer) clearTimeout(this.successTimer);
+    if (this.sessionTimer) clearTimeout(this.sessionTimer);
+    this.cleaner?.dispose();
   }
 
   private handlePaste(event: ClipboardEvent) {
     const items = event.clipboardData?.items;
     if (!items) return;
 
+    const files: File[] = [];
     for (let i = 0; i < items.length; i++) {
       const item = items[i];
       if (item.kind === 'file') {
         const file = item.getAsFile();
-        if (file) {
-          event.preventDefault();
-          this.ngZone.run(() => {
-            this.onFileChange({ target: { files: [file] } });
-            this.cdr.detectChanges();
-          });
-          return;
-        }
+        if (file) files.push(file);
       }
     }
+
+    if (files.length > 0) {
+      event.preventDefault();
+      this.ngZone.run(() => {
+        this.onFileChange({ target: { files } });
+        this.cdr.detectChanges();
+      });
+    }
   }
 
   /* ================= FILE UPLOAD ================= */
 
+  /** Picks files through the File System Access API where there is one, so a reload can reopen them. */
+  async openFilePicker(fileInput: HTMLInputElement) {
+    if (!canPickFileHandles()) {
+      fileInput.click();
+      return;
+    }
+    try {
+      const picked = await pickFiles(['.xls', '.xlsx', '.xlsm', '.xlsb', '.csv', '.tsv', '.txt', '.xml', '.ods']);
+      if (!picked.length) return;
+      for (const { file, handle } of picked) this.fileHandles.set(file, handle);
+      this.onFileChange({ target: { files: picked.map(p => p.file) } });
+    } catch (error) {
+      console.warn('File picker failed, using the file input instead.', error);
+      fileInput.click();
+    } finally {
+      this.cdr.detectChanges();
+    }
+  }
+
   onFileChange(event: Event | { target: { files: File[] } }) {
     const target = (event.target || (event as any).target) as HTMLInputElement;
     this.clearMessages();
-    const file = target.files?.[0] || ((event as any).target?.files?.[0]);
-    if (!file) return;
+    const files: File[] = Array.from(target.files || (event as any).target?.files || []);
+    if (!files.length) return;
+
+    const accepted: File[] = [];
+    for (const file of files) {
+      const problem = this.checkUploadFile(file);
+      if (problem) {
+        this.showError(files.length > 1 ? `${file.name}: ${problem}` : problem);
+        continue;
+      }
+      accepted.push(file);
+    }
+    if (accepted.length < files.length && 'value' in target) target.value = '';
+    if (!accepted.length) return;
+
+    // A new upload replaces the previous set of files, and the saved session with it.
+    this.resetState();
+    this.savedSession = null;
+    this.ngZone.run(() => this.loadFiles(accepted));
+  }
 
+  private checkUploadFile(file: File): string | null {
     if (file.size > this.MAX_FILE_SIZE) {
-      this.showError(`File too large. Maximum size is ${this.MAX_FILE_SIZE / 1024 / 1024}MB`);
-      target.value = '';
-      return;
+      return `File too large. Maximum size is ${this.MAX_FILE_SIZE / 1024 / 1024}MB`;
     }
 
     if (!this.isValidExcelFile(file)) {
-      this.showError('Please select a supported spreadsheet file (.xls, .xlsx, .xlsm, .xlsb, .csv, .ods)');
-      target.value = '';
-      return;
+      return 'Please select a supported spreadsheet file (.xls, .xlsx, .xlsm, .xlsb, .csv, .ods)';
     }
+    return null;
+  }
 
-    this.fileName = file.name.replace(/\.[^/.]+$/, '').replace(/[<>:"/\\|?*]/g, '_');
-    this.resetState();
+  private async loadFiles(files: File[]) {
     this.isUploading = true;
+    const failures: string[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+      this.uploadLabel = files.length > 1 ? `${files[i].name} (${i + 1} of ${files.length})` : files[i].name;
+      const error = await this.loadSource(files[i]);
+      if (error) failures.push(files.length > 1 ? `${files[i].name}: ${error}` : error);
+    }
+
+    this.isUploading = false;
+    if (this.sources.length > 1) {
+      this.syncActiveSource();
+      this.activateSource(0);
+      this.showSuccess(
+        `Loaded ${this.sources.length} files. Check the header row and columns of each file, then clean them together.`
+      );
+    }
+    if (failures.length) this.showError(failures.join(' '));
+    this.cdr.detectChanges();
+    if (this.sources.length) await this.saveSessionFiles();
+  }
+
+  /**
+   * Loads one file into a new source and previews it; text files are read in `encoding`, or the
+   * detected one. Returns an error message on failure.
+   */
+  private async loadSource(file: File, encoding?: TextEncodingId): Promise<string | null> {
+    const source = this.createSource(file.name.replace(/\.[^/.]+$/, '').replace(/[<>:"/\\|?*]/g, '_'));
     this.uploadProgress = 0;
 
-    // Simulate progress for better UX
+    // Simulate progress for better UX; CSV previews report real progress instead.
     const progressInterval = setInterval(() => {
       if (this.uploadProgress < 90) {
         this.uploadProgress += 10;
@@ -150,159 +424,221 @@ export class AppComponent implements OnInit, OnDestroy {
       }
     }, 100);
 
-    const extMatch = (file.name.match(/\.[^/.]+$/) || [''])[0].toLowerCase();
-    const ext = extMatch;
+    try {
+      const onProgress = (p: number) => {
+        clearInterval(progressInterval);
+        this.uploadProgress = Math.max(5, Math.min(100, p));
+        this.cdr.detectChanges();
+      };
+      let loaded = await this.getCleaner().loadFile(source.id, file, onProgress, encoding);
+      // Password-protected workbooks are read again with each password the user enters.
+      while (loaded.passwordRequired) {
+        clearInterval(progressInterval);
+        const password = await this.askPassword(file.name, loaded.error || 'This file is password-protected.');
+        if (password === null) return 'The file was not opened because no password was entered.';
+        loaded = await this.getCleaner().loadFile(source.id, file, onProgress, encoding, password);
+      }
+      clearInterval(progressInterval);
+      if (loaded.error) return loaded.error;
 
-    if (ext === '.xlsx' && file.size > this.MAX_XLSX_BROWSER_SAFE_SIZE) {
-      this.showError(
-        `This XLSX is very large (${(file.size / 1024 / 1024).toFixed(1)}MB) and may freeze the browser. ` +
-        'Please upload CSV for this dataset, or split the Excel file into smaller parts.'
-      );
-      if ('value' in target) target.value = '';
-      this.isUploading = false;
-      return;
-    }
+      this.uploadProgress = 100;
+      source.sheetNames = loaded.sheetNames;
+      source.selectedSheet = loaded.sheetNames[0];
+      source.encoding = loaded.encoding ?? null;
+      this.syncActiveSource();
+      this.sourceFiles.set(source.id, file);
+      this.sources.push(source);
+      this.activateSource(this.sources.length - 1);
+
+      if (loaded.csv) {
+        if (!this.showCsvPreview(loaded.csv.rows)) return 'CSV file appears to be empty.';
+        const note = loaded.warning ? ` ${loaded.warning}` : '';
+        this.showSuccess(`CSV loaded. Previewing first ${this.previewData.length} rows.${note}`);
+        return null;
+      }
 
-    if (ext === '.csv') {
-      this.ngZone.run(async () => {
-        try {
-          const preview = await this.loadCsvPreview(file, (p) => {
-            this.uploadProgress = Math.max(5, Math.min(100, p));
-            this.cdr.detectChanges();
-          });
-
-          clearInterval(progressInterval);
-          this.uploadProgress = 100;
-          this.workbook = null;
-          this.sheetNames = ['CSV'];
-          this.selectedSheet = 'CSV';
-          this.csvStreamingFile = file;
-          this.csvDelimiter = preview.delimiter;
-          this.rawData = preview.rows;
-          this.previewData = preview.rows.slice(0, this.MAX_PREVIEW_ROWS);
-          this.headerRowIndex = null;
-          this.headers = [];
-          this.selectedColumns = [];
-          this.showPreview = this.previewData.length > 0;
-
-          if (this.previewData.length === 0) {
-            this.showError('CSV file appears to be empty.');
-            this.isUploading = false;
-            return;
-          }
+      if (loaded.repaired) this.showSuccess('File repaired and loaded successfully');
+      else if (loaded.warning) this.showSuccess(loaded.warning);
+      if (this.DEBUG) console.log('Workbook parsed, sheets:', this.sheetNames);
 
-          this.autoDetectHeader();
-          this.isUploading = false;
-          this.showSuccess(`CSV loaded. Previewing first ${this.previewData.length} rows.`);
-          this.cdr.detectChanges();
-        } catch (error) {
-          clearInterval(progressInterval);
-          this.isUploading = false;
-          this.showError('Failed to read CSV file. Please ensure it is valid.');
-          console.error('CSV parsing error:', error);
-        }
-      });
-      return;
+      await this.previewSheet();
+      return null;
+    } catch (error) {
+      console.error('File load error:', error);
+      return 'Failed to load file. Please try again.';
+    } finally {
+      clearInterval(progressInterval);
+      this.cdr.detectChanges();
     }
+  }
 
-    const reader = new FileReader();
+  /** Reads the active text upload again in the encoding picked in Step 1. */
+  async onEncodingChange() {
+    const source = this.sources[this.activeSourceIndex];
+    const file = source && this.sourceFiles.get(source.id);
+    if (!file || !this.encoding) return;
+    this.clearMessages();
 
-    reader.onload = (e: any) => {
-      clearInterval(progressInterval);
-      this.uploadProgress = 100;
+    try {
+      const loaded = await this.getCleaner().loadFile(source.id, file, undefined, this.encoding);
+      if (loaded.error) {
+        this.showError(loaded.error);
+        return;
+      }
+      this.matchedRecipe = null;
+      this.recipeApplied = false;
+      this.allSheets = false;
+      this.sheetMappings = [];
+      this.previewedSheet = '';
+      if (loaded.csv) {
+        if (!this.showCsvPreview(loaded.csv.rows)) this.showError('CSV file appears to be empty.');
+      } else {
+        await this.previewSheet();
+      }
+      if (!this.errorMessage) this.showSuccess(`File read again as ${this.encodingLabel(this.encoding)}.`);
+      this.scheduleSessionSave();
+    } catch (error) {
+      console.error('Encoding change error:', error);
+      this.showError('Failed to read the file in this encoding.');
+    } finally {
       this.cdr.detectChanges();
+    }
+  }
 
-      this.ngZone.run(async () => {
-        try {
-          const XLSX = await this.loadXlsx();
-          const result = e.target.result as any;
-
-          // Text-based formats: CSV, TSV, TXT, XML
-          if (ext === '.tsv' || ext === '.txt') {
-            const text = result as string;
-            const lines = text.split(/\r\n|\n/).filter(l => l.length > 0);
-            // Detect delimiter for .txt (prefer tab for .tsv)
-            const delim = ext === '.tsv' ? '\t' : this.detectDelimiter(lines[0] || '');
-            const rows = lines.map(line => this.parseLine(line, delim));
-            const ws = XLSX.utils.aoa_to_sheet(rows);
-            this.workbook = { SheetNames: ['Sheet1'], Sheets: { Sheet1: ws } } as WorkBook;
-          } else if (ext === '.xml') {
-            const text = result as string;
-            this.workbook = XLSX.read(text, { type: 'string', cellDates: true, dense: true });
-          } else {
-            // Binary formats (.xls, .xlsx, .xlsm, .xlsb, .ods)
-            const data = new Uint8Array(result);
-            if (ext === '.xlsx') {
-              const preflight = await this.preflightXlsxComplexity(data);
-              if (preflight.error) {
-                this.showError(preflight.error);
-                this.isUploading = false;
-                return;
-              }
-              if (preflight.warning) {
-                this.showSuccess(preflight.warning);
-              }
-            }
-            // XLSX library does not execute macros - reading macro-enabled files is safe.
-            try {
-              this.workbook = XLSX.read(data, { type: 'array', cellDates: true, dense: true });
-            } catch (binaryReadError: any) {
-              const message = String(binaryReadError?.message || '');
-              const canRepairZip =
-                ext === '.xlsx' &&
-                /bad compressed size|invalid zip|end of data|corrupt|crc/i.test(message);
-              if (!canRepairZip) throw binaryReadError;
-
-              if (this.DEBUG) console.warn('Primary XLSX parse failed. Attempting ZIP repair...', message);
-              const repairedData = await this.repairZipContainer(data);
-              this.workbook = XLSX.read(repairedData, { type: 'array', cellDates: true, dense: true });
-              this.showSuccess('File repaired and loaded successfully');
-            }
-          }
-          
-          if (this.DEBUG) console.log('Workbook parsed, sheets:', this.workbook?.SheetNames);
-          if (!this.workbook?.SheetNames?.length) {
-            this.showError('Excel file contains no sheets');
-            this.isUploading = false;
-            return;
-          }
-          
-          this.sheetNames = this.workbook.SheetNames;
-          this.selectedSheet = this.sheetNames[0];
-          
-          setTimeout(async () => {
-            this.isUploading = false;
-            this.showSuccess('File loaded successfully');
-            await this.previewSheet();
-            this.cdr.detectChanges();
-          }, 300);
-        } catch (error: any) {
-          const message = String(error?.message || '').toLowerCase();
-          if (message.includes('password') || message.includes('encrypted') || message.includes('decrypt')) {
-            this.showError('This file appears to be password-protected or encrypted. Please remove protection and try again.');
-          } else {
-            this.showError('Failed to read Excel file. Please ensure it is valid.');
-          }
-          console.error('Excel parsing error:', error);
-          this.workbook = null;
-          this.isUploading = false;
-        }
-      });
-    };
-    reader.onerror = () => {
-      clearInterval(progressInterval);
-      this.ngZone.run(() => {
-        this.showError('Failed to load file. Please try again.');
-        console.error('FileReader error:', reader.error);
-        this.isUploading = false;
-      });
-    };
-    // Read text formats as text, binary formats as array buffer
-    if (ext === '.csv' || ext === '.tsv' || ext === '.txt' || ext === '.xml') {
-      reader.readAsText(file);
-    } else {
-      reader.readAsArrayBuffer(file);
+  encodingLabel(encoding: TextEncodingId | null): string {
+    return TEXT_ENCODINGS.find(option => option.id === encoding)?.label ?? '';
+  }
+
+  /** Shows the leading rows of a CSV upload and detects its header. False when there are none. */
+  private showCsvPreview(rows: string[][]): boolean {
+    this.rawData = rows;
+    this.previewData = rows.slice(0, MAX_PREVIEW_ROWS);
+    this.showPreview = this.previewData.length > 0;
+    if (!this.showPreview) return false;
+    this.autoDetectHeader();
+    return true;
+  }
+
+  /* ================= PASSWORD-PROTECTED FILES ================= */
+
+  /** Shows the password prompt and resolves with the password entered, or null when cancelled. */
+  private askPassword(fileName: string, message: string): Promise<string | null> {
+    this.passwordPrompt = { fileName, message };
+    this.passwordInput = '';
+    this.cdr.detectChanges();
+    return new Promise(resolve => (this.passwordAnswer = resolve));
+  }
+
+  submitPassword() {
+    if (this.passwordInput) this.answerPassword(this.passwordInput);
+  }
+
+  cancelPassword() {
+    this.answerPassword(null);
+  }
+
+  /** Hands the answer to the waiting upload; the password is cleared from the form, not kept. */
+  private answerPassword(password: string | null) {
+    const answer = this.passwordAnswer;
+    this.passwordPrompt = null;
+    this.passwordInput = '';
+    this.passwordAnswer = null;
+    answer?.(password);
+  }
+
+  /* ================= SOURCES ================= */
+
+  selectSource(index: number) {
+    if (index === this.activeSourceIndex || !this.sources[index]) return;
+    this.clearMessages();
+    this.syncActiveSource();
+    this.activateSource(index);
+  }
+
+  removeSource(index: number) {
+    this.syncActiveSource();
+    const [removed] = this.sources.splice(index, 1);
+    if (!removed) return;
+    void this.getCleaner().removeSource(removed.id);
+    this.sourceFiles.delete(removed.id);
+
+    if (!this.sources.length) {
+      this.resetState();
+      void this.sessionStore.clear().catch(error => console.warn('Could not clear the saved session.', error));
+      return;
     }
+    const active = this.activeSourceIndex;
+    this.activateSource(active > index ? active - 1 : Math.min(active, this.sources.length - 1));
+    void this.saveSessionFiles();
+  }
+
+  private createSource(fileName: string): UploadedSource {
+    return {
+      id: `source-${this.nextSourceId++}`,
+      fileName,
+      sheetNames: [],
+      selectedSheet: '',
+      rawData: [],
+      previewData: [],
+      showPreview: false,
+      headerRowIndex: null,
+      headers: [],
+      selectedColumns: [],
+      selectedNameColumn: null,
+      allSheets: false,
+      sheetMappings: [],
+      previewedSheet: '',
+      encoding: null
+    };
+  }
+
+  /** Writes the editing fields back into the active source. */
+  private syncActiveSource() {
+    const source = this.sources[this.activeSourceIndex];
+    if (!source) return;
+    this.syncSheetMapping();
+    source.fileName = this.fileName;
+    source.sheetNames = this.sheetNames;
+    source.selectedSheet = this.selectedSheet;
+    source.rawData = this.rawData;
+    source.previewData = this.previewData;
+    source.showPreview = this.showPreview;
+    source.headerRowIndex = this.headerRowIndex;
+    source.headers = this.headers;
+    source.selectedColumns = this.selectedColumns;
+    source.selectedNameColumn = this.selectedNameColumn;
+    source.allSheets = this.allSheets;
+    source.sheetMappings = this.sheetMappings;
+    source.previewedSheet = this.previewedSheet;
+    source.encoding = this.encoding;
+  }
+
+  private activateSource(index: number) {
+    const source = this.sources[index];
+    if (!source) return;
+    this.activeSourceIndex = index;
+    this.closeReview();
+    this.matchedRecipe = null;
+    this.recipeApplied = false;
+    this.fileName = source.fileName;
+    this.sheetNames = source.sheetNames;
+    this.selectedSheet = source.selectedSheet;
+    this.rawData = source.rawData;
+    this.previewData = source.previewData;
+    this.showPreview = source.showPreview;
+    this.headerRowIndex = source.headerRowIndex;
+    this.headers = source.headers;
+    this.selectedColumns = source.selectedColumns;
+    this.selectedNameColumn = source.selectedNameColumn;
+    this.allSheets = source.allSheets;
+    this.sheetMappings = source.sheetMappings;
+    this.previewedSheet = source.previewedSheet;
+    this.encoding = source.encoding;
+  }
+
+  /** True when the run has more than one (file, sheet) source, so per-sheet output is possible. */
+  get hasSeveralSheets(): boolean {
+    return this.sources.length > 1 || (this.allSheets && this.sheetMappings.length > 1);
   }
 
   /* ================= DRAG & DROP ================= */
@@ -327,51 +663,56 @@ export class AppComponent implements OnInit, OnDestroy {
 
     if (!event.dataTransfer?.files.length) return;
 
-    const file = event.dataTransfer.files[0];
+    const files = Array.from(event.dataTransfer.files);
 
-    if (!this.isValidExcelFile(file)) {
+    if (!files.some(file => this.isValidExcelFile(file))) {
       this.showError('Please drop a supported spreadsheet file (.xls, .xlsx, .xlsm, .xlsb, .csv, .tsv, .txt, .xml, .ods)');
       return;
     }
 
-    this.onFileChange({ target: { files: [file] } });
+    // Handles let a reload reopen the files; the upload goes ahead without them where they are missing.
+    void droppedFileHandles(event.dataTransfer.items)
+      .catch(() => new Map<string, FileSystemFileHandle>())
+      .then(handles => {
+        for (const file of files) {
+          const handle = handles.get(file.name);
+          if (handle) this.fileHandles.set(file, handle);
+        }
+        this.onFileChange({ target: { files } });
+        this.cdr.detectChanges();
+      });
   }
 
   /* ================= PREVIEW ================= */
 
   async previewSheet() {
     this.clearMessages();
-    
-    if (!this.workbook) {
-      this.showError('File is still loading. Please wait and try again.');
+
+    if (this.allSheets) {
+      this.syncSheetMapping();
+      this.showSheetMapping(this.selectedSheet);
       return;
     }
 
-    if (!this.selectedSheet || !this.workbook.Sheets[this.selectedSheet]) {
-      this.showError('Selected sheet not found');
+    const source = this.sources[this.activeSourceIndex];
+    if (!source) {
+      this.showError('File is still loading. Please wait and try again.');
       return;
     }
 
     try {
-      const XLSX = await this.loadXlsx();
-      if (this.DEBUG) console.log('Previewing sheet:', this.selectedSheet, 'Available sheets:', this.workbook?.SheetNames);
-      const sheet = this.workbook.Sheets[this.selectedSheet];
-      const sheetAssessment = this.assessSheetSize(sheet, XLSX);
-      if (sheetAssessment.error) {
-        this.showError(sheetAssessment.error);
+      if (this.DEBUG) console.log('Previewing sheet:', this.selectedSheet, 'Available sheets:', this.sheetNames);
+      const sheet = await this.getCleaner().loadSheet(source.id, this.selectedSheet);
+      if (sheet.error) {
+        this.showError(sheet.error);
         return;
       }
 
-      // Use raw values so numeric mobile cells are not converted to scientific-notation strings.
-      this.rawData = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: true });
-      if (this.DEBUG) console.log('Raw data rows:', this.rawData.length);
-      
-      if (this.rawData.length === 0) {
-        this.showError('Selected sheet is empty');
-        return;
-      }
+      this.rawData = sheet.rows;
+      this.closeReview();
+      if (this.DEBUG) console.log('Raw data rows:', sheet.rowCount);
 
-      this.previewData = this.rawData.slice(0, this.MAX_PREVIEW_ROWS);
+      this.previewData = this.rawData.slice(0, MAX_PREVIEW_ROWS);
       this.headerRowIndex = null;
       this.headers = [];
       this.selectedColumns = [];
@@ -380,8 +721,8 @@ export class AppComponent implements OnInit, OnDestroy {
       // Auto-detect and mark header row
       this.autoDetectHeader();
       
-      const sizeNote = sheetAssessment.warning ? ` ${sheetAssessment.warning}` : '';
-      this.showSuccess(`Loaded ${this.rawData.length} rows (showing first ${this.previewData.length}).${sizeNote}`);
+      const sizeNote = sheet.warning ? ` ${sheet.warning}` : '';
+      this.showSuccess(`Loaded ${sheet.rowCount} rows (showing first ${this.previewData.length}).${sizeNote}`);
     } catch (error) {
       this.showError('Failed to preview sheet');
       console.error('Preview error:', error);
@@ -391,22 +732,93 @@ export class AppComponent implements OnInit, OnDestroy {
   }
 
   private autoDetectHeader() {
-    for (let i = 0; i < Math.min(5, this.rawData.length); i++) {
-      const row = this.rawData[i];
-      if (!row || row.length === 0) continue;
-      
-      const hasText = row.some(cell => {
-        const str = String(cell || '').trim();
-        return str && /[a-zA-Z]/.test(str);
-      });
-      
-      if (hasText) {
-        this.setHeaderRow(i);
-        return;
-      }
+    const index = detectHeaderRow(this.rawData);
+    if (index !== null) this.setHeaderRow(index);
+    this.offerRecipe();
+  }
+
+  /* ================= ALL SHEETS ================= */
+
+  async onAllSheetsChange() {
+    this.clearMessages();
+    const source = this.sources[this.activeSourceIndex];
+
+    if (!this.allSheets || !source) {
+      this.sheetMappings = [];
+      this.previewedSheet = '';
+      await this.previewSheet();
+      return;
+    }
+
+    try {
+      const sheets = await this.getCleaner().loadAllSheets(source.id);
+      this.sheetMappings = sheets.map(sheet => this.detectSheetMapping(sheet.sheetName, sheet));
+      this.previewedSheet = '';
+      this.showSheetMapping(this.selectedSheet);
+
+      const usable = this.sheetMappings.filter(m => m.selectedColumns.length > 0).length;
+      this.showSuccess(
+        `Mobile columns detected on ${usable} of ${this.sheetMappings.length} sheets. ` +
+        'Sheets without mobile columns are skipped.'
+      );
+    } catch (error) {
+      this.allSheets = false;
+      this.sheetMappings = [];
+      this.showError('Failed to load sheets');
+      console.error('Sheet load error:', error);
+    } finally {
+      this.cdr.detectChanges();
     }
   }
 
+  private detectSheetMapping(sheetName: string, sheet: SheetLoadResult): SheetMapping {
+    const mapping: SheetMapping = {
+      sheetName,
+      rowCount: sheet.rowCount,
+      rows: sheet.rows,
+      error: sheet.error,
+      headerRowIndex: null,
+      headers: [],
+      selectedColumns: [],
+      selectedNameColumn: null
+    };
+    const index = sheet.error ? null : detectHeaderRow(sheet.rows);
+    if (index === null) return mapping;
+
+    mapping.headerRowIndex = index;
+    mapping.headers = sheet.rows[index].map(h => String(h || '').trim());
+    mapping.selectedColumns = this.detectMobileColumns(sheet.rows, index);
+    mapping.selectedNameColumn = detectNameColumn(mapping.headers);
+    return mapping;
+  }
+
+  /** Shows one sheet's rows and mapping in the header and column steps. */
+  private showSheetMapping(sheetName: string) {
+    const mapping = this.sheetMappings.find(m => m.sheetName === sheetName);
+    if (!mapping) return;
+
+    this.previewedSheet = sheetName;
+    this.closeReview();
+    this.rawData = mapping.rows;
+    this.previewData = mapping.rows.slice(0, MAX_PREVIEW_ROWS);
+    this.showPreview = this.previewData.length > 0;
+    this.headerRowIndex = mapping.headerRowIndex;
+    this.headers = mapping.headers;
+    this.selectedColumns = mapping.selectedColumns;
+    this.selectedNameColumn = mapping.selectedNameColumn;
+    if (mapping.error) this.showError(`${sheetName}: ${mapping.error}`);
+  }
+
+  /** Writes the header and column steps back into the mapping of the sheet they show. */
+  private syncSheetMapping() {
+    const mapping = this.allSheets ? this.sheetMappings.find(m => m.sheetName === this.previewedSheet) : undefined;
+    if (!mapping) return;
+    mapping.headerRowIndex = this.headerRowIndex;
+    mapping.headers = this.headers;
+    mapping.selectedColumns = this.selectedColumns;
+    mapping.selectedNameColumn = this.selectedNameColumn;
+  }
+
   /* ================= HEADER ROW ================= */
 
   setHeaderRow(index: number) {
@@ -425,28 +837,17 @@ export class AppComponent implements OnInit, OnDestroy {
     
     this.headerRowIndex = index;
     this.headers = headerRow.map(h => String(h || '').trim());
-    this.selectedColumns = [];
-
-    for (let col = 0; col < this.headers.length; col++) {
-      let validCount = 0;
-      const maxRows = Math.min(index + 10, this.rawData.length);
-
-      for (let row = index + 1; row < maxRows; row++) {
-        const cell = this.rawData[row]?.[col];
-        if (this.cleanMobile(cell)) validCount++;
-      }
-
-      if (validCount >= this.MIN_VALID_MOBILES) this.selectedColumns.push(col);
-    }
+    this.selectedColumns = this.detectMobileColumns(this.rawData, index);
 
     // Auto-detect name column
-    this.autoDetectNameColumn();
+    this.selectedNameColumn = detectNameColumn(this.headers);
 
     if (this.selectedColumns.length > 0) {
       this.showSuccess(`Auto-detected ${this.selectedColumns.length} mobile column(s)`);
     } else {
       this.showSuccess('Header row set. Please manually select mobile columns.');
     }
+    this.scheduleSessionSave();
   }
 
   toggleColumn(index: number) {
@@ -456,826 +857,831 @@ export class AppComponent implements OnInit, OnDestroy {
     } else {
       this.selectedColumns.push(index);
     }
+    this.scheduleSessionSave();
   }
 
-  private autoDetectNameColumn() {
-    this.selectedNameColumn = null;
-    for (let col = 0; col < this.headers.length; col++) {
-      const header = this.headers[col].toLowerCase();
-      if (header.includes('name') || header.includes('customer') || header.includes('contact')) {
-        this.selectedNameColumn = col;
+  private detectMobileColumns(rows: any[][], headerRowIndex: number): number[] {
+    return detectMobileColumns(rows, headerRowIndex, cell => !!this.cleanMobile(cell));
+  }
+
+  /* ================= ROW REVIEW ================= */
+
+  /** Checks every data row of the shown sheet and lists them, or only the problem rows, in the grid. */
+  async openReview() {
+    const request = this.currentReviewRequest();
+    if (!request || this.isLoadingReview) return;
+    this.clearMessages();
+    this.closeReview();
+    this.isLoadingReview = true;
+    this.cdr.detectChanges();
+
+    try {
+      const page = await this.getCleaner().gridPage(request);
+      if (page.error) {
+        this.showError(page.error);
         return;
       }
+      this.reviewRequest = request;
+      this.review = {
+        key: reviewKey(request),
+        headers: [...this.headers],
+        columns: request.selectedColumns,
+        total: page.total,
+        dataRows: page.dataRows,
+        problemRows: page.problemRows,
+        counts: page.counts
+      };
+      this.cacheReviewPage(page);
+      this.reviewRows = this.cachedReviewRows() ?? [];
+    } catch (error) {
+      this.showError('Failed to review the rows');
+      console.error('Review error:', error);
+    } finally {
+      this.isLoadingReview = false;
+      this.cdr.detectChanges();
     }
   }
 
-  /* ================= CLEAN & DOWNLOAD (CHUNKED) ================= */
+  /** True when the header, columns or number rules changed since the review was opened. */
+  get reviewStale(): boolean {
+    const current = this.currentReviewRequest();
+    return !!this.review && (!current || reviewKey(current) !== this.review.key);
+  }
 
-  async cleanAndDownload() {
-    this.clearMessages();
-    
-    if (this.headerRowIndex === null) {
-      this.showError('Please select a header row first');
-      return;
-    }
+  get reviewHeight(): number {
+    const rows = this.review?.total ?? 0;
+    return Math.min(rows * this.REVIEW_ROW_HEIGHT, this.REVIEW_MAX_SCROLL_HEIGHT) + this.REVIEW_ROW_HEIGHT;
+  }
 
-    if (this.selectedColumns.length === 0) {
-      this.showError('Please select at least one mobile column');
-      return;
-    }
+  reviewCellClass(row: GridRow, column: number): string {
+    const idx = this.review ? this.review.columns.indexOf(column) : -1;
+    return idx === -1 ? '' : `status-${row.statuses[idx]}`;
+  }
 
-    if (this.exportMode === 'mobile-name' && this.selectedNameColumn === null) {
-      this.showError('Please select a name column for mobile-name export');
-      return;
-    }
+  onReviewScroll(scroller: HTMLElement) {
+    if (!this.review || scroller.scrollTop === this.reviewScrollTarget) return;
+    this.reviewScrollTarget = null;
+    const last = this.lastReviewPosition();
+    const range = scroller.scrollHeight - scroller.clientHeight;
+    this.reviewFirst = range > 0 ? Math.min(last, Math.round((scroller.scrollTop / range) * last)) : 0;
+    void this.showReviewRows();
+  }
+
+  /** The rows sit beside the scroll bar, so the wheel over them moves the grid by rows. */
+  onReviewWheel(event: WheelEvent, scroller: HTMLElement) {
+    if (!this.review || !event.deltaY) return;
+    event.preventDefault();
+    const lines = event.deltaMode === 0 ? Math.round(Math.abs(event.deltaY) / this.REVIEW_ROW_HEIGHT) : Math.abs(event.deltaY);
+    this.scrollReviewTo(this.reviewFirst + Math.sign(event.deltaY) * Math.max(1, lines), scroller);
+  }
 
-    if (this.csvStreamingFile) {
-      await this.cleanAndDownloadCsvStreaming();
+  async jumpToReviewRow(scroller: HTMLElement) {
+    const rowNumber = Number(this.reviewJumpRow);
+    if (!this.review || !this.reviewRequest) return;
+    if (!Number.isInteger(rowNumber) || rowNumber < 1) {
+      this.showError('Enter a row number of 1 or more.');
       return;
     }
-
-    if (this.isProcessing) return;
+    if (!this.review.total) return;
 
     try {
-      this.isProcessing = true;
-      this.progress = 0;
-      this.resetStats();
-      if (this.DEBUG) console.log(`Starting data processing. Header row index: ${this.headerRowIndex}, Selected columns:`, this.selectedColumns);
-      if (this.DEBUG) console.log('Raw data length:', this.rawData.length, 'Headers:', this.headers.length);
-
-      const seenNumbers = new Set<string>();
-      const cleaned: any[][] = [];
-      const uniqueNumbers: string[] = [];
-      const mobileNamePairs: any[][] = []; // Store name-mobile pairs during processing
-      const keepAllRows = this.exportMode === 'keep-all';
-      const needsFullRows = this.exportMode === 'full' || this.exportMode === 'keep-all';
-      const needsMobileNamePairs = this.exportMode === 'mobile-name';
-      const exportHeaders = this.headers.map(header => this.toExportHeader(header));
-      
-      cleaned.push(exportHeaders);
-
-      const totalRows = this.rawData.length - (this.headerRowIndex + 1);
-      if (totalRows <= 0) {
-        this.showError('No data rows found after header row.');
-        this.isProcessing = false;
+      const page = await this.getCleaner().gridPage({ ...this.reviewRequest, fromRow: rowNumber });
+      if (page.error) {
+        this.showError(page.error);
         return;
       }
+      this.cacheReviewPage(page);
+      this.scrollReviewTo(page.start, scroller);
+      const shown = page.rows[0]?.rowNumber;
+      if (shown !== undefined && shown !== rowNumber) {
+        this.showSuccess(`Row ${rowNumber} is not listed, so the grid shows row ${shown}.`);
+      }
+    } catch (error) {
+      this.showError('Failed to load the rows');
+      console.error('Review error:', error);
+    } finally {
+      this.cdr.detectChanges();
+    }
+  }
 
-      if (this.DEBUG) console.log(`Total rows to process: ${totalRows}`);
-      this.stats.total = totalRows;
-      const fastMode = totalRows >= this.FAST_MODE_ROWS;
-      const chunkSize =
-        totalRows >= 250000 ? 6000 :
-        totalRows >= 120000 ? 4000 :
-        totalRows >= 60000 ? 2500 : 1200;
-      let processed = 0;
-      let sliceStartMs = Date.now();
-
-      for (let start = this.headerRowIndex + 1; start < this.rawData.length; start += chunkSize) {
-        const end = Math.min(start + chunkSize, this.rawData.length);
-
-          for (let i = start; i < end; i++) {
-            try {
-              const row = needsFullRows ? [...(this.rawData[i] || [])] : (this.rawData[i] || []);
-              if (needsFullRows) {
-                while (row.length < this.headers.length) row.push('');
-              }
-
-              // Capture name BEFORE modifying the row
-              const name = this.selectedNameColumn !== null ? (row[this.selectedNameColumn] || '') : '';
-
-              const validMobiles: string[] = [];
-              const perColumn: (string | null)[] = [];
-
-              for (const col of this.selectedColumns) {
-                const detail = this.cleanMobileDetailed(row[col]);
-                if (needsFullRows) {
-                  perColumn.push(detail.cleanedNumbers.length > 0 ? detail.cleanedNumbers.join(' / ') : null);
-                }
-                const headerName = this.headers[col] || `Column_${col + 1}`;
-                if (detail.cleanedNumbers.length > 0) {
-                  validMobiles.push(...detail.cleanedNumbers);
-                  if (!fastMode) {
-                    for (const cleanedNumber of detail.cleanedNumbers) {
-                      this.addLimitedStatRow('valid', {
-                        row: i + 1,
-                        column: headerName,
-                        original: String(row[col] ?? ''),
-                        cleaned: cleanedNumber
-                      });
-                    }
-                  }
-                } else if (detail.reason === 'invalidPattern') {
-                  this.stats.invalidPattern++;
-                  if (!fastMode) {
-                    this.addLimitedStatRow('invalidPattern', {
-                      row: i + 1,
-                      column: headerName,
-                      value: String(row[col] ?? '')
-                    });
-                  }
-                } else if (detail.reason === 'invalidLength') {
-                  this.stats.invalidLength++;
-                  if (!fastMode) {
-                    this.addLimitedStatRow('invalidLength', {
-                      row: i + 1,
-                      column: headerName,
-                      value: String(row[col] ?? '')
-                    });
-                  }
-                }
-              }
-
-              const rowMobiles = Array.from(new Set(validMobiles));
-
-              if (keepAllRows) {
-                this.selectedColumns.forEach((col, idx) => {
-                  if (perColumn[idx]) row[col] = perColumn[idx];
-                });
-                if (rowMobiles.length > 0) this.stats.valid += rowMobiles.length;
-                cleaned.push(row);
-                processed++;
-                continue;
-              }
-
-              if (rowMobiles.length === 0) {
-                processed++;
-                continue;
-              }
-
-              const unseenMobiles: string[] = [];
-              const duplicateMobiles: string[] = [];
-              for (const mobile of rowMobiles) {
-                const normalized = mobile.replace('+91', '');
-                if (seenNumbers.has(normalized)) duplicateMobiles.push(mobile);
-                else unseenMobiles.push(mobile);
-              }
-
-              if (unseenMobiles.length === 0) {
-                this.stats.duplicates++;
-                if (!fastMode) {
-                  for (const duplicate of duplicateMobiles) {
-                    this.addLimitedStatRow('duplicates', { row: i + 1, mobile: duplicate });
-                  }
-                }
-                processed++;
-                continue;
-              }
-
-              for (const number of unseenMobiles) {
-                const normalized = number.replace('+91', '');
-                seenNumbers.add(normalized);
-                uniqueNumbers.push(number);
-              }
-
-              if (needsFullRows) {
-                const primaryNumber = unseenMobiles[0];
-                const fallback = primaryNumber;
-                this.selectedColumns.forEach((col, idx) => {
-                  row[col] = perColumn[idx] ?? fallback;
-                });
-                cleaned.push(row);
-              }
-
-              if (needsMobileNamePairs) {
-                for (const number of unseenMobiles) {
-                  mobileNamePairs.push([name, number]);
-                }
-              }
-
-              this.stats.valid += unseenMobiles.length;
-              processed++;
-
-              // Time-slice processing so the browser does not show "wait/exit" prompts.
-              if (Date.now() - sliceStartMs >= 20) {
-                await this.yieldToBrowser();
-                sliceStartMs = Date.now();
-              }
-            } catch (rowError) {
-              console.error(`Error processing row ${i}:`, rowError);
-              this.stats.invalidLength++;
-              processed++;
-              continue;
-            }
-          }
+  private closeReview() {
+    this.review = null;
+    this.reviewRequest = null;
+    this.reviewRows = [];
+    this.reviewCache.clear();
+    this.reviewFirst = 0;
+    this.reviewScrollTarget = null;
+  }
 
-        this.progress = Math.round((processed / totalRows) * 100);
-        this.cdr.detectChanges();
-        if (this.DEBUG && this.progress % 10 === 0) {
-          console.log(`Processing progress: ${this.progress}%, Rows: ${processed}/${totalRows}, Valid: ${this.stats.valid}`);
-        }
-        await this.yieldToBrowser();
-      }
+  private currentReviewRequest(): GridRequest | null {
+    const source = this.sources[this.activeSourceIndex];
+    if (!source || this.headerRowIndex === null || !this.selectedColumns.length) return null;
+    return {
+      sourceId: source.id,
+      sheetName: this.allSheets ? this.previewedSheet : this.selectedSheet,
+      headerRowIndex: this.headerRowIndex,
+      selectedColumns: [...this.selectedColumns],
+      mobile: this.mobileOptions(),
+      problemsOnly: this.reviewProblemsOnly,
+      start: 0,
+      count: this.REVIEW_PAGE_ROWS
+    };
+  }
 
-      if (!keepAllRows && cleaned.length <= 1 && uniqueNumbers.length === 0) {
-        if (this.exportMode === 'mobile-name' && mobileNamePairs.length > 0) {
-          // mobile-name export does not populate cleaned rows
-        } else if (this.exportMode === 'unique' && uniqueNumbers.length > 0) {
-          // unique export does not populate cleaned rows
-        } else {
-        console.warn('No valid mobile numbers found');
-        this.showError('No valid mobile numbers found in the selected columns.');
-        this.isProcessing = false;
-        this.progress = 0;
-        return;
-        }
-      }
+  private lastReviewPosition(): number {
+    return Math.max(0, (this.review?.total ?? 0) - this.REVIEW_VISIBLE_ROWS);
+  }
 
-      if (this.DEBUG) {
-        console.log(`Processing complete. Valid rows: ${this.stats.valid}, Duplicates: ${this.stats.duplicates}. Generating Excel file...`);
-      }
+  private scrollReviewTo(position: number, scroller: HTMLElement) {
+    const last = this.lastReviewPosition();
+    this.reviewFirst = Math.max(0, Math.min(position, last));
+    const range = scroller.scrollHeight - scroller.clientHeight;
+    scroller.scrollTop = last > 0 ? (this.reviewFirst / last) * range : 0;
+    this.reviewScrollTarget = scroller.scrollTop;
+    void this.showReviewRows();
+  }
 
-      let sheetAdded = false;
-      let fallbackData: any[][] = [];
-      let exportRowCount = 0;
+  /** Shows the rows from `reviewFirst`, fetching them first when they are not cached. */
+  private async showReviewRows() {
+    const review = this.review;
+    const cached = this.cachedReviewRows();
+    if (cached) {
+      this.reviewRows = cached;
+      return;
+    }
+    if (!review || this.reviewFetching) return;
 
-      if (this.exportMode === 'full' || this.exportMode === 'keep-all') {
-        if (cleaned.length > 1) {
-          fallbackData = cleaned;
-          exportRowCount = Math.max(0, cleaned.length - 1);
-          sheetAdded = true;
-        }
-      } else if (this.exportMode === 'unique') {
-        const uniqueSheet = [[this.toExportHeader('Mobile Number')], ...uniqueNumbers.map(n => [n])];
-        fallbackData = uniqueSheet;
-        exportRowCount = uniqueNumbers.length;
-        sheetAdded = true;
-      } else if (this.exportMode === 'mobile-name') {
-        if (mobileNamePairs.length > 0) {
-          const mobileNameData: any[][] = [[this.toExportHeader('Name'), this.toExportHeader('Mobile Number')], ...mobileNamePairs];
-          fallbackData = mobileNameData;
-          exportRowCount = mobileNamePairs.length;
-          sheetAdded = true;
+    this.reviewFetching = true;
+    try {
+      // Keep fetching while the user scrolls on to rows that are still missing.
+      while (this.review === review && !this.cachedReviewRows()) {
+        const start = Math.max(0, this.reviewFirst - Math.floor(this.REVIEW_PAGE_ROWS / 4));
+        const page = await this.getCleaner().gridPage({ ...this.reviewRequest!, start });
+        if (page.error) {
+          this.showError(page.error);
+          break;
         }
+        if (this.review !== review || !page.rows.length) break;
+        this.cacheReviewPage(page);
       }
+    } catch (error) {
+      this.showError('Failed to load the rows');
+      console.error('Review error:', error);
+    } finally {
+      this.reviewFetching = false;
+      if (this.review === review) this.reviewRows = this.cachedReviewRows() ?? this.reviewRows;
+      this.cdr.detectChanges();
+    }
+  }
 
-      if (!sheetAdded) {
-        console.error('No sheet was added to workbook');
-        this.showError('No data to export.');
-        this.isProcessing = false;
-        this.progress = 0;
-        return;
-      }
+  /** Rows from `reviewFirst` that fill the grid, or null when any of them is not fetched yet. */
+  private cachedReviewRows(): GridRow[] | null {
+    const end = Math.min(this.reviewFirst + this.REVIEW_VISIBLE_ROWS, this.review?.total ?? 0);
+    const rows: GridRow[] = [];
+    for (let position = this.reviewFirst; position < end; position++) {
+      const row = this.reviewCache.get(position);
+      if (!row) return null;
+      rows.push(row);
+    }
+    return rows;
+  }
 
-      if (this.DEBUG) console.log('Writing Excel file...');
-
-      try {
-        const preferCsvForLargeExport =
-          exportRowCount >= 60000 ||
-          (this.exportMode === 'keep-all' && exportRowCount >= 40000);
-        if (preferCsvForLargeExport) {
-          const csvName = `(${exportRowCount})-${this.fileName}.csv`;
-          const csvBlob = this.buildCsvBlob(fallbackData);
-          this.downloadBlob(csvBlob, csvName);
-          await this.yieldToBrowser();
-          this.progress = 100;
-          this.showStats = true;
-          this.showSuccess(`Large export detected. Downloaded CSV for better stability. ${exportRowCount} rows exported.`);
-          return;
-        }
+  private cacheReviewPage(page: GridPage) {
+    if (this.reviewCache.size + page.rows.length > this.REVIEW_MAX_CACHED_ROWS) this.reviewCache.clear();
+    page.rows.forEach((row, idx) => this.reviewCache.set(page.start + idx, row));
+  }
 
-        const XLSX = await this.loadXlsx();
-        const wb = XLSX.utils.book_new();
-        if (this.exportMode === 'full' || this.exportMode === 'keep-all') {
-          const ws = XLSX.utils.aoa_to_sheet(fallbackData.map(row => row.map(cell => this.sanitizeForExcelCell(cell))));
-          const sheetName = this.exportMode === 'keep-all' ? 'Cleaned Keep All Rows' : 'Cleaned';
-          XLSX.utils.book_append_sheet(wb, ws, sheetName);
-        } else if (this.exportMode === 'unique') {
-          const ws = XLSX.utils.aoa_to_sheet(fallbackData.map(row => row.map(cell => this.sanitizeForExcelCell(cell))));
-          XLSX.utils.book_append_sheet(wb, ws, 'Unique Numbers');
-        } else {
-          const ws = XLSX.utils.aoa_to_sheet(fallbackData.map(row => row.map(cell => this.sanitizeForExcelCell(cell))));
-          XLSX.utils.book_append_sheet(wb, ws, 'Mobile & Name');
-        }
+  /* ================= SUPPRESSION LISTS ================= */
 
-        const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array', compression: true });
-        const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-        const fileName = `(${exportRowCount})-${this.fileName}.xlsx`;
-        
-        if (this.DEBUG) console.log(`Generated Excel file: ${fileName}`, { size: blob.size, rows: cleaned.length });
-        
-        // Trigger browser-native download outside Angular zone.
-        this.ngZone.runOutsideAngular(() => {
-          try {
-            this.downloadBlob(blob, fileName);
-            if (this.DEBUG) console.log('File saved successfully');
-          } catch (e) {
-            console.error('download error:', e);
-            throw e;
-          }
-        });
-        
-        // Small delay to ensure download starts before UI updates
-        await this.yieldToBrowser();
-        
-        this.progress = 100;
-        this.showStats = true;
-        this.showSuccess(
-          fastMode
-            ? `Processed and downloaded successfully. ${exportRowCount} rows exported. Fast mode enabled for speed (detailed category downloads may be limited).`
-            : `Processed and downloaded successfully. ${exportRowCount} rows exported.`
-        );
-      } catch (downloadError) {
-        console.error('XLSX download error:', downloadError);
-        try {
-          const csvBlob = this.buildCsvBlob(fallbackData);
-          const csvName = `(${exportRowCount})-${this.fileName}.csv`;
-          this.downloadBlob(csvBlob, csvName);
-          this.progress = 100;
-          this.showStats = true;
-          this.showSuccess(
-            fastMode
-              ? `XLSX export failed, downloaded CSV instead. ${exportRowCount} rows exported. Fast mode enabled for speed (detailed category downloads may be limited).`
-              : `XLSX export failed, downloaded CSV instead. ${exportRowCount} rows exported.`
-          );
-        } catch (fallbackError) {
-          console.error('CSV fallback error:', fallbackError);
-          this.showError('Failed to download file. Try a smaller selection or export mode.');
-          this.progress = 0;
+  async onSuppressionFileChange(event: Event) {
+    const target = event.target as HTMLInputElement;
+    const files = Array.from(target.files || []);
+    target.value = '';
+    if (!files.length) return;
+
+    this.clearMessages();
+    this.isLoadingSuppression = true;
+    const failures: string[] = [];
+
+    try {
+      for (const file of files) {
+        if (!this.isValidExcelFile(file) || file.size > this.MAX_FILE_SIZE) {
+          failures.push(`${file.name}: unsupported file type or size`);
+          continue;
         }
-      } finally {
-        // Small delay to ensure download initiates before resetting UI state
-        setTimeout(() => {
-          this.isProcessing = false;
-          this.cdr.detectChanges();
-          if (this.DEBUG) console.log('Processing complete, UI reset');
-        }, 500);
+        const error = await this.loadSuppressionList(file);
+        if (error) failures.push(`${file.name}: ${error}`);
       }
-    } catch (error) {
-      this.isProcessing = false;
-      this.progress = 0;
-      this.showError('Failed to process data. Please try again.');
-      console.error('Processing error:', error);
+
+      if (failures.length) this.showError(failures.join(' '));
+      else this.showSuccess('Suppression list loaded. Matching numbers will be dropped from every export.');
+    } finally {
+      this.isLoadingSuppression = false;
+      void this.saveSuppressionFiles();
       this.cdr.detectChanges();
     }
   }
 
-  private yieldToBrowser(): Promise<void> {
-    return new Promise(resolve => {
-      if (typeof requestAnimationFrame === 'function') {
-        requestAnimationFrame(() => resolve());
-      } else {
-        setTimeout(resolve, 0);
-      }
-    });
+  removeSuppressionList(index: number) {
+    const [removed] = this.suppressionLists.splice(index, 1);
+    if (!removed) return;
+    void this.getCleaner().removeSuppressionList(removed.id);
+    this.suppressionFiles.delete(removed.id);
+    void this.saveSuppressionFiles();
   }
 
-  /* ================= MOBILE CLEANER ================= */
+  /** Loads one suppression list into the cleaner; returns why it could not be read, if it could not. */
+  private async loadSuppressionList(file: File): Promise<string | undefined> {
+    const id = `suppression-${this.nextSuppressionId++}`;
+    const loaded = await this.getCleaner().loadSuppressionFile(id, file);
+    if (loaded.error) return loaded.error;
+    this.suppressionLists.push({ id, fileName: file.name, entryCount: loaded.entryCount });
+    this.suppressionFiles.set(id, file);
+    return undefined;
+  }
 
-  cleanMobile(value: any, trackStats = false): string | null {
-    const detail = this.cleanMobileDetailed(value);
-    if (trackStats) {
-      if (detail.reason === 'invalidPattern') this.stats.invalidPattern++;
-      if (detail.reason === 'invalidLength') this.stats.invalidLength++;
-    }
-    return detail.cleaned;
+  /* ================= CONTACT HISTORY ================= */
+
+  async refreshHistorySummary() {
+    this.historySummary = await this.getCleaner().historySummary();
+    this.cdr.detectChanges();
   }
 
-  private cleanMobileDetailed(value: any): { cleaned: string | null; cleanedNumbers: string[]; reason: 'valid' | 'invalidPattern' | 'invalidLength' | 'empty' } {
-    if (value === null || value === undefined || value === '') {
-      return { cleaned: null, cleanedNumbers: [], reason: 'empty' };
+  async exportHistory() {
+    this.clearMessages();
+    const exported = await this.getCleaner().exportHistory();
+    if (exported.error || !exported.blob) {
+      this.showError(exported.error || 'Failed to export the contact history.');
+      return;
     }
+    this.downloadBlob(exported.blob, 'contact_history.csv');
+    this.showSuccess(`Exported ${this.historySummary.count} contacted number(s).`);
+  }
 
-    const cleanedNumbers = this.extractValidMobiles(value, 2);
-    if (cleanedNumbers.length > 0) {
-      return { cleaned: cleanedNumbers[0], cleanedNumbers, reason: 'valid' };
-    }
+  async onHistoryFileChange(event: Event) {
+    const target = event.target as HTMLInputElement;
+    const file = target.files?.[0];
+    target.value = '';
+    if (!file) return;
 
-    const normalizedValue = this.normalizeMobileSource(value);
-    const str = normalizedValue.replace(/[^0-9]/g, '');
-    if (!str) {
-      return { cleaned: null, cleanedNumbers: [], reason: 'invalidLength' };
+    this.clearMessages();
+    const imported = await this.getCleaner().importHistory(file);
+    if (imported.error) {
+      this.showError(imported.error);
+    } else {
+      const skippedNote = imported.skipped ? ` ${imported.skipped} row(s) without a valid number were skipped.` : '';
+      this.showSuccess(`Imported ${imported.imported} contacted number(s).${skippedNote}`);
     }
+    await this.refreshHistorySummary();
+  }
 
-    const matches = str.match(/\d{10,12}/g);
-    if (!matches) {
-      return { cleaned: null, cleanedNumbers: [], reason: 'invalidLength' };
-    }
+  async clearHistory() {
+    if (!confirm('Clear the contact history stored in this browser? This cannot be undone.')) return;
+
+    this.clearMessages();
+    const cleared = await this.getCleaner().clearHistory();
+    if (cleared.error) this.showError(cleared.error);
+    else this.showSuccess('Contact history cleared.');
+    await this.refreshHistorySummary();
+  }
 
-    const hasTenDigitLike = matches.some(num => {
-      let n = num;
-      if (n.length === 12 && n.startsWith('91')) n = n.slice(2);
-      if (n.length === 11 && n.startsWith('0')) n = n.slice(1);
-      return n.length === 10;
-    });
+  /* ================= VALIDATION RULES ================= */
 
-    return { cleaned: null, cleanedNumbers: [], reason: hasTenDigitLike ? 'invalidPattern' : 'invalidLength' };
+  ruleListText(key: RuleListKey): string {
+    return this.validationRules[key].join('\n');
   }
 
-  private extractValidMobiles(value: any, maxNumbers = 2): string[] {
-    const normalizedValue = this.normalizeMobileSource(value);
-    const str = normalizedValue.replace(/[^0-9]/g, '');
-    if (!str) return [];
+  /** Rule lists are edited one entry per line. */
+  setRuleList(key: RuleListKey, text: string) {
+    this.updateRules({ [key]: text.split(/\r?\n/).map(line => line.trim()).filter(Boolean) });
+  }
 
-    const matches = str.match(/\d{10,12}/g);
-    if (!matches) return [];
+  updateRules(changes: Partial<ValidationRules>) {
+    // A new object lets getMobileCleaner() notice the change.
+    this.validationRules = { ...this.validationRules, ...changes };
+    this.ruleProblems = validateRules(this.validationRules);
+  }
 
-    const result: string[] = [];
-    for (let num of matches) {
-      if (num.length === 12 && num.startsWith('91')) num = num.slice(2);
-      if (num.length === 11 && num.startsWith('0')) num = num.slice(1);
-      if (num.length !== 10) continue;
-      if (!/^[6-9]\d{9}$/.test(num)) continue;
-      if (this.isInvalidPattern(num)) continue;
+  useRecommendedRules() {
+    this.updateRules(RECOMMENDED_VALIDATION_RULES);
+  }
 
-      const cleaned = `+91${num}`;
-      if (!result.includes(cleaned)) {
-        result.push(cleaned);
-        if (result.length >= maxNumbers) break;
-      }
-    }
-    return result;
+  clearRules() {
+    this.updateRules(EMPTY_VALIDATION_RULES);
   }
 
-  private normalizeMobileSource(value: any): string {
-    if (typeof value === 'number' && Number.isFinite(value)) {
-      return this.numberToPlainString(value);
+  saveRuleSet() {
+    this.clearMessages();
+    const name = this.ruleSetName.trim();
+    if (!name) {
+      this.showError('Please enter a name for the rule set.');
+      return;
     }
-
-    const text = String(value).trim();
-    if (/^[+-]?\d+(\.\d+)?e[+-]?\d+$/i.test(text)) {
-      const parsed = Number(text);
-      if (Number.isFinite(parsed)) {
-        return this.numberToPlainString(parsed);
-      }
+    if (this.ruleProblems.length) {
+      this.showError(this.ruleProblems[0]);
+      return;
     }
+    this.ruleSets = [
+      ...this.ruleSets.filter(set => set.name !== name),
+      { name, rules: { ...this.validationRules } }
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    saveRuleSets(this.ruleSets);
+    this.showSuccess(`Rule set "${name}" saved.`);
+  }
 
-    return text;
+  applyRuleSet(name: string) {
+    const set = this.ruleSets.find(s => s.name === name);
+    if (!set) return;
+    this.ruleSetName = set.name;
+    this.updateRules(set.rules);
   }
 
-  private numberToPlainString(value: number): string {
-    if (Number.isInteger(value)) return String(value);
-    return value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+  deleteRuleSet(name: string) {
+    this.ruleSets = this.ruleSets.filter(set => set.name !== name);
+    saveRuleSets(this.ruleSets);
+    if (this.ruleSetName === name) this.ruleSetName = '';
   }
 
-  private isInvalidPattern(num: string): boolean {
-    return this.INVALID_PATTERNS.some(pattern => pattern.test(num));
+  /* ================= EXPORT TEMPLATES ================= */
+
+  useTemplate(name: string) {
+    const template = [...BUILT_IN_TEMPLATES, ...this.savedTemplates].find(t => t.name === name);
+    if (template) this.exportTemplate = cloneTemplate(template);
   }
 
-  private detectDelimiter(sample: string): string {
-    const candidates = [',', '\t', ';', '|'];
-    let best = ',';
-    let bestCount = -1;
-    for (const c of candidates) {
-      const count = (sample.split(c).length - 1);
-      if (count > bestCount) {
-        bestCount = count;
-        best = c;
-      }
+  addTemplateColumn() {
+    const columns = this.exportTemplate.columns;
+    columns.push({ header: `Column ${columns.length + 1}`, source: 'static', value: '' });
+  }
+
+  removeTemplateColumn(index: number) {
+    this.exportTemplate.columns.splice(index, 1);
+  }
+
+  saveTemplate() {
+    this.clearMessages();
+    const name = this.exportTemplate.name.trim();
+    if (!name) {
+      this.showError('Please enter a name for the template.');
+      return;
     }
-    return best;
-  }
-
-  private parseLine(line: string, delim: string): string[] {
-    // Generic parser that handles quoted fields with the given delimiter
-    const out: string[] = [];
-    let cur = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i];
-      if (ch === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          cur += '"';
-          i++; // skip escaped quote
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (ch === delim && !inQuotes) {
-        out.push(cur);
-        cur = '';
-      } else {
-        cur += ch;
-      }
+    if (BUILT_IN_TEMPLATES.some(t => t.name === name)) {
+      this.showError('Built-in templates cannot be changed. Please save under another name.');
+      return;
+    }
+    const problems = validateTemplate(this.exportTemplate);
+    if (problems.length) {
+      this.showError(problems[0]);
+      return;
     }
-    out.push(cur);
-    return out.map(s => s.replace(/^"|"$/g, '').trim());
+    this.exportTemplate.name = name;
+    this.savedTemplates = [
+      ...this.savedTemplates.filter(t => t.name !== name),
+      cloneTemplate(this.exportTemplate)
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    saveExportTemplates(this.savedTemplates);
+    this.showSuccess(`Template "${name}" saved.`);
   }
 
-  private sanitizeForExcelCell(value: any): string | number | boolean | Date | null {
-    if (value === undefined || value === null) return null;
-    if (value instanceof Date) return value;
-    if (typeof value === 'number' || typeof value === 'boolean') return value;
-    const text = String(value);
-    // Excel cell text limit is 32767 characters.
-    return text.length > 32767 ? text.slice(0, 32767) : text;
+  deleteTemplate(name: string) {
+    this.savedTemplates = this.savedTemplates.filter(t => t.name !== name);
+    saveExportTemplates(this.savedTemplates);
   }
 
-  private buildCsvBlob(data: any[][]): Blob {
-    const rows = data.map(row =>
-      row.map(cell => {
-        const normalized = this.sanitizeForExcelCell(cell);
-        const text = normalized === null ? '' : String(normalized);
-        if (/[",\n\r]/.test(text)) {
-          return `"${text.replace(/"/g, '""')}"`;
-        }
-        return text;
-      }).join(',')
-    );
-    const csv = '\uFEFF' + rows.join('\r\n');
-    return new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  }
-
-  private csvEscape(value: any): string {
-    const normalized = this.sanitizeForExcelCell(value);
-    const text = normalized === null ? '' : String(normalized);
-    if (/[",\n\r]/.test(text)) {
-      return `"${text.replace(/"/g, '""')}"`;
-    }
-    return text;
-  }
-
-  private async loadCsvPreview(file: File, onProgress?: (progress: number) => void): Promise<{ rows: string[][]; delimiter: string }> {
-    const rows: string[][] = [];
-    let delimiter = ',';
-    let delimiterDetected = false;
-    let rowCount = 0;
-
-    await this.streamCsvLines(
-      file,
-      (line) => {
-        if (!delimiterDetected) {
-          delimiter = this.detectDelimiter(line);
-          delimiterDetected = true;
-        }
-        rows.push(this.parseLine(line, delimiter));
-        rowCount++;
-        return rowCount < this.MAX_PREVIEW_ROWS;
-      },
-      onProgress
-    );
-
-    return { rows, delimiter };
-  }
-
-  private async streamCsvLines(
-    file: File,
-    onLine: (line: string) => boolean | void | Promise<boolean | void>,
-    onProgress?: (progress: number) => void
-  ): Promise<void> {
-    const decoder = new TextDecoder('utf-8');
-    let offset = 0;
-    let leftover = '';
-    let shouldContinue = true;
-
-    while (offset < file.size && shouldContinue) {
-      const next = Math.min(offset + this.CSV_STREAM_CHUNK_SIZE, file.size);
-      const buffer = await file.slice(offset, next).arrayBuffer();
-      offset = next;
-
-      const text = decoder.decode(buffer, { stream: offset < file.size });
-      const merged = leftover + text;
-      const lines = merged.split(/\r\n|\n/);
-      leftover = lines.pop() ?? '';
-
-      for (const line of lines) {
-        const result = await onLine(line);
-        if (result === false) {
-          shouldContinue = false;
-          break;
-        }
-      }
+  /* ================= CLEANING RECIPES ================= */
 
-      if (onProgress) {
-        onProgress(Math.round((offset / file.size) * 100));
+  saveRecipe() {
+    this.clearMessages();
+    const name = this.recipeName.trim();
+    if (!name) {
+      this.showError('Please enter a name for the recipe.');
+      return;
+    }
+    if (this.headerRowIndex === null || !this.selectedColumns.length) {
+      this.showError('Select the header row and at least one mobile column first.');
+      return;
+    }
+    const mobileColumns = this.selectedColumns.map(col => this.headers[col]).filter(Boolean);
+    if (mobileColumns.length !== this.selectedColumns.length) {
+      this.showError('Recipes find mobile columns by header text. Every mobile column needs a header.');
+      return;
+    }
+    if (this.ruleProblems.length) {
+      this.showError(this.ruleProblems[0]);
+      return;
+    }
+    if (this.exportMode === 'template') {
+      const problems = validateTemplate(this.exportTemplate);
+      if (problems.length) {
+        this.showError(problems[0]);
+        return;
       }
-      await this.yieldToBrowser();
     }
 
-    if (shouldContinue && leftover.length > 0) {
-      await onLine(leftover);
-      if (onProgress) onProgress(100);
-    }
+    const recipe: CleaningRecipe = {
+      name,
+      sheetPattern: this.recipeSheetPattern.trim(),
+      headerRowIndex: this.headerRowIndex,
+      mobileColumns,
+      nameColumn: this.selectedNameColumn === null ? null : this.headers[this.selectedNameColumn] || null,
+      exportMode: this.exportMode,
+      ...(this.exportMode === 'template' ? { template: cloneTemplate(this.exportTemplate) } : {}),
+      countryProfile: this.countryProfile,
+      multiCountryFallback: this.multiCountryFallback,
+      rules: { ...this.validationRules },
+      autoApply: this.recipeAutoApply
+    };
+    this.recipes = [
+      ...this.recipes.filter(r => r.name !== name),
+      recipe
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    saveRecipes(this.recipes);
+    this.matchedRecipe = recipe;
+    this.recipeApplied = true;
+    this.showSuccess(`Recipe "${name}" saved.`);
   }
 
-  private addLimitedStatRow(type: 'valid' | 'duplicates' | 'invalidPattern' | 'invalidLength', row: any) {
-    const bucket = this.statDownloads[type] as any[];
-    if (bucket.length < this.MAX_STAT_DOWNLOAD_ROWS) {
-      bucket.push(row);
+  /** Sets the header row, columns, export mode, country and rules of the active file from a recipe. */
+  applyRecipe(name: string) {
+    const recipe = this.recipes.find(r => r.name === name);
+    if (!recipe) return;
+    if (!this.rawData[recipe.headerRowIndex]) {
+      this.showError(
+        `Recipe "${name}" uses row ${recipe.headerRowIndex + 1} as the header, which this sheet does not have.`
+      );
+      return;
+    }
+
+    this.countryProfile = recipe.countryProfile;
+    this.multiCountryFallback = recipe.multiCountryFallback;
+    this.updateRules(recipe.rules);
+    this.setHeaderRow(recipe.headerRowIndex);
+    if (this.headerRowIndex !== recipe.headerRowIndex) return;
+
+    const { selectedColumns, selectedNameColumn } = recipeColumns(recipe, this.headers);
+    this.selectedColumns = selectedColumns;
+    if (recipe.nameColumn !== null) this.selectedNameColumn = selectedNameColumn;
+    this.exportMode = recipe.exportMode;
+    if (recipe.template) this.exportTemplate = cloneTemplate(recipe.template);
+    this.syncSheetMapping();
+
+    this.recipeName = recipe.name;
+    this.recipeSheetPattern = recipe.sheetPattern;
+    this.recipeAutoApply = recipe.autoApply;
+    this.matchedRecipe = recipe;
+    this.recipeApplied = true;
+
+    const missing = recipe.mobileColumns.length - selectedColumns.length;
+    if (missing) {
+      this.showError(`Recipe "${name}" applied, but ${missing} of its mobile column(s) are not in this sheet.`);
+    } else {
+      this.showSuccess(`Recipe "${name}" applied.`);
     }
   }
 
-  private async cleanAndDownloadCsvStreaming() {
-    if (!this.csvStreamingFile) return;
-    if (this.isProcessing) return;
+  deleteRecipe(name: string) {
+    this.recipes = this.recipes.filter(r => r.name !== name);
+    saveRecipes(this.recipes);
+    if (this.matchedRecipe?.name === name) this.matchedRecipe = null;
+  }
 
-    this.isProcessing = true;
-    this.progress = 0;
-    this.resetStats();
+  exportRecipes() {
+    if (!this.recipes.length) return;
+    this.clearMessages();
+    const blob = new Blob([recipesToJson(this.recipes)], { type: 'application/json' });
+    this.downloadBlob(blob, 'cleaning_recipes.json');
+    this.showSuccess(`Exported ${this.recipes.length} recipe(s).`);
+  }
+
+  /** Imports shared recipes; one with the name of a saved recipe replaces it. */
+  async onRecipeFileChange(event: Event) {
+    const target = event.target as HTMLInputElement;
+    const file = target.files?.[0];
+    target.value = '';
+    if (!file) return;
 
+    this.clearMessages();
     try {
-      const file = this.csvStreamingFile;
-      const keepAllRows = this.exportMode === 'keep-all';
-      const needsFullRows = this.exportMode === 'full' || this.exportMode === 'keep-all';
-      const needsMobileNamePairs = this.exportMode === 'mobile-name';
-      const seenNumbers = new Set<string>();
-      let delimiter = this.csvDelimiter || ',';
-      let delimiterDetected = false;
-      let rowIndex = -1;
-      let exportRowCount = 0;
-      let headerWritten = false;
-      let dataRowsProcessed = 0;
-
-      const csvParts: string[] = ['\uFEFF'];
-      let csvBuffer = '';
-      let bufferedLines = 0;
-      const flushCsvBuffer = () => {
-        if (csvBuffer.length === 0) return;
-        csvParts.push(csvBuffer);
-        csvBuffer = '';
-        bufferedLines = 0;
-      };
-      const appendCsvLine = (line: string) => {
-        csvBuffer += line;
-        bufferedLines++;
-        if (bufferedLines >= 2000 || csvBuffer.length >= 2 * 1024 * 1024) {
-          flushCsvBuffer();
-        }
-      };
+      const { recipes, error } = parseRecipes(await file.text());
+      if (error) {
+        this.showError(error);
+        return;
+      }
+      const names = new Set(recipes.map(r => r.name));
+      this.recipes = [
+        ...this.recipes.filter(r => !names.has(r.name)),
+        ...recipes
+      ].sort((a, b) => a.name.localeCompare(b.name));
+      saveRecipes(this.recipes);
+      if (!this.recipeApplied) this.offerRecipe();
+      if (!this.errorMessage) this.showSuccess(`Imported ${recipes.length} recipe(s).`);
+    } catch (error) {
+      console.error('Recipe import error:', error);
+      this.showError('Failed to read the recipe file.');
+    } finally {
+      this.cdr.detectChanges();
+    }
+  }
 
-      await this.streamCsvLines(
-        file,
-        async (line) => {
-          rowIndex++;
-          if (!delimiterDetected) {
-            delimiter = this.detectDelimiter(line);
-            delimiterDetected = true;
-          }
+  /** Offers the saved recipe that fits the sheet just previewed, or applies it when it auto-applies. */
+  private offerRecipe() {
+    this.recipeApplied = false;
+    this.matchedRecipe = this.rawData.length ? findRecipe(this.recipes, this.selectedSheet, this.rawData) : null;
+    if (this.matchedRecipe?.autoApply) this.applyRecipe(this.matchedRecipe.name);
+  }
 
-          const row = this.parseLine(line, delimiter);
-          if (rowIndex < (this.headerRowIndex ?? 0)) return true;
-
-          if (rowIndex === this.headerRowIndex) {
-            if (this.exportMode === 'full' || this.exportMode === 'keep-all') {
-              const exportHeaders = this.headers.map(header => this.toExportHeader(header));
-              appendCsvLine(exportHeaders.map(v => this.csvEscape(v)).join(',') + '\r\n');
-            } else if (this.exportMode === 'unique') {
-              appendCsvLine(`${this.csvEscape(this.toExportHeader('Mobile Number'))}\r\n`);
-            } else {
-              appendCsvLine(`${this.csvEscape(this.toExportHeader('Name'))},${this.csvEscape(this.toExportHeader('Mobile Number'))}\r\n`);
-            }
-            headerWritten = true;
-            return true;
-          }
+  /* ================= OPERATOR & CIRCLE ================= */
 
-          if (!headerWritten) return true;
-          dataRowsProcessed++;
-          this.stats.total = dataRowsProcessed;
+  get supportsSeriesLookup(): boolean {
+    return this.countryProfile === 'IN' || this.countryProfile === 'multi';
+  }
 
-          if (row.length < this.headers.length) {
-            while (row.length < this.headers.length) row.push('');
-          }
+  toggleCircle(circle: string) {
+    const pos = this.keepCircles.indexOf(circle);
+    if (pos !== -1) {
+      this.keepCircles.splice(pos, 1);
+    } else {
+      this.keepCircles.push(circle);
+    }
+  }
 
-          const name = this.selectedNameColumn !== null ? (row[this.selectedNameColumn] || '') : '';
-          const validMobiles: string[] = [];
-          const perColumn: (string | null)[] = [];
-
-          for (const col of this.selectedColumns) {
-            const detail = this.cleanMobileDetailed(row[col]);
-            if (needsFullRows) {
-              perColumn.push(detail.cleanedNumbers.length > 0 ? detail.cleanedNumbers.join(' / ') : null);
-            }
-            const headerName = this.headers[col] || `Column_${col + 1}`;
-
-            if (detail.cleanedNumbers.length > 0) {
-              validMobiles.push(...detail.cleanedNumbers);
-              for (const cleanedNumber of detail.cleanedNumbers) {
-                this.addLimitedStatRow('valid', {
-                  row: rowIndex + 1,
-                  column: headerName,
-                  original: String(row[col] ?? ''),
-                  cleaned: cleanedNumber
-                });
-              }
-            } else if (detail.reason === 'invalidPattern') {
-              this.stats.invalidPattern++;
-              this.addLimitedStatRow('invalidPattern', {
-                row: rowIndex + 1,
-                column: headerName,
-                value: String(row[col] ?? '')
-              });
-            } else if (detail.reason === 'invalidLength') {
-              this.stats.invalidLength++;
-              this.addLimitedStatRow('invalidLength', {
-                row: rowIndex + 1,
-                column: headerName,
-                value: String(row[col] ?? '')
-              });
-            }
-          }
+  private numberSeriesOptions(): CleanOptions['numberSeries'] {
+    if (!this.supportsSeriesLookup || (!this.addSeriesColumns && !this.keepCircles.length)) return undefined;
+    return { addColumns: this.addSeriesColumns, keepCircles: [...this.keepCircles] };
+  }
 
-          const rowMobiles = Array.from(new Set(validMobiles));
-          if (keepAllRows) {
-            this.selectedColumns.forEach((col, idx) => {
-              if (perColumn[idx]) row[col] = perColumn[idx] as string;
-            });
-            if (rowMobiles.length > 0) this.stats.valid += rowMobiles.length;
-            appendCsvLine(row.map(v => this.csvEscape(v)).join(',') + '\r\n');
-            exportRowCount++;
-            return true;
-          }
+  /* ================= LEAD DISTRIBUTION ================= */
 
-          if (rowMobiles.length === 0) return true;
+  addAgent() {
+    this.distributionAgents.push({ name: `Agent ${this.distributionAgents.length + 1}`, weight: 1, values: '' });
+  }
 
-          const unseenMobiles: string[] = [];
-          const duplicateMobiles: string[] = [];
-          for (const mobile of rowMobiles) {
-            const normalized = mobile.replace('+91', '');
-            if (seenNumbers.has(normalized)) duplicateMobiles.push(mobile);
-            else unseenMobiles.push(mobile);
-          }
+  removeAgent(index: number) {
+    this.distributionAgents.splice(index, 1);
+  }
 
-          if (unseenMobiles.length === 0) {
-            this.stats.duplicates++;
-            for (const duplicate of duplicateMobiles) {
-              this.addLimitedStatRow('duplicates', { row: rowIndex + 1, mobile: duplicate });
-            }
-            return true;
-          }
+  private leadDistribution(): CleanOptions['distribution'] {
+    if (!this.distributeLeads || this.vcardOptions()) return undefined;
+    return {
+      agents: this.distributionAgents.map(agent => ({
+        name: agent.name,
+        weight: Number(agent.weight),
+        values: agent.values.split(',').map(value => value.trim()).filter(Boolean)
+      })),
+      method: this.distributionMethod,
+      column: this.distributionColumn,
+      output: this.distributionOutput
+    };
+  }
 
-          for (const number of unseenMobiles) {
-            seenNumbers.add(number.replace('+91', ''));
-          }
-          this.stats.valid += unseenMobiles.length;
-
-          if (this.exportMode === 'unique') {
-            for (const number of unseenMobiles) {
-              appendCsvLine(this.csvEscape(number) + '\r\n');
-              exportRowCount++;
-            }
-            return true;
-          }
+  /* ================= CLEAN & DOWNLOAD ================= */
+
+  async cleanAndDownload() {
+    this.clearMessages();
+    this.syncActiveSource();
+
+    const sources: SourceOptions[] = [];
+    for (let i = 0; i < this.sources.length; i++) {
+      const source = this.sources[i];
+      const filePrefix = this.sources.length > 1 ? `${source.fileName}: ` : '';
+      // In all-sheets mode, sheets where no mobile column was found are left out.
+      const sheets = source.allSheets
+        ? source.sheetMappings.filter(m => m.headerRowIndex !== null && m.selectedColumns.length > 0)
+        : null;
+      if (sheets && !sheets.length) {
+        this.selectSource(i);
+        this.showError(`${filePrefix}No mobile columns found on any sheet. Please select them manually.`);
+        return;
+      }
 
-          if (needsMobileNamePairs) {
-            for (const number of unseenMobiles) {
-              appendCsvLine(`${this.csvEscape(name)},${this.csvEscape(number)}\r\n`);
-              exportRowCount++;
-            }
-            return true;
+      for (const mapping of sheets ?? [source]) {
+        const sheetName = sheets ? (mapping as SheetMapping).sheetName : source.selectedSheet;
+        const problem = this.checkSourceMapping(mapping);
+        if (problem) {
+          this.selectSource(i);
+          if (sheets) {
+            this.selectedSheet = sheetName;
+            await this.previewSheet();
           }
+          this.showError(`${filePrefix}${sheets ? `${sheetName}: ` : ''}${problem}`);
+          return;
+        }
+        sources.push({
+          sourceId: source.id,
+          fileName: source.fileName,
+          sheetName,
+          headerRowIndex: mapping.headerRowIndex!,
+          headers: mapping.headers,
+          selectedColumns: mapping.selectedColumns,
+          selectedNameColumn: mapping.selectedNameColumn
+        });
+      }
+    }
+
+    if (!sources.length) {
+      this.showError('Please select a header row first');
+      return;
+    }
+
+    if (this.ruleProblems.length) {
+      this.showError(this.ruleProblems[0]);
+      return;
+    }
+
+    const templateProblems = this.exportMode === 'template' ? validateTemplate(this.exportTemplate) : [];
+    if (templateProblems.length) {
+      this.showError(templateProblems[0]);
+      return;
+    }
 
-          // full export
-          const primary = unseenMobiles[0];
-          this.selectedColumns.forEach((col, idx) => {
-            row[col] = perColumn[idx] ?? primary;
-          });
-          appendCsvLine(row.map(v => this.csvEscape(v)).join(',') + '\r\n');
-          exportRowCount++;
-          return true;
+    const parts = this.exportParts();
+    const partsProblems = parts ? validateParts(parts) : [];
+    if (partsProblems.length) {
+      this.showError(partsProblems[0]);
+      return;
+    }
+
+    const distribution = this.leadDistribution();
+    const distributionProblems = distribution ? validateDistribution(distribution) : [];
+    if (distributionProblems.length) {
+      this.showError(distributionProblems[0]);
+      return;
+    }
+
+    if (this.isProcessing) return;
+
+    this.isProcessing = true;
+    this.progress = 0;
+    this.resetStats();
+    void this.saveSession(null);
+    if (this.DEBUG) console.log(`Starting data processing. Header row index: ${this.headerRowIndex}, Selected columns:`, this.selectedColumns);
+
+    try {
+      const result = await this.getCleaner().clean(
+        {
+          fileName:
+            this.sources.length > 1 ? `Merged_${this.sources.length}_Files` :
+            sources.length > 1 ? `${this.fileName}_All_Sheets` : this.fileName,
+          exportMode: this.exportMode,
+          mobile: this.mobileOptions(),
+          sources,
+          outputFormat: this.outputFormat,
+          splitBySource: this.sheetOutput === 'perSheet',
+          duplicates: this.duplicateStrategy,
+          history: {
+            excludeDays: this.skipRecentContacts ? Math.max(1, Number(this.recentContactDays) || 1) : null,
+            record: this.recordHistory
+          },
+          numberSeries: this.numberSeriesOptions(),
+          vcard: this.vcardOptions(),
+          parts,
+          distribution,
+          audit: this.buildAudit,
+          template: this.exportMode === 'template' ? cloneTemplate(this.exportTemplate) : undefined
         },
-        (progress) => {
+        ({ progress, stats }) => {
           this.progress = progress;
+          this.stats = stats;
           this.cdr.detectChanges();
         }
       );
 
-      if (exportRowCount <= 0) {
-        this.showError('No valid mobile numbers found in the selected columns.');
+      this.stats = result.stats;
+      this.statDownloads = result.statDownloads;
+      this.sourceStats = result.sourceStats;
+      this.circleCounts = Object.entries(result.circleCounts ?? {})
+        .map(([circle, count]) => ({ circle, count }))
+        .sort((a, b) => b.count - a.count);
+      this.auditBlob = result.audit ?? null;
+      this.assignmentCounts = Object.entries(result.assignmentCounts ?? {}).map(([agent, count]) => ({ agent, count }));
+
+      if (result.error || !result.blob || !result.fileName) {
+        this.showError(result.error || 'No data to export.');
         this.progress = 0;
-        this.isProcessing = false;
         return;
       }
 
-      flushCsvBuffer();
-      const blob = new Blob(csvParts, { type: 'text/csv;charset=utf-8;' });
-      const fileName = `(${exportRowCount})-${this.fileName}.csv`;
-      this.downloadBlob(blob, fileName);
+      // Trigger browser-native download outside Angular zone.
+      const { blob, fileName } = result;
+      this.ngZone.runOutsideAngular(() => this.downloadBlob(blob, fileName));
+      if (this.DEBUG) console.log(`Generated export file: ${fileName}`, { size: blob.size });
+
       this.progress = 100;
       this.showStats = true;
-      this.showSuccess(`Processed and downloaded successfully. ${exportRowCount} rows exported.`);
+      this.lastExport = { blob, fileName };
+      const message = this.describeExport(result);
+      this.showSuccess(message);
+      if (this.recordHistory) void this.refreshHistorySummary();
+      void this.saveSession(this.sessionResult(message));
     } catch (error) {
-      console.error('CSV streaming processing error:', error);
-      this.showError('Failed to process large CSV. Please try again with a split file.');
       this.progress = 0;
+      this.showError('Failed to process data. Please try again.');
+      console.error('Processing error:', error);
     } finally {
       this.isProcessing = false;
       this.cdr.detectChanges();
     }
   }
 
-  private toExportHeader(header: string): string {
-    return String(header || '')
-      .trim()
-      .replace(/\s+/g, '_');
+  private vcardOptions(): CleanOptions['vcard'] {
+    if (this.exportMode !== 'mobile-name' || !this.exportVCard) return undefined;
+    return { version: this.vcardVersion, namePrefix: this.vcardNamePrefix, nameSuffix: this.vcardNameSuffix };
   }
 
-  private resetStats() {
-    this.stats = {
-      total: 0,
-      valid: 0,
-      duplicates: 0,
-      invalidPattern: 0,
-      invalidLength: 0
-    };
-    this.statDownloads = {
-      valid: [],
-      duplicates: [],
-      invalidPattern: [],
-      invalidLength: []
+  private exportParts(): CleanOptions['parts'] {
+    if (!this.splitIntoParts || this.vcardOptions()) return undefined;
+    return { by: this.partsBy, size: Number(this.partsSize) };
+  }
+
+  private checkSourceMapping(mapping: ColumnMapping): string | null {
+    if (mapping.headerRowIndex === null) return 'Please select a header row first';
+    if (mapping.selectedColumns.length === 0) return 'Please select at least one mobile column';
+    if (this.exportMode === 'mobile-name' && mapping.selectedNameColumn === null) {
+      return 'Please select a name column for mobile-name export';
+    }
+    if (
+      this.exportMode === 'template' &&
+      templateUsesName(this.exportTemplate) &&
+      mapping.selectedNameColumn === null
+    ) {
+      return 'Please select a name column for this template';
+    }
+    return null;
+  }
+
+  private describeExport(result: CleanResult): string {
+    const rows = `${result.exportRowCount} rows exported.${result.warning ? ` ${result.warning}` : ''}`;
+    const fastNote = result.fastMode
+      ? ' Fast mode enabled for speed (detailed category downloads may be limited).'
+      : '';
+    if (result.format === 'zip' && !this.vcardOptions()) {
+      return `Downloaded a ZIP of ${result.fileCount} files. ${rows}${fastNote}`;
+    }
+    if (result.format === 'vcf' || result.format === 'zip') {
+      const contacts = `${result.exportRowCount} contacts exported.${result.warning ? ` ${result.warning}` : ''}`;
+      return result.format === 'zip'
+        ? `Downloaded a ZIP of ${result.fileCount} vCard files. ${contacts}`
+        : `Downloaded vCard contacts. ${contacts}`;
+    }
+    return `Processed and downloaded successfully. ${rows}${fastNote}`;
+  }
+
+  /* ================= MOBILE CLEANER ================= */
+
+  cleanMobile(value: any, trackStats = false): string | null {
+    const detail = this.cleanMobileDetailed(value);
+    if (trackStats) {
+      if (detail.reason === 'invalidPattern') this.stats.invalidPattern++;
+      if (detail.reason === 'invalidLength') this.stats.invalidLength++;
+    }
+    return detail.cleaned;
+  }
+
+  private cleanMobileDetailed(value: any): MobileCleanDetail {
+    return this.getMobileCleaner().cleanDetailed(value);
+  }
+
+  onCountryProfileChange() {
+    // Re-run column detection only when the user has not picked columns yet.
+    if (this.headerRowIndex !== null && this.selectedColumns.length === 0) {
+      this.setHeaderRow(this.headerRowIndex);
+    }
+  }
+
+  private mobileOptions() {
+    return {
+      countryProfile: this.countryProfile,
+      multiCountryFallback: this.multiCountryFallback,
+      rules: this.validationRules
     };
+  }
+
+  private getMobileCleaner(): MobileCleaner {
+    const options = this.mobileOptions();
+    const current = this.mobileCleaner?.options;
+    if (
+      !this.mobileCleaner ||
+      current?.countryProfile !== options.countryProfile ||
+      current?.multiCountryFallback !== options.multiCountryFallback ||
+      current?.rules !== options.rules
+    ) {
+      this.mobileCleaner = new MobileCleaner(options);
+    }
+    return this.mobileCleaner;
+  }
+
+  private resetStats() {
+    this.stats = createEmptyStats();
+    this.statDownloads = createEmptyStatDownloads();
+    this.sourceStats = [];
+    this.circleCounts = [];
+    this.assignmentCounts = [];
+    this.auditBlob = null;
+    this.lastExport = null;
     this.showStats = false;
   }
 
-  async downloadStatReport(type: 'valid' | 'duplicates' | 'invalidPattern' | 'invalidLength') {
+  async downloadStatReport(type: StatCategory) {
     this.clearMessages();
     const rows = this.statDownloads[type];
     if (!rows.length) {
@@ -1284,34 +1690,8 @@ export class AppComponent implements OnInit, OnDestroy {
     }
 
     try {
-      const XLSX = await this.loadXlsx();
-      const wb = XLSX.utils.book_new();
-      let data: any[][] = [];
-      let sheetName = '';
-
-      if (type === 'valid') {
-        data = [[this.toExportHeader('Row'), this.toExportHeader('Column'), this.toExportHeader('Original_Value'), this.toExportHeader('Cleaned_Number')]];
-        data.push(...rows.map((r: any) => [r.row, r.column, r.original, r.cleaned]));
-        sheetName = 'Valid Numbers';
-      } else if (type === 'duplicates') {
-        data = [[this.toExportHeader('Row'), this.toExportHeader('Duplicate_Mobile')]];
-        data.push(...rows.map((r: any) => [r.row, r.mobile]));
-        sheetName = 'Duplicates Removed';
-      } else if (type === 'invalidPattern') {
-        data = [[this.toExportHeader('Row'), this.toExportHeader('Column'), this.toExportHeader('Invalid_Value')]];
-        data.push(...rows.map((r: any) => [r.row, r.column, r.value]));
-        sheetName = 'Invalid Patterns';
-      } else {
-        data = [[this.toExportHeader('Row'), this.toExportHeader('Column'), this.toExportHeader('Invalid_Value')]];
-        data.push(...rows.map((r: any) => [r.row, r.column, r.value]));
-        sheetName = 'Invalid Length Format';
-      }
-
-      const ws = XLSX.utils.aoa_to_sheet(data);
-      XLSX.utils.book_append_sheet(wb, ws, sheetName);
-      const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-      const fileName = `${this.toExportHeader(type)}_${this.fileName}.xlsx`;
+      const blob = await buildStatReport(type, rows);
+      const fileName = `${type}_${this.fileName}.xlsx`;
       this.downloadBlob(blob, fileName);
       this.showSuccess(`Downloaded ${rows.length} row(s) for ${type}.`);
     } catch (error) {
@@ -1320,101 +1700,294 @@ export class AppComponent implements OnInit, OnDestroy {
     }
   }
 
-  /* ================= UTILITY METHODS ================= */
+  downloadAudit() {
+    if (!this.auditBlob) return;
+    this.downloadBlob(this.auditBlob, `audit_${this.fileName}.xlsx`);
+  }
 
-  private assessSheetSize(sheet: WorkSheet, xlsx: typeof import('xlsx')): { error?: string; warning?: string } {
-    const ref = sheet['!ref'];
-    if (!ref) {
-      return { error: 'Selected sheet is empty' };
-    }
+  downloadLastExport() {
+    if (!this.lastExport) return;
+    this.downloadBlob(this.lastExport.blob, this.lastExport.fileName);
+  }
+
+  /* ================= SESSION RECOVERY ================= */
+
+  /** Reloads the saved files and restores their mapping, the export settings and the last results. */
+  async resumeSession() {
+    if (this.isResuming) return;
+    this.clearMessages();
+    this.isResuming = true;
+
+    try {
+      const saved = await this.sessionStore.load();
+      if (!saved) {
+        this.savedSession = null;
+        this.showError('The saved session is no longer available.');
+        return;
+      }
+
+      this.resetState();
+      const missing: string[] = [];
+      this.isUploading = true;
+      for (let i = 0; i < saved.state.sources.length; i++) {
+        const savedSource = saved.state.sources[i];
+        const savedFile = saved.files[i];
+        const file = savedFile ? await reopenFile(savedFile) : null;
+        if (!file) {
+          missing.push(savedFile?.name ?? savedSource.fileName);
+          continue;
+        }
+        if (savedFile.handle) this.fileHandles.set(file, savedFile.handle);
+        this.uploadLabel = file.name;
+        const error = await this.loadSource(file, savedSource.encoding ?? undefined);
+        if (error) {
+          missing.push(file.name);
+          continue;
+        }
+        await this.restoreMapping(savedSource);
+      }
+      this.isUploading = false;
 
-    const range = xlsx.utils.decode_range(ref);
-    const rowCount = range.e.r - range.s.r + 1;
-    const colCount = range.e.c - range.s.c + 1;
-    const estimatedCells = rowCount * colCount;
+      if (this.sources.length) {
+        this.syncActiveSource();
+        this.activateSource(Math.min(saved.state.activeSourceIndex, this.sources.length - 1));
+      }
+      this.restoreSettings(saved.state);
+      if (!this.suppressionLists.length) {
+        for (const savedFile of saved.suppressionFiles) {
+          const file = await reopenFile(savedFile);
+          if (!file || (await this.loadSuppressionList(file))) missing.push(savedFile.name);
+        }
+      }
+      if (saved.result) this.restoreResult(saved.result);
+      this.savedSession = null;
+      await this.saveSessionFiles(saved.result);
+
+      if (missing.length) {
+        this.showError(
+          `Could not reopen ${missing.join(', ')}. The browser kept no copy or no longer allows access; ` +
+          'please upload the file again to clean it.'
+        );
+      } else {
+        this.showSuccess(`Session from ${new Date(saved.state.savedAt).toLocaleString()} restored.`);
+      }
+    } catch (error) {
+      console.error('Session restore error:', error);
+      this.showError('Failed to restore the previous session.');
+    } finally {
+      this.isUploading = false;
+      this.isResuming = false;
+      this.cdr.detectChanges();
+    }
+  }
 
-    if (rowCount > this.MAX_SHEET_ROWS) {
-      return { error: `Sheet has ${rowCount} rows. Maximum supported rows are ${this.MAX_SHEET_ROWS}.` };
+  async discardSession() {
+    this.savedSession = null;
+    try {
+      await this.sessionStore.clear();
+    } catch (error) {
+      console.warn('Could not clear the saved session.', error);
     }
+    this.cdr.detectChanges();
+  }
 
-    if (colCount > this.MAX_SHEET_COLUMNS) {
-      return { error: `Sheet has ${colCount} columns. Maximum supported columns are ${this.MAX_SHEET_COLUMNS}.` };
+  private async checkSavedSession() {
+    try {
+      const saved = await this.sessionStore.load();
+      if (!saved || this.sources.length) return;
+      this.savedSession = {
+        savedAt: saved.state.savedAt,
+        fileNames: saved.state.sources.map((source, i) => saved.files[i]?.name ?? source.fileName),
+        hasResult: !!saved.result
+      };
+      this.cdr.detectChanges();
+    } catch (error) {
+      console.warn('Could not read the saved session.', error);
     }
+  }
 
-    if (estimatedCells > this.MAX_SHEET_CELLS) {
-      return { error: `Sheet is too large (${estimatedCells} cells). Maximum supported cells are ${this.MAX_SHEET_CELLS}.` };
+  /** Puts the saved sheet, header row and columns back on the source just loaded. */
+  private async restoreMapping(saved: SavedSource) {
+    if (saved.allSheets) {
+      this.allSheets = true;
+      await this.onAllSheetsChange();
+      for (const mapping of this.sheetMappings) {
+        const savedMapping = saved.sheetMappings.find(m => m.sheetName === mapping.sheetName);
+        if (savedMapping) Object.assign(mapping, restoredMapping(savedMapping, mapping.rows) ?? {});
+      }
+      if (this.sheetNames.includes(saved.sheetName)) this.selectedSheet = saved.sheetName;
+      this.showSheetMapping(this.selectedSheet);
+      return;
     }
 
-    if (rowCount >= this.LARGE_SHEET_WARNING_ROWS) {
-      return { warning: 'Large sheet detected. Processing may take longer.' };
+    if (saved.sheetName !== this.selectedSheet && this.sheetNames.includes(saved.sheetName)) {
+      this.selectedSheet = saved.sheetName;
+      await this.previewSheet();
     }
+    const mapping = restoredMapping(saved, this.rawData);
+    if (!mapping) return;
+    this.headerRowIndex = mapping.headerRowIndex;
+    this.headers = mapping.headers;
+    this.selectedColumns = mapping.selectedColumns;
+    this.selectedNameColumn = mapping.selectedNameColumn;
+  }
 
-    return {};
+  private restoreSettings(state: SessionState) {
+    this.exportMode = state.exportMode;
+    if (state.template) this.exportTemplate = cloneTemplate(state.template);
+    this.outputFormat = state.outputFormat;
+    this.sheetOutput = state.sheetOutput;
+    this.duplicateStrategy = state.duplicateStrategy;
+    this.countryProfile = state.countryProfile;
+    this.multiCountryFallback = state.multiCountryFallback;
+    this.updateRules(state.validationRules);
+    this.splitIntoParts = state.splitIntoParts;
+    this.partsBy = state.partsBy;
+    this.partsSize = state.partsSize;
+    this.exportVCard = state.exportVCard;
+    this.vcardVersion = state.vcardVersion;
+    this.vcardNamePrefix = state.vcardNamePrefix;
+    this.vcardNameSuffix = state.vcardNameSuffix;
+    this.addSeriesColumns = state.addSeriesColumns;
+    this.keepCircles = [...state.keepCircles];
+    this.distributeLeads = state.distributeLeads;
+    this.distributionAgents = state.distributionAgents.map(agent => ({ ...agent }));
+    this.distributionMethod = state.distributionMethod;
+    this.distributionColumn = state.distributionColumn;
+    this.distributionOutput = state.distributionOutput;
+    this.recordHistory = state.recordHistory;
+    this.skipRecentContacts = state.skipRecentContacts;
+    this.recentContactDays = state.recentContactDays;
+    this.buildAudit = state.buildAudit;
   }
 
-  private async loadXlsx(): Promise<typeof import('xlsx')> {
-    if (!this.xlsxModule) {
-      this.xlsxModule = await import('xlsx');
-    }
-    return this.xlsxModule;
+  private restoreResult(result: SessionResult) {
+    this.stats = result.stats;
+    this.statDownloads = result.statDownloads;
+    this.sourceStats = result.sourceStats;
+    this.circleCounts = result.circleCounts;
+    this.assignmentCounts = result.assignmentCounts;
+    this.auditBlob = result.audit;
+    this.lastExport = result.blob ? { blob: result.blob, fileName: result.fileName } : null;
+    this.showStats = true;
   }
 
-  private async loadJsZip(): Promise<typeof JSZip> {
-    if (!this.jsZipModule) {
-      const module = await import('jszip');
-      this.jsZipModule = module.default;
+  private sessionState(): SessionState {
+    this.syncActiveSource();
+    return {
+      savedAt: Date.now(),
+      sources: this.sources.map(source => ({
+        ...savedMapping(source.selectedSheet, source),
+        fileName: source.fileName,
+        encoding: source.encoding,
+        allSheets: source.allSheets,
+        sheetMappings: source.sheetMappings.map(mapping => savedMapping(mapping.sheetName, mapping))
+      })),
+      activeSourceIndex: this.activeSourceIndex,
+      exportMode: this.exportMode,
+      ...(this.exportMode === 'template' ? { template: cloneTemplate(this.exportTemplate) } : {}),
+      outputFormat: this.outputFormat,
+      sheetOutput: this.sheetOutput,
+      duplicateStrategy: this.duplicateStrategy,
+      countryProfile: this.countryProfile,
+      multiCountryFallback: this.multiCountryFallback,
+      validationRules: { ...this.validationRules },
+      splitIntoParts: this.splitIntoParts,
+      partsBy: this.partsBy,
+      partsSize: this.partsSize,
+      exportVCard: this.exportVCard,
+      vcardVersion: this.vcardVersion,
+      vcardNamePrefix: this.vcardNamePrefix,
+      vcardNameSuffix: this.vcardNameSuffix,
+      addSeriesColumns: this.addSeriesColumns,
+      keepCircles: [...this.keepCircles],
+      distributeLeads: this.distributeLeads,
+      distributionAgents: this.distributionAgents.map(agent => ({ ...agent })),
+      distributionMethod: this.distributionMethod,
+      distributionColumn: this.distributionColumn,
+      distributionOutput: this.distributionOutput,
+      recordHistory: this.recordHistory,
+      skipRecentContacts: this.skipRecentContacts,
+      recentContactDays: this.recentContactDays,
+      buildAudit: this.buildAudit
+    };
+  }
+
+  private sessionResult(message: string): SessionResult | null {
+    if (!this.lastExport) return null;
+    const { blob, fileName } = this.lastExport;
+    return {
+      fileName,
+      blob: blob.size <= MAX_STORED_FILE_BYTES ? blob : null,
+      audit: this.auditBlob,
+      message,
+      stats: this.stats,
+      statDownloads: this.statDownloads,
+      sourceStats: this.sourceStats,
+      circleCounts: this.circleCounts,
+      assignmentCounts: this.assignmentCounts
+    };
+  }
+
+  /** Saves the uploads (which drops any older saved session) and the current state. */
+  private async saveSessionFiles(result: SessionResult | null = null) {
+    const uploads = this.sources
+      .map(source => this.sourceFiles.get(source.id))
+      .filter((file): file is File => !!file)
+      .map(file => ({ file, handle: this.fileHandles.get(file) }));
+    try {
+      await this.sessionStore.saveFiles(storableFiles(uploads), this.storableSuppressionFiles());
+      await this.sessionStore.saveState(this.sessionState());
+      if (result) await this.sessionStore.saveResult(result);
+    } catch (error) {
+      console.warn('Could not save the session.', error);
     }
-    return this.jsZipModule;
   }
 
-  private async preflightXlsxComplexity(data: Uint8Array): Promise<{ error?: string; warning?: string }> {
+  private async saveSuppressionFiles() {
+    if (!this.sources.length || this.isResuming) return;
     try {
-      const JSZipLib = await this.loadJsZip();
-      const zip = await JSZipLib.loadAsync(data);
-      const worksheetEntries = Object.values((zip as any).files || {}).filter((entry: any) => {
-        const name = String(entry?.name || '');
-        return /^xl\/worksheets\/sheet\d+\.xml$/i.test(name);
-      }) as any[];
-      if (!worksheetEntries.length) return {};
-
-      let maxSheetXmlSize = 0;
-      for (const entry of worksheetEntries) {
-        const size = Number(entry?._data?.uncompressedSize || 0);
-        if (Number.isFinite(size) && size > maxSheetXmlSize) {
-          maxSheetXmlSize = size;
-        }
-      }
-      if (maxSheetXmlSize <= 0) return {};
+      await this.sessionStore.saveSuppressionFiles(this.storableSuppressionFiles());
+    } catch (error) {
+      console.warn('Could not save the suppression lists.', error);
+    }
+  }
 
-      const TOO_LARGE_XML = 250 * 1024 * 1024; // 250MB uncompressed worksheet XML
-      const LARGE_XML_WARNING = 120 * 1024 * 1024; // 120MB warning
+  private storableSuppressionFiles(): SavedFile[] {
+    return storableFiles(this.suppressionLists.map(list => ({ file: this.suppressionFiles.get(list.id)! })));
+  }
 
-      if (maxSheetXmlSize > TOO_LARGE_XML) {
-        return {
-          error: 'This XLSX is too complex for browser memory. Please save/export it as CSV and upload CSV, or split the workbook into smaller files.'
-        };
-      }
-      if (maxSheetXmlSize > LARGE_XML_WARNING) {
-        return {
-          warning: 'Large XLSX detected. Processing may be slow; CSV format is recommended for best performance.'
-        };
-      }
-      return {};
-    } catch {
-      // If preflight fails, continue with normal parse path.
-      return {};
+  /** Saves the current state, and the last results when `result` is given (null removes them). */
+  private async saveSession(result?: SessionResult | null) {
+    if (this.sessionTimer) clearTimeout(this.sessionTimer);
+    this.sessionTimer = null;
+    if (!this.sources.length || this.isResuming) return;
+    try {
+      await this.sessionStore.saveState(this.sessionState());
+      if (result !== undefined) await this.sessionStore.saveResult(result);
+    } catch (error) {
+      console.warn('Could not save the session.', error);
     }
   }
 
-  private async repairZipContainer(data: Uint8Array): Promise<Uint8Array> {
-    const JSZipLib = await this.loadJsZip();
-    const zip = await JSZipLib.loadAsync(data);
-    const repaired = await zip.generateAsync({
-      type: 'uint8array',
-      compression: 'DEFLATE',
-      compressionOptions: { level: 6 }
-    });
-    return repaired;
+  /** Mapping edits come in bursts (a header row, then columns), so they are saved once they settle. */
+  private scheduleSessionSave() {
+    if (this.sessionTimer) clearTimeout(this.sessionTimer);
+    this.sessionTimer = setTimeout(() => void this.saveSession(), 500);
+  }
+
+  /** Export settings are not saved as they change; a tab being hidden may be the last chance. */
+  private saveOnHide() {
+    if (document.visibilityState === 'hidden') void this.saveSession();
+  }
+
+  /* ================= UTILITY METHODS ================= */
+
+  private getCleaner(): CleanerClient {
+    if (!this.cleaner) {
+      this.cleaner = createCleanerClient();
+    }
+    return this.cleaner;
   }
 
   private downloadBlob(blob: Blob, fileName: string) {
@@ -1430,7 +2003,17 @@ export class AppComponent implements OnInit, OnDestroy {
   }
 
   private resetState() {
-    this.workbook = null;
+    for (const source of this.sources) void this.getCleaner().removeSource(source.id);
+    this.sources = [];
+    this.sourceFiles.clear();
+    this.activeSourceIndex = 0;
+    this.fileName = '';
+    this.encoding = null;
+    this.allSheets = false;
+    this.sheetMappings = [];
+    this.previewedSheet = '';
+    this.sheetNames = [];
+    this.selectedSheet = '';
     this.showPreview = false;
     this.isProcessing = false;
     this.progress = 0;
@@ -1438,10 +2021,11 @@ export class AppComponent implements OnInit, OnDestroy {
     this.headers = [];
     this.selectedColumns = [];
     this.selectedNameColumn = null;
-    this.csvStreamingFile = null;
-    this.csvDelimiter = ',';
     this.rawData = [];
     this.previewData = [];
+    this.matchedRecipe = null;
+    this.recipeApplied = false;
+    this.closeReview();
     this.resetStats();
   }
 
@@ -1470,5 +2054,36 @@ export class AppComponent implements OnInit, OnDestroy {
   }
 }
 
+/** Identifies the rows and checks of a review, whatever its filter and page. */
+function reviewKey(request: GridRequest): string {
+  const { sourceId, sheetName, headerRowIndex, selectedColumns, mobile } = request;
+  return JSON.stringify({ sourceId, sheetName, headerRowIndex, selectedColumns, mobile });
+}
 
+function cloneTemplate(template: ExportTemplate): ExportTemplate {
+  return { ...template, columns: template.columns.map(column => ({ ...column })) };
+}
 
+function savedMapping(sheetName: string, mapping: ColumnMapping): SavedMapping {
+  return {
+    sheetName,
+    headerRowIndex: mapping.headerRowIndex,
+    headers: mapping.headers,
+    selectedColumns: [...mapping.selectedColumns],
+    selectedNameColumn: mapping.selectedNameColumn
+  };
+}
+
+/** A saved mapping checked against the reloaded rows; null when its header row is gone or empty. */
+function restoredMapping(saved: SavedMapping, rows: any[][]): ColumnMapping | null {
+  const headerRow = saved.headerRowIndex === null ? undefined : rows[saved.headerRowIndex];
+  if (!headerRow?.some(cell => cell)) return null;
+  const headers = headerRow.map(h => String(h || '').trim());
+  const fits = (col: number | null) => col !== null && col >= 0 && col < headers.length;
+  return {
+    headerRowIndex: saved.headerRowIndex,
+    headers,
+    selectedColumns: saved.selectedColumns.filter(fits),
+    selectedNameColumn: fits(saved.selectedNameColumn) ? saved.selectedNameColumn : null
+  };
+}
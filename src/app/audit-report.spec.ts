@@ -0,0 +1,104 @@
+import { FAST_MODE_ROWS, MAX_STAT_DOWNLOAD_ROWS, cleanSources } from './cleaning-pipeline';
+import * as XLSX from 'xlsx';
+import { readBlobBuffer } from '../testing/blobs';
+
+describe('Audit report', () => {
+  it('should build an audit workbook with a summary and every statistics row', async () => {
+    const invalid = Array.from({ length: MAX_STAT_DOWNLOAD_ROWS + 5 }, (_, idx) => [`Lead ${idx}`, '12345']);
+    const rows = [['Name', 'Mobile'], ['A', '9818202888'], ['B', '98182 02888'], ...invalid];
+    const result = await cleanSources(
+      [{ rows }],
+      {
+        fileName: 'leads',
+        exportMode: 'unique',
+        mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+        sources: [
+          {
+            sourceId: 'leads',
+            fileName: 'leads.xlsx',
+            sheetName: 'Sheet1',
+            headerRowIndex: 0,
+            headers: ['Name', 'Mobile'],
+            selectedColumns: [1],
+            selectedNameColumn: 0
+          }
+        ],
+        audit: true
+      },
+      { yieldControl: () => Promise.resolve() }
+    );
+
+    expect(result.statDownloads.invalidLength.length).toBe(MAX_STAT_DOWNLOAD_ROWS);
+    const workbook = XLSX.read(await readBlobBuffer(result.audit!), { type: 'array' });
+    expect(workbook.SheetNames).toEqual([
+      'Summary',
+      'Valid Numbers',
+      'Duplicates Removed',
+      'Invalid Patterns',
+      'Invalid Length Format',
+      'Other Country Numbers',
+      'Suppressed Numbers',
+      'Recently Contacted',
+      'Other Circles'
+    ]);
+    const sheet = (name: string) => XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1, defval: '' });
+    expect(sheet('Invalid Length Format').length).toBe(MAX_STAT_DOWNLOAD_ROWS + 6);
+    expect(sheet('Duplicates Removed')).toEqual([['Row', 'Duplicate_Mobile'], [3, '+919818202888']]);
+    const summary = sheet('Summary');
+    const settings = summary.map(row => row.slice(0, 2));
+    expect(settings).toContainEqual(['Export_Mode', 'unique']);
+    expect(settings).toContainEqual(['Invalid_Length', MAX_STAT_DOWNLOAD_ROWS + 5]);
+    expect(summary[summary.length - 1].slice(0, 8)).toEqual(['leads.xlsx', 'Sheet1', 1, 'Mobile', 'Name', 10007, 1, 1]);
+  });
+
+  it('should write every statistics row to the audit in fast mode', async () => {
+    const perCategory = MAX_STAT_DOWNLOAD_ROWS + 1;
+    const number = (idx: number) => `9${String(idx).padStart(9, '0')}`;
+    const rows: any[][] = [['Name', 'Mobile']];
+    for (let idx = 0; idx < perCategory; idx++) {
+      rows.push(['A', number(idx)], ['B', number(idx)], ['C', '12345'], ['D', '+971 50 123 4567']);
+    }
+    while (rows.length <= FAST_MODE_ROWS) rows.push(['E', '']);
+
+    const result = await cleanSources(
+      [{ rows }],
+      {
+        fileName: 'leads',
+        exportMode: 'unique',
+        outputFormat: 'csv',
+        mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+        sources: [
+          {
+            sourceId: 'leads',
+            fileName: 'leads.csv',
+            sheetName: 'CSV',
+            headerRowIndex: 0,
+            headers: ['Name', 'Mobile'],
+            selectedColumns: [1],
+            selectedNameColumn: 0
+          }
+        ],
+        audit: true
+      },
+      { yieldControl: () => Promise.resolve() }
+    );
+
+    // Fast mode keeps no statistics rows for the category reports; the audit still gets them all.
+    expect(result.statDownloads.valid.length).toBe(0);
+    const workbook = XLSX.read(await readBlobBuffer(result.audit!), { type: 'array' });
+    const sheet = (name: string) => XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1 });
+    const lastRow = 4 * perCategory + 1;
+    const valid = sheet('Valid Numbers');
+    expect(valid.length).toBe(2 * perCategory + 1);
+    expect(valid[valid.length - 1]).toEqual([lastRow - 2, 'Mobile', number(perCategory - 1), `+91${number(perCategory - 1)}`]);
+    const duplicates = sheet('Duplicates Removed');
+    expect(duplicates.length).toBe(perCategory + 1);
+    expect(duplicates[perCategory]).toEqual([lastRow - 2, `+91${number(perCategory - 1)}`]);
+    const invalid = sheet('Invalid Length Format');
+    expect(invalid.length).toBe(perCategory + 1);
+    expect(invalid[perCategory]).toEqual([lastRow - 1, 'Mobile', '12345']);
+    const foreign = sheet('Other Country Numbers');
+    expect(foreign.length).toBe(perCategory + 1);
+    expect(foreign[perCategory]).toEqual([lastRow, 'Mobile', '+971 50 123 4567', '+971501234567']);
+  });
+});
@@ -0,0 +1,144 @@
+import type {
+  CleanOptions,
+  CleaningStats,
+  SourceOptions,
+  SourceStats,
+  StatCategory,
+  StatDownloads
+} from './cleaning-pipeline';
+import { OUTSIDE_INDIA, classifyIndianNumber } from './in-number-series';
+import { XlsxSheetWriter, XlsxStreamWriter } from './xlsx-writer';
+
+export type StatRow = StatDownloads[StatCategory][number];
+
+interface StatSheet {
+  name: string;
+  header: string[];
+  cells: (row: any) => any[];
+}
+
+/** Sheet name and columns of each statistics category, shared by the category reports and the audit. */
+export const STAT_SHEETS: Record<StatCategory, StatSheet> = {
+  valid: {
+    name: 'Valid Numbers',
+    header: ['Row', 'Column', 'Original_Value', 'Cleaned_Number'],
+    cells: r => [r.row, r.column, r.original, r.cleaned]
+  },
+  duplicates: {
+    name: 'Duplicates Removed',
+    header: ['Row', 'Duplicate_Mobile'],
+    cells: r => [r.row, r.mobile]
+  },
+  invalidPattern: {
+    name: 'Invalid Patterns',
+    header: ['Row', 'Column', 'Invalid_Value', 'Rejected_By'],
+    cells: r => [r.row, r.column, r.value, r.rule]
+  },
+  invalidLength: {
+    name: 'Invalid Length Format',
+    header: ['Row', 'Column', 'Invalid_Value'],
+    cells: r => [r.row, r.column, r.value]
+  },
+  foreignCountry: {
+    name: 'Other Country Numbers',
+    header: ['Row', 'Column', 'Original_Value', 'Detected_Number'],
+    cells: r => [r.row, r.column, r.value, r.detected]
+  },
+  suppressed: {
+    name: 'Suppressed Numbers',
+    header: ['Row', 'Column', 'Original_Value', 'Suppressed_Number'],
+    cells: r => [r.row, r.column, r.value, r.cleaned]
+  },
+  recentlyContacted: {
+    name: 'Recently Contacted',
+    header: ['Row', 'Column', 'Original_Value', 'Recently_Contacted'],
+    cells: r => [r.row, r.column, r.value, r.cleaned]
+  },
+  outsideCircles: {
+    name: 'Other Circles',
+    header: ['Row', 'Column', 'Original_Value', 'Cleaned_Number', 'Circle'],
+    cells: r => [r.row, r.column, r.value, r.cleaned, classifyIndianNumber(r.cleaned)?.circle ?? OUTSIDE_INDIA]
+  }
+};
+
+const COUNT_COLUMNS: Array<[keyof CleaningStats, string]> = [
+  ['total', 'Total_Rows'],
+  ['valid', 'Valid'],
+  ['duplicates', 'Duplicates'],
+  ['invalidPattern', 'Invalid_Pattern'],
+  ['invalidLength', 'Invalid_Length'],
+  ['foreignCountry', 'Other_Country'],
+  ['suppressed', 'Suppressed'],
+  ['recentlyContacted', 'Recently_Contacted'],
+  ['outsideCircles', 'Other_Circles']
+];
+
+export interface AuditSummary {
+  stats: CleaningStats;
+  sourceStats: SourceStats[];
+  exportRowCount: number;
+  generatedAt: Date;
+}
+
+/**
+ * Every statistics row of a run, with no row cap and also in fast mode, written straight into a
+ * streamed workbook: a Summary sheet followed by one sheet per category. Long category sheets are
+ * spilled to temporary OPFS files when cleaning runs in the worker.
+ */
+export class AuditLog {
+  private readonly workbook = new XlsxStreamWriter(true, true);
+  private readonly summary: XlsxSheetWriter;
+  private readonly sheets = {} as Record<StatCategory, XlsxSheetWriter>;
+  private readonly withSource: boolean;
+
+  constructor(private readonly options: CleanOptions) {
+    this.withSource = options.sources.length > 1;
+    this.summary = this.workbook.addSheet('Summary', ['Setting', 'Value']);
+    for (const type of Object.keys(STAT_SHEETS) as StatCategory[]) {
+      const { name, header } = STAT_SHEETS[type];
+      this.sheets[type] = this.workbook.addSheet(name, this.withSource ? ['Source', ...header] : header);
+    }
+  }
+
+  add(type: StatCategory, row: StatRow) {
+    const cells = STAT_SHEETS[type].cells(row);
+    this.sheets[type].write(this.withSource ? [row.source ?? '', ...cells] : cells);
+  }
+
+  async toBlob(summary: AuditSummary): Promise<Blob> {
+    const { options } = this;
+    const settings: any[][] = [
+      ['Generated_At', summary.generatedAt.toISOString()],
+      ['Export_Mode', options.exportMode],
+      ['Country_Profile', options.mobile.countryProfile],
+      ['Exported_Rows', summary.exportRowCount],
+      ...COUNT_COLUMNS.map(([key, label]) => [label, summary.stats[key]])
+    ];
+    settings.forEach(row => this.summary.write(row));
+    this.summary.write([]);
+    this.summary.write([
+      'File',
+      'Sheet',
+      'Header_Row',
+      'Mobile_Columns',
+      'Name_Column',
+      ...COUNT_COLUMNS.map(([, label]) => label)
+    ]);
+    summary.sourceStats.forEach((sourceStats, idx) => {
+      const source = options.sources[idx];
+      this.summary.write([
+        sourceStats.fileName,
+        sourceStats.sheetName,
+        source.headerRowIndex + 1,
+        source.selectedColumns.map(col => columnLabel(source, col)).join(', '),
+        source.selectedNameColumn === null ? '' : columnLabel(source, source.selectedNameColumn),
+        ...COUNT_COLUMNS.map(([key]) => sourceStats.stats[key])
+      ]);
+    });
+    return this.workbook.toBlob();
+  }
+}
+
+function columnLabel(source: SourceOptions, col: number): string {
+  return source.headers[col] || `Column_${col + 1}`;
+}
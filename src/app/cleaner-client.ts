@@ -0,0 +1,235 @@
+import { CleanerSession, FileLoadResult, SheetLoadResult } from './cleaner-session';
+import type { CleanOptions, CleanProgress, CleanResult } from './cleaning-pipeline';
+import type { SuppressionLoadResult } from './suppression-list';
+import type { HistorySummary } from './contact-history';
+import type { TextEncodingId } from './text-encoding';
+import type { GridPage, GridRequest } from './review-grid';
+
+export type CleanerRequest =
+  | { id: number; type: 'loadFile'; sourceId: string; file: File; encoding?: TextEncodingId; password?: string }
+  | { id: number; type: 'loadSheet'; sourceId: string; sheetName: string }
+  | { id: number; type: 'loadAllSheets'; sourceId: string }
+  | { id: number; type: 'removeSource'; sourceId: string }
+  | { id: number; type: 'gridPage'; request: GridRequest }
+  | { id: number; type: 'loadSuppressionFile'; listId: string; file: File }
+  | { id: number; type: 'removeSuppressionList'; listId: string }
+  | { id: number; type: 'historySummary' }
+  | { id: number; type: 'clearHistory' }
+  | { id: number; type: 'exportHistory' }
+  | { id: number; type: 'importHistory'; file: File }
+  | { id: number; type: 'clean'; options: CleanOptions };
+
+export type CleanerResponse =
+  | { id: number; type: 'progress'; progress: number; stats?: CleanProgress['stats'] }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+/** Parsing, cleaning and export building, wherever they run. */
+export interface CleanerClient {
+  loadFile(
+    sourceId: string,
+    file: File,
+    onProgress?: (progress: number) => void,
+    encoding?: TextEncodingId,
+    password?: string
+  ): Promise<FileLoadResult>;
+  loadSheet(sourceId: string, sheetName: string): Promise<SheetLoadResult>;
+  loadAllSheets(sourceId: string): Promise<Array<SheetLoadResult & { sheetName: string }>>;
+  removeSource(sourceId: string): Promise<void>;
+  gridPage(request: GridRequest): Promise<GridPage>;
+  loadSuppressionFile(listId: string, file: File): Promise<SuppressionLoadResult>;
+  removeSuppressionList(listId: string): Promise<void>;
+  historySummary(): Promise<HistorySummary>;
+  clearHistory(): Promise<{ error?: string }>;
+  exportHistory(): Promise<{ error?: string; blob?: Blob }>;
+  importHistory(file: File): Promise<{ error?: string; imported: number; skipped: number }>;
+  clean(options: CleanOptions, onProgress?: (event: CleanProgress) => void): Promise<CleanResult>;
+  dispose(): void;
+}
+
+/** Runs the session on the main thread. Used when Web Workers are not available (e.g. unit tests). */
+export class LocalCleanerClient implements CleanerClient {
+  readonly session = new CleanerSession();
+
+  loadFile(
+    sourceId: string,
+    file: File,
+    onProgress?: (progress: number) => void,
+    encoding?: TextEncodingId,
+    password?: string
+  ): Promise<FileLoadResult> {
+    return this.session.loadFile(sourceId, file, onProgress, encoding, password);
+  }
+
+  loadSheet(sourceId: string, sheetName: string): Promise<SheetLoadResult> {
+    return this.session.loadSheet(sourceId, sheetName);
+  }
+
+  loadAllSheets(sourceId: string): Promise<Array<SheetLoadResult & { sheetName: string }>> {
+    return this.session.loadAllSheets(sourceId);
+  }
+
+  async removeSource(sourceId: string): Promise<void> {
+    this.session.removeSource(sourceId);
+  }
+
+  gridPage(request: GridRequest): Promise<GridPage> {
+    return this.session.gridPage(request);
+  }
+
+  loadSuppressionFile(listId: string, file: File): Promise<SuppressionLoadResult> {
+    return this.session.loadSuppressionFile(listId, file);
+  }
+
+  async removeSuppressionList(listId: string): Promise<void> {
+    this.session.removeSuppressionList(listId);
+  }
+
+  historySummary(): Promise<HistorySummary> {
+    return this.session.historySummary();
+  }
+
+  clearHistory(): Promise<{ error?: string }> {
+    return this.session.clearHistory();
+  }
+
+  exportHistory(): Promise<{ error?: string; blob?: Blob }> {
+    return this.session.exportHistory();
+  }
+
+  importHistory(file: File): Promise<{ error?: string; imported: number; skipped: number }> {
+    return this.session.importHistory(file);
+  }
+
+  clean(options: CleanOptions, onProgress?: (event: CleanProgress) => void): Promise<CleanResult> {
+    return this.session.clean(options, onProgress);
+  }
+
+  dispose() {}
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (response: Extract<CleanerResponse, { type: 'progress' }>) => void;
+}
+
+/** Forwards every call to the dedicated cleaner worker and relays its progress messages. */
+export class WorkerCleanerClient implements CleanerClient {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  constructor(private readonly worker: Worker) {
+    worker.onmessage = ({ data }: MessageEvent<CleanerResponse>) => this.handleMessage(data);
+    worker.onerror = (event) => {
+      console.error('Cleaner worker error:', event);
+      this.rejectAll(new Error(event.message || 'Cleaner worker failed'));
+    };
+  }
+
+  loadFile(
+    sourceId: string,
+    file: File,
+    onProgress?: (progress: number) => void,
+    encoding?: TextEncodingId,
+    password?: string
+  ): Promise<FileLoadResult> {
+    return this.request(
+      { type: 'loadFile', sourceId, file, encoding, password },
+      onProgress && (response => onProgress(response.progress))
+    );
+  }
+
+  loadSheet(sourceId: string, sheetName: string): Promise<SheetLoadResult> {
+    return this.request({ type: 'loadSheet', sourceId, sheetName });
+  }
+
+  loadAllSheets(sourceId: string): Promise<Array<SheetLoadResult & { sheetName: string }>> {
+    return this.request({ type: 'loadAllSheets', sourceId });
+  }
+
+  removeSource(sourceId: string): Promise<void> {
+    return this.request({ type: 'removeSource', sourceId });
+  }
+
+  gridPage(request: GridRequest): Promise<GridPage> {
+    return this.request({ type: 'gridPage', request });
+  }
+
+  loadSuppressionFile(listId: string, file: File): Promise<SuppressionLoadResult> {
+    return this.request({ type: 'loadSuppressionFile', listId, file });
+  }
+
+  removeSuppressionList(listId: string): Promise<void> {
+    return this.request({ type: 'removeSuppressionList', listId });
+  }
+
+  historySummary(): Promise<HistorySummary> {
+    return this.request({ type: 'historySummary' });
+  }
+
+  clearHistory(): Promise<{ error?: string }> {
+    return this.request({ type: 'clearHistory' });
+  }
+
+  exportHistory(): Promise<{ error?: string; blob?: Blob }> {
+    return this.request({ type: 'exportHistory' });
+  }
+
+  importHistory(file: File): Promise<{ error?: string; imported: number; skipped: number }> {
+    return this.request({ type: 'importHistory', file });
+  }
+
+  clean(options: CleanOptions, onProgress?: (event: CleanProgress) => void): Promise<CleanResult> {
+    return this.request(
+      { type: 'clean', options },
+      onProgress && (response => response.stats && onProgress({ progress: response.progress, stats: response.stats }))
+    );
+  }
+
+  dispose() {
+    this.rejectAll(new Error('Cleaner worker terminated'));
+    this.worker.terminate();
+  }
+
+  private request<T>(message: DistributiveOmit<CleanerRequest, 'id'>, onProgress?: PendingRequest['onProgress']): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      this.worker.postMessage({ ...message, id } as CleanerRequest);
+    });
+  }
+
+  private handleMessage(response: CleanerResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.type === 'result') pending.resolve(response.result);
+    else pending.reject(new Error(response.message));
+  }
+
+  private rejectAll(error: Error) {
+    for (const pending of this.pending.values()) pending.reject(error);
+    this.pending.clear();
+  }
+}
+
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+
+export function createCleanerClient(): CleanerClient {
+  if (typeof Worker !== 'undefined') {
+    try {
+      const worker = new Worker(new URL('./cleaner.worker', import.meta.url), { type: 'module' });
+      return new WorkerCleanerClient(worker);
+    } catch (error) {
+      console.warn('Cleaner worker unavailable, processing on the main thread.', error);
+    }
+  }
+  return new LocalCleanerClient();
+}
@@ -0,0 +1,556 @@
+import type { WorkBook } from 'xlsx';
+import { CsvCheckpoint, CsvStreamOptions, loadCsvPreview, streamCsvRecords, yieldToBrowser } from './csv-utils';
+import type { TextEncodingId } from './text-encoding';
+import { assessSheetSize, fileExtension, loadXlsx, readWorkbookFile } from './workbook-utils';
+import { XlsxStreamReader, openLargeXlsx } from './xlsx-stream-reader';
+import { unlockWorkbook } from './office-crypto';
+import { SuppressionLoadResult, readSuppressionValues } from './suppression-list';
+import { ContactHistoryStore, ContactRecord, DAY_MS, HistorySummary } from './contact-history';
+import { MobileCleaner } from './mobile-cleaner';
+import { GridIndex, GridPage, GridRequest, emptyGridPage } from './review-grid';
+import {
+  CleanExclusions,
+  CleanHooks,
+  CleanOptions,
+  CleanResult,
+  SourceInput,
+  cleanSources,
+  createEmptyStatDownloads,
+  createEmptyStats
+} from './cleaning-pipeline';
+
+export const MAX_PREVIEW_ROWS = 50;
+/** Rows after the last previewable header row that mobile-column detection looks at. */
+export const HEADER_DETECTION_ROWS = 10;
+/** Listed rows per cached window of a streamed XLSX sheet in the review grid. */
+const GRID_WINDOW_ROWS = 2000;
+const GRID_CACHED_WINDOWS = 5;
+
+export interface FileLoadResult {
+  error?: string;
+  warning?: string;
+  repaired?: boolean;
+  sheetNames: string[];
+  /** Present for CSV uploads, which are previewed and cleaned by streaming instead of as a workbook. */
+  csv?: { rows: string[][]; delimiter: string };
+  /** Encoding a CSV, TSV or TXT upload was read in. */
+  encoding?: TextEncodingId;
+  /** The workbook is password-protected and the password was missing or wrong; `error` says which. */
+  passwordRequired?: boolean;
+}
+
+export interface SheetLoadResult {
+  error?: string;
+  warning?: string;
+  /** Leading rows of the sheet, enough for the preview and header/column detection. */
+  rows: any[][];
+  rowCount: number;
+}
+
+interface LoadedSource {
+  workbook: WorkBook | null;
+  csvFile: Blob | null;
+  encoding?: TextEncodingId;
+  /** Set for XLSX uploads too large to parse whole, whose sheets are streamed instead. */
+  xlsx?: XlsxStreamReader;
+  /** Parsed rows of the sheets loaded for cleaning, by sheet name. */
+  sheets: Map<string, any[][]>;
+}
+
+/** Review grid state of the sheet last reviewed, until its mapping or number rules change. */
+interface ReviewedSheet {
+  key: string;
+  sourceId: string;
+  index: GridIndex;
+  /** Where a streamed CSV can be read again from, in file order. */
+  checkpoints: CsvCheckpoint[];
+  /** Windows of listed rows of a streamed XLSX sheet read lately, least recently used first. */
+  windows: Map<string, any[][]>;
+}
+
+/**
+ * Holds the uploaded files and parsed sheets for one cleaning session, keyed by source id.
+ * Runs inside the cleaner worker, or on the main thread when workers are unavailable.
+ */
+export class CleanerSession {
+  private readonly sources = new Map<string, LoadedSource>();
+  private readonly suppressionLists = new Map<string, any[]>();
+  private readonly history = new ContactHistoryStore();
+  private grid: ReviewedSheet | null = null;
+
+  constructor(private readonly yieldControl: () => Promise<void> = yieldToBrowser) {}
+
+  useWorkbook(sourceId: string, workbook: WorkBook | null) {
+    this.sources.set(sourceId, { workbook, csvFile: null, sheets: new Map() });
+  }
+
+  removeSource(sourceId: string) {
+    this.sources.delete(sourceId);
+    if (this.grid?.sourceId === sourceId) this.grid = null;
+  }
+
+  /**
+   * Reads an upload; text formats are read in `encoding`, or the one detected when it is left out.
+   * Password-protected workbooks are decrypted with `password`, which is not kept.
+   */
+  async loadFile(
+    sourceId: string,
+    file: File,
+    onProgress?: (progress: number) => void,
+    encoding?: TextEncodingId,
+    password?: string
+  ): Promise<FileLoadResult> {
+    this.removeSource(sourceId);
+    const ext = fileExtension(file.name);
+
+    if (ext === '.csv') {
+      try {
+        const preview = await loadCsvPreview(file, MAX_PREVIEW_ROWS, onProgress, this.yieldControl, encoding);
+        this.sources.set(sourceId, { workbook: null, csvFile: file, encoding: preview.encoding, sheets: new Map() });
+        return { sheetNames: ['CSV'], csv: preview, warning: preview.warning, encoding: preview.encoding };
+      } catch (error) {
+        console.error('CSV parsing error:', error);
+        return { error: 'Failed to read CSV file. Please ensure it is valid.', sheetNames: [] };
+      }
+    }
+
+    try {
+      const unlocked = await unlockWorkbook(file, password);
+      if (!unlocked.file) {
+        return { error: unlocked.error, passwordRequired: unlocked.passwordRequired, sheetNames: [] };
+      }
+      const upload = unlocked.file;
+
+      const streamed = ext === '.xlsx' ? await openLargeXlsx(upload) : null;
+      if (streamed) {
+        this.sources.set(sourceId, { workbook: null, csvFile: null, xlsx: streamed, sheets: new Map() });
+        return {
+          sheetNames: streamed.sheetNames,
+          warning: 'Large XLSX detected. Its sheets are read row by row, so previews and cleaning take longer.'
+        };
+      }
+
+      const parsed = await readWorkbookFile(upload, ext, encoding);
+      if (parsed.error) return { error: parsed.error, sheetNames: [] };
+      const workbook = parsed.workbook ?? null;
+      if (!workbook?.SheetNames?.length) {
+        return { error: 'Excel file contains no sheets', sheetNames: [] };
+      }
+      this.useWorkbook(sourceId, workbook);
+      return {
+        sheetNames: workbook.SheetNames,
+        warning: parsed.warning,
+        repaired: parsed.repaired,
+        ...(parsed.encoding ? { encoding: parsed.encoding } : {})
+      };
+    } catch (error: any) {
+      console.error('Excel parsing error:', error);
+      const message = String(error?.message || '').toLowerCase();
+      if (message.includes('password') || message.includes('encrypted') || message.includes('decrypt')) {
+        return {
+          error: 'This file appears to be password-protected or encrypted. Please remove protection and try again.',
+          sheetNames: []
+        };
+      }
+      return { error: 'Failed to read Excel file. Please ensure it is valid.', sheetNames: [] };
+    }
+  }
+
+  async loadSheet(sourceId: string, sheetName: string): Promise<SheetLoadResult> {
+    const source = this.sources.get(sourceId);
+    if (source?.xlsx) return this.previewStreamedSheet(source.xlsx, sheetName);
+    if (!source?.workbook) {
+      return { error: 'File is still loading. Please wait and try again.', rows: [], rowCount: 0 };
+    }
+    source.sheets.clear();
+    return this.parseSheet(source, sheetName);
+  }
+
+  /** Parses every sheet of a workbook source and keeps them all for cleaning in one run. */
+  async loadAllSheets(sourceId: string): Promise<Array<SheetLoadResult & { sheetName: string }>> {
+    const source = this.sources.get(sourceId);
+    if (source?.xlsx) {
+      const results: Array<SheetLoadResult & { sheetName: string }> = [];
+      for (const sheetName of source.xlsx.sheetNames) {
+        results.push({ sheetName, ...(await this.previewStreamedSheet(source.xlsx, sheetName)) });
+      }
+      return results;
+    }
+    if (!source?.workbook) {
+      return [];
+    }
+    source.sheets.clear();
+
+    const results: Array<SheetLoadResult & { sheetName: string }> = [];
+    for (const sheetName of source.workbook.SheetNames) {
+      results.push({ sheetName, ...(await this.parseSheet(source, sheetName)) });
+      await this.yieldControl();
+    }
+    return results;
+  }
+
+  /**
+   * Leading rows of a streamed sheet. Only they are read when the sheet records its size;
+   * otherwise the rest is read through to count the rows. Cleaning streams the sheet again.
+   */
+  private async previewStreamedSheet(reader: XlsxStreamReader, sheetName: string): Promise<SheetLoadResult> {
+    if (!reader.sheetNames.includes(sheetName)) {
+      return { error: 'Selected sheet not found', rows: [], rowCount: 0 };
+    }
+    const limit = MAX_PREVIEW_ROWS + HEADER_DETECTION_ROWS;
+    const rows: any[][] = [];
+    let { rowCount } = await reader.streamRows(
+      sheetName,
+      row => rows.push(row) < limit,
+      { yieldControl: this.yieldControl }
+    );
+    if (rowCount === null) {
+      rowCount = (await reader.streamRows(sheetName, () => true, { yieldControl: this.yieldControl })).rowCount;
+    }
+    if (!rows.some(row => row.length)) {
+      return { error: 'Selected sheet is empty', rows: [], rowCount: 0 };
+    }
+    return { rows, rowCount: rowCount ?? rows.length };
+  }
+
+  private async parseSheet(source: LoadedSource, sheetName: string): Promise<SheetLoadResult> {
+    const sheet = source.workbook?.Sheets[sheetName];
+    if (!sheetName || !sheet) {
+      return { error: 'Selected sheet not found', rows: [], rowCount: 0 };
+    }
+
+    const XLSX = await loadXlsx();
+    const sheetAssessment = assessSheetSize(sheet, XLSX);
+    if (sheetAssessment.error) {
+      return { error: sheetAssessment.error, rows: [], rowCount: 0 };
+    }
+
+    // Use raw values so numeric mobile cells are not converted to scientific-notation strings.
+    const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: true });
+    if (rows.length === 0) {
+      return { error: 'Selected sheet is empty', rows: [], rowCount: 0 };
+    }
+    source.sheets.set(sheetName, rows);
+
+    return {
+      warning: sheetAssessment.warning,
+      rows: rows.slice(0, MAX_PREVIEW_ROWS + HEADER_DETECTION_ROWS),
+      rowCount: rows.length
+    };
+  }
+
+  /**
+   * One page of data rows for the review grid, with the status of each mobile cell. The first request
+   * for a sheet and mapping checks every row. Pages of streamed CSV files are then read from the
+   * checkpoint before them; streamed XLSX sheets, which can only be read from the start, are read a
+   * window of rows at a time and the last few windows are kept.
+   */
+  async gridPage(request: GridRequest): Promise<GridPage> {
+    const source = this.sources.get(request.sourceId);
+    const rows = source?.sheets.get(request.sheetName);
+    if (!source || (!source.csvFile && !source.xlsx && !rows)) {
+      return emptyGridPage('File is still loading. Please wait and try again.');
+    }
+
+    try {
+      const grid = await this.gridIndex(source, request);
+      const { index } = grid;
+      const { headerRowIndex, problemsOnly } = request;
+      const total = index.listedRows(problemsOnly);
+      const start =
+        request.fromRow !== undefined
+          ? index.positionOf(request.fromRow - (headerRowIndex + 2), problemsOnly)
+          : Math.max(0, Math.min(request.start, total));
+      const wanted: number[] = [];
+      for (let position = start; position < Math.min(start + request.count, total); position++) {
+        wanted.push(index.rowAt(position, problemsOnly));
+      }
+
+      let cells: any[][];
+      if (rows) {
+        cells = wanted.map(row => rows[headerRowIndex + 1 + row] || []);
+      } else if (source.csvFile) {
+        const firstRecord = headerRowIndex + 1 + (wanted[0] ?? 0);
+        const from = grid.checkpoints.filter(checkpoint => checkpoint.records <= firstRecord).pop();
+        cells = await this.readDataRows(source, request, wanted, from);
+      } else {
+        cells = await this.windowedDataRows(source, request, grid, start, wanted.length);
+      }
+
+      return {
+        total,
+        start,
+        rows: wanted.map((row, idx) => ({
+          rowNumber: headerRowIndex + 2 + row,
+          cells: cells[idx] ?? [],
+          statuses: index.statusesOf(row)
+        })),
+        dataRows: index.dataRows,
+        problemRows: index.problemRows,
+        counts: { ...index.counts }
+      };
+    } catch (error) {
+      console.error('Review grid error:', error);
+      return emptyGridPage('Failed to read the rows of this sheet. Please try again.');
+    }
+  }
+
+  private async gridIndex(source: LoadedSource, request: GridRequest): Promise<ReviewedSheet> {
+    const { sourceId, sheetName, headerRowIndex, selectedColumns, mobile } = request;
+    const key = JSON.stringify({ sourceId, sheetName, headerRowIndex, selectedColumns, mobile });
+    if (this.grid?.key === key) return this.grid;
+
+    this.grid = null;
+    const index = new GridIndex(new MobileCleaner(mobile), selectedColumns);
+    const checkpoints: CsvCheckpoint[] = [];
+    await this.eachDataRow(
+      source,
+      request,
+      row => {
+        index.add(row);
+        return true;
+      },
+      { onCheckpoint: checkpoint => checkpoints.push(checkpoint) }
+    );
+    this.grid = { key, sourceId, index, checkpoints, windows: new Map() };
+    return this.grid;
+  }
+
+  /** The given data rows (ascending) of a streamed file, reading a CSV from `from` when given. */
+  private async readDataRows(
+    source: LoadedSource,
+    request: GridRequest,
+    wanted: number[],
+    from?: CsvCheckpoint
+  ): Promise<any[][]> {
+    if (!wanted.length) return [];
+    const found = new Map<number, any[]>();
+    const last = wanted[wanted.length - 1];
+    const pending = new Set(wanted);
+    await this.eachDataRow(
+      source,
+      request,
+      (row, dataRow) => {
+        if (pending.has(dataRow)) found.set(dataRow, row);
+        return dataRow < last;
+      },
+      { from }
+    );
+    return wanted.map(row => found.get(row) ?? []);
+  }
+
+  /** Listed rows `start` to `start + count` of a streamed XLSX sheet, through the window cache. */
+  private async windowedDataRows(
+    source: LoadedSource,
+    request: GridRequest,
+    grid: ReviewedSheet,
+    start: number,
+    count: number
+  ): Promise<any[][]> {
+    if (!count) return [];
+    const { index, windows } = grid;
+    const { problemsOnly } = request;
+    const total = index.listedRows(problemsOnly);
+    const keyOf = (window: number) => `${problemsOnly}:${window}`;
+    const used: number[] = [];
+    for (let window = Math.floor(start / GRID_WINDOW_ROWS); window * GRID_WINDOW_ROWS < start + count; window++) {
+      used.push(window);
+    }
+
+    const missing = used.filter(window => !windows.has(keyOf(window)));
+    const wanted: number[] = [];
+    for (const window of missing) {
+      const end = Math.min((window + 1) * GRID_WINDOW_ROWS, total);
+      for (let position = window * GRID_WINDOW_ROWS; position < end; position++) {
+        wanted.push(index.rowAt(position, problemsOnly));
+      }
+    }
+    const read = await this.readDataRows(source, request, wanted);
+    for (const window of missing) {
+      windows.set(keyOf(window), read.splice(0, Math.min(GRID_WINDOW_ROWS, total - window * GRID_WINDOW_ROWS)));
+    }
+
+    const rows: any[][] = [];
+    for (const window of used) {
+      const cached = windows.get(keyOf(window))!;
+      // Re-inserted as the most recently used.
+      windows.delete(keyOf(window));
+      windows.set(keyOf(window), cached);
+      const from = Math.max(start, window * GRID_WINDOW_ROWS) - window * GRID_WINDOW_ROWS;
+      const to = Math.min(start + count, (window + 1) * GRID_WINDOW_ROWS) - window * GRID_WINDOW_ROWS;
+      rows.push(...cached.slice(from, to));
+    }
+    while (windows.size > GRID_CACHED_WINDOWS) windows.delete(windows.keys().next().value!);
+    return rows;
+  }
+
+  /**
+   * Calls `onRow` with every row below the header, in order, until it returns false. CSV files are
+   * read from `csv.from` when given, and report their checkpoints to `csv.onCheckpoint`.
+   */
+  private async eachDataRow(
+    source: LoadedSource,
+    request: GridRequest,
+    onRow: (row: any[], dataRow: number) => boolean,
+    csv: Pick<CsvStreamOptions, 'from' | 'onCheckpoint'> = {}
+  ): Promise<void> {
+    const { sheetName, headerRowIndex } = request;
+    const rows = source.sheets.get(sheetName);
+
+    if (rows) {
+      for (let i = headerRowIndex + 1; i < rows.length; i++) {
+        if (!onRow(rows[i] || [], i - (headerRowIndex + 1))) return;
+        if ((i - headerRowIndex) % 5000 === 0) await this.yieldControl();
+      }
+    } else if (source.csvFile) {
+      let rowIndex = (csv.from?.records ?? 0) - 1;
+      await streamCsvRecords(
+        source.csvFile,
+        ({ fields }) => {
+          rowIndex++;
+          return rowIndex <= headerRowIndex || onRow(fields, rowIndex - (headerRowIndex + 1));
+        },
+        undefined,
+        this.yieldControl,
+        { encoding: source.encoding, ...csv }
+      );
+    } else if (source.xlsx) {
+      await source.xlsx.streamRows(
+        sheetName,
+        (row, rowIndex) => rowIndex <= headerRowIndex || onRow(row, rowIndex - (headerRowIndex + 1)),
+        { yieldControl: this.yieldControl }
+      );
+    }
+  }
+
+  async loadSuppressionFile(listId: string, file: File): Promise<SuppressionLoadResult> {
+    this.suppressionLists.delete(listId);
+    try {
+      const { values, error } = await readSuppressionValues(file, this.yieldControl);
+      if (error) return { error, entryCount: 0 };
+      if (!values.length) return { error: 'No phone numbers found in this file.', entryCount: 0 };
+      this.suppressionLists.set(listId, values);
+      return { entryCount: values.length };
+    } catch (error) {
+      console.error('Suppression list error:', error);
+      return { error: 'Failed to read suppression file. Please ensure it is valid.', entryCount: 0 };
+    }
+  }
+
+  removeSuppressionList(listId: string) {
+    this.suppressionLists.delete(listId);
+  }
+
+  async historySummary(): Promise<HistorySummary> {
+    try {
+      return await this.history.summary();
+    } catch (error) {
+      console.error('Contact history error:', error);
+      return { supported: false, count: 0 };
+    }
+  }
+
+  async clearHistory(): Promise<{ error?: string }> {
+    try {
+      await this.history.clear();
+      return {};
+    } catch (error) {
+      console.error('Contact history error:', error);
+      return { error: 'Failed to clear the contact history.' };
+    }
+  }
+
+  async exportHistory(): Promise<{ error?: string; blob?: Blob }> {
+    try {
+      return { blob: await this.history.exportCsv() };
+    } catch (error) {
+      console.error('Contact history error:', error);
+      return { error: 'Failed to export the contact history.' };
+    }
+  }
+
+  async importHistory(file: File): Promise<{ error?: string; imported: number; skipped: number }> {
+    try {
+      return await this.history.importCsv(file);
+    } catch (error) {
+      console.error('Contact history error:', error);
+      return {
+        error: 'Failed to import the contact history. Please use a CSV exported by this app.',
+        imported: 0,
+        skipped: 0
+      };
+    }
+  }
+
+  async clean(options: CleanOptions, onProgress?: CleanHooks['onProgress']): Promise<CleanResult> {
+    const hooks: CleanHooks = { onProgress, yieldControl: this.yieldControl };
+    const exclusions: CleanExclusions = {
+      suppressionValues: Array.from(this.suppressionLists.values()).flat()
+    };
+    const { excludeDays = null, record = false } = options.history ?? {};
+    const historyAvailable = ContactHistoryStore.isSupported();
+    const exported: ContactRecord[] = [];
+    let warning: string | undefined;
+
+    if ((excludeDays || record) && !historyAvailable) {
+      warning = 'Contact history is not available in this browser.';
+    }
+    if (excludeDays && historyAvailable) {
+      try {
+        exclusions.recentlyContacted = await this.history.numbersSince(Date.now() - excludeDays * DAY_MS);
+      } catch (error) {
+        console.error('Contact history error:', error);
+        warning = 'Could not read the contact history, so recently contacted numbers were not skipped.';
+      }
+    }
+    if (record && historyAvailable) {
+      const exportedAt = Date.now();
+      hooks.onExported = (sourceIndex, numbers) => {
+        const fileName = options.sources[sourceIndex].fileName;
+        for (const number of numbers) exported.push({ number, exportedAt, fileName });
+      };
+    }
+
+    let streaming = false;
+    try {
+      const inputs: SourceInput[] = [];
+      for (const source of options.sources) {
+        const loaded = this.sources.get(source.sourceId);
+        const rows = loaded?.sheets.get(source.sheetName);
+        if (loaded?.csvFile) {
+          streaming = true;
+          inputs.push({ csv: loaded.csvFile, encoding: loaded.encoding });
+        } else if (loaded?.xlsx) {
+          streaming = true;
+          inputs.push({ xlsx: loaded.xlsx, sheetName: source.sheetName });
+        } else if (rows) {
+          inputs.push({ rows });
+        } else {
+          throw new Error(`Sheet "${source.sheetName}" of ${source.fileName} is not loaded`);
+        }
+      }
+      const result = await cleanSources(inputs, options, hooks, exclusions);
+      if (!result.error && exported.length) {
+        try {
+          await this.history.record(exported);
+        } catch (error) {
+          console.error('Contact history error:', error);
+          warning = 'The export finished but could not be saved to the contact history.';
+        }
+      }
+      return warning ? { ...result, warning: [result.warning, warning].filter(Boolean).join(' ') } : result;
+    } catch (error) {
+      console.error('Processing error:', error);
+      return {
+        error: streaming
+          ? 'Failed to process large file. Please try again with a split file.'
+          : 'Failed to process data. Please try again.',
+        exportRowCount: 0,
+        fastMode: false,
+        stats: createEmptyStats(),
+        sourceStats: [],
+        statDownloads: createEmptyStatDownloads()
+      };
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/// <reference lib="webworker" />
+
+import { CleanerSession } from './cleaner-session';
+import type { CleanerRequest, CleanerResponse } from './cleaner-client';
+
+// No UI to keep responsive in here, so the pipeline only needs to yield to the microtask queue.
+const session = new CleanerSession(() => Promise.resolve());
+
+function post(message: CleanerResponse) {
+  postMessage(message);
+}
+
+addEventListener('message', async ({ data }: MessageEvent<CleanerRequest>) => {
+  const { id } = data;
+  try {
+    let result: unknown;
+    if (data.type === 'loadFile') {
+      result = await session.loadFile(
+        data.sourceId,
+        data.file,
+        progress => post({ id, type: 'progress', progress }),
+        data.encoding,
+        data.password
+      );
+    } else if (data.type === 'loadSheet') {
+      result = await session.loadSheet(data.sourceId, data.sheetName);
+    } else if (data.type === 'loadAllSheets') {
+      result = await session.loadAllSheets(data.sourceId);
+    } else if (data.type === 'removeSource') {
+      session.removeSource(data.sourceId);
+    } else if (data.type === 'gridPage') {
+      result = await session.gridPage(data.request);
+    } else if (data.type === 'loadSuppressionFile') {
+      result = await session.loadSuppressionFile(data.listId, data.file);
+    } else if (data.type === 'removeSuppressionList') {
+      session.removeSuppressionList(data.listId);
+    } else if (data.type === 'historySummary') {
+      result = await session.historySummary();
+    } else if (data.type === 'clearHistory') {
+      result = await session.clearHistory();
+    } else if (data.type === 'exportHistory') {
+      result = await session.exportHistory();
+    } else if (data.type === 'importHistory') {
+      result = await session.importHistory(data.file);
+    } else {
+      result = await session.clean(data.options, ({ progress, stats }) =>
+        post({ id, type: 'progress', progress, stats: { ...stats } })
+      );
+    }
+    post({ id, type: 'result', result });
+  } catch (error: any) {
+    post({ id, type: 'error', message: String(error?.message || error) });
+  }
+});
@@ -0,0 +1,35 @@
+import { cleanRows } from './cleaning-engine';
+
+describe('cleanRows', () => {
+  it('should clean a row stream headlessly with columns chosen by header', async () => {
+    async function* rows() {
+      yield ['Leads export'];
+      yield ['Name', 'Mobile', 'City'];
+      yield ['A', '9818202888', 'Delhi'];
+      yield ['B', '+91 98182 02888', 'Noida'];
+      yield ['C', '1111111111', 'Pune'];
+      yield ['D', '9313123456', 'Agra'];
+    }
+    const options = {
+      exportMode: 'full' as const,
+      mobile: { countryProfile: 'IN' as const, multiCountryFallback: 'IN' as const },
+      columns: ['mobile'],
+      headerRowIndex: 1
+    };
+
+    const stream = cleanRows(rows(), options);
+    const output: any[][] = [];
+    for await (const row of stream) output.push(row);
+
+    expect(output).toEqual([
+      ['Name', 'Mobile', 'City'],
+      ['A', '+919818202888', 'Delhi'],
+      ['D', '+919313123456', 'Agra']
+    ]);
+    expect(stream.stats).toEqual(expect.objectContaining({ total: 4, valid: 2, duplicates: 1, invalidPattern: 1 }));
+
+    const last: any[][] = [];
+    for await (const row of cleanRows(rows(), { ...options, duplicates: 'last' })) last.push(row);
+    expect(last[1]).toEqual(['B', '+919818202888', 'Noida']);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Headless entry point to the cleaner for scripts, servers and other front ends: no Angular, DOM or
+ * worker involved. Rows go in as arrays of cell values, header row included, and cleaned rows come
+ * back as an async stream.
+ */
+
+import {
+  CleanExclusions,
+  CleanOptions,
+  CleaningRun,
+  CleaningStats,
+  DuplicateResolver,
+  DuplicateStrategy,
+  ExportLayout,
+  ExportMode,
+  ExportSink,
+  OutcomeWriter,
+  RowCleaner,
+  SourceOptions,
+  StatDownloads,
+  createEmptyStatDownloads,
+  createEmptyStats
+} from './cleaning-pipeline';
+import type { MobileCleanerOptions } from './mobile-cleaner';
+import type { ExportTemplate } from './export-templates';
+import { LeadDistribution, LeadDistributor } from './lead-distribution';
+
+/** Raw rows of one sheet or CSV file, e.g. an array or an async generator reading a file. */
+export type RowSource = Iterable<any[]> | AsyncIterable<any[]>;
+
+export interface EngineOptions {
+  exportMode: ExportMode;
+  /** Country profile, multi-country fallback and validation rules. */
+  mobile: MobileCleanerOptions;
+  /** Mobile columns, by index or by header text (ignoring case). */
+  columns: Array<number | string>;
+  /** Name column for mobile-name and template exports. */
+  nameColumn?: number | string | null;
+  /** Index of the header row (default 0); rows above it are skipped. */
+  headerRowIndex?: number;
+  /** Label of the source in statistics rows and templates (default `rows`). */
+  sourceName?: string;
+  duplicates?: DuplicateStrategy;
+  numberSeries?: CleanOptions['numberSeries'];
+  template?: ExportTemplate;
+  /** The agent is added as the last cell of every row; `output` is ignored. */
+  distribution?: LeadDistribution;
+  exclusions?: CleanExclusions;
+}
+
+/**
+ * Cleaned rows, starting with the export header row. Statistics grow while the stream is read and
+ * are final once it is done.
+ */
+export interface CleaningStream extends AsyncIterable<any[]> {
+  readonly stats: CleaningStats;
+  readonly statDownloads: StatDownloads;
+  /** Exported numbers per circle, when `numberSeries` is set. */
+  readonly circleCounts: Record<string, number> | null;
+  /** Rows per agent, when `distribution` is set. */
+  readonly assignmentCounts: Record<string, number> | null;
+}
+
+/**
+ * Cleans rows as they are read. With the `first` duplicate strategy every row is passed on as soon
+ * as it is cleaned; other strategies can still change a row later, so rows are held until the
+ * source is exhausted.
+ */
+export function cleanRows(source: RowSource, options: EngineOptions): CleaningStream {
+  return new EngineStream(source, options);
+}
+
+interface EngineState {
+  cleaner: RowCleaner;
+  writer: OutcomeWriter;
+  holdRows: boolean;
+}
+
+class EngineStream implements CleaningStream {
+  stats = createEmptyStats();
+  statDownloads = createEmptyStatDownloads();
+  circleCounts: Record<string, number> | null = null;
+  assignmentCounts: Record<string, number> | null = null;
+  private started = false;
+
+  constructor(
+    private readonly source: RowSource,
+    private readonly options: EngineOptions
+  ) {}
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<any[]> {
+    if (this.started) throw new Error('A cleaning stream can only be read once');
+    this.started = true;
+
+    const headerRowIndex = this.options.headerRowIndex ?? 0;
+    const out: any[][] = [];
+    const sink: ExportSink = {
+      get count() {
+        return out.length;
+      },
+      write: row => out.push(row)
+    };
+    let state: EngineState | null = null;
+    let rowIndex = -1;
+
+    for await (const input of this.source) {
+      rowIndex++;
+      if (rowIndex < headerRowIndex) continue;
+      if (!state) {
+        const { state: started, header } = this.start((input ?? []).map(cell => String(cell ?? '')));
+        state = started;
+        yield header;
+        continue;
+      }
+
+      state.cleaner.stats.total++;
+      try {
+        state.writer.write(0, state.cleaner.process(input, rowIndex + 1), sink);
+      } catch (rowError) {
+        console.error(`Error processing row ${rowIndex}:`, rowError);
+        state.cleaner.stats.invalidLength++;
+      }
+      if (!state.holdRows) yield* out.splice(0);
+    }
+
+    if (!state) throw new Error(`No header row found at row ${headerRowIndex + 1}`);
+    yield* out.splice(0);
+  }
+
+  private start(headers: string[]): { state: EngineState; header: string[] } {
+    const { options } = this;
+    const sourceName = options.sourceName ?? 'rows';
+    const source: SourceOptions = {
+      sourceId: sourceName,
+      fileName: sourceName,
+      sheetName: sourceName,
+      headerRowIndex: options.headerRowIndex ?? 0,
+      headers,
+      selectedColumns: options.columns.map(column => columnIndex(headers, column)),
+      selectedNameColumn:
+        options.nameColumn === undefined || options.nameColumn === null
+          ? null
+          : columnIndex(headers, options.nameColumn)
+    };
+    const cleanOptions: CleanOptions = {
+      fileName: sourceName,
+      exportMode: options.exportMode,
+      mobile: options.mobile,
+      sources: [source],
+      duplicates: options.duplicates,
+      numberSeries: options.numberSeries,
+      template: options.template,
+      distribution: options.distribution && { ...options.distribution, output: 'column' }
+    };
+
+    const run = new CleaningRun(cleanOptions, options.exclusions);
+    const layout = new ExportLayout(cleanOptions);
+    const cleaner = new RowCleaner(run, source);
+    const usesStrategy = ['full', 'mobile-name', 'template'].includes(options.exportMode);
+    const strategy = usesStrategy ? options.duplicates ?? 'first' : 'first';
+    const resolver =
+      strategy === 'first' ? null : new DuplicateResolver(strategy, layout, options.exportMode === 'full');
+    const distributor = cleanOptions.distribution
+      ? new LeadDistributor(cleanOptions.distribution, [headers])
+      : null;
+
+    this.stats = cleaner.stats;
+    this.statDownloads = run.statDownloads;
+    this.circleCounts = run.circleCounts;
+    this.assignmentCounts = distributor?.counts ?? null;
+    return {
+      state: { cleaner, writer: new OutcomeWriter(layout, resolver, distributor), holdRows: !!resolver },
+      header: layout.headerFor(0)
+    };
+  }
+}
+
+function columnIndex(headers: string[], column: number | string): number {
+  if (typeof column === 'number') return column;
+  const wanted = column.trim().toLowerCase();
+  const idx = headers.findIndex(header => header.trim().toLowerCase() === wanted);
+  if (idx === -1) throw new Error(`Column "${column}" is not in the header row`);
+  return idx;
+}
@@ -0,0 +1,144 @@
+import { CleanOptions, DuplicateStrategy, cleanSources } from './cleaning-pipeline';
+import * as XLSX from 'xlsx';
+import { readBlobBuffer, readBlobText, textBlob } from '../testing/blobs';
+
+describe('Cleaning pipeline', () => {
+  it('should produce the same export from sheet rows and from the streaming CSV path', async () => {
+    const rows = [
+      ['Name', 'Mobile'],
+      ['A', '9818202888'],
+      ['B', '+91 98182 02888'],
+      ['C', '1111111111'],
+      ['D', '9313123456']
+    ];
+    const options: CleanOptions = {
+      fileName: 'leads',
+      exportMode: 'mobile-name',
+      mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+      sources: [
+        {
+          sourceId: 'leads',
+          fileName: 'leads',
+          sheetName: 'Sheet1',
+          headerRowIndex: 0,
+          headers: ['Name', 'Mobile'],
+          selectedColumns: [1],
+          selectedNameColumn: 0
+        }
+      ]
+    };
+    const yieldControl = () => Promise.resolve();
+    const csv = textBlob(rows.map(r => r.join(',')).join('\n'));
+
+    const fromRows = await cleanSources([{ rows }], options, { yieldControl });
+    const fromCsv = await cleanSources([{ csv }], { ...options, outputFormat: 'csv' }, { yieldControl });
+
+    expect(fromRows.stats).toEqual(fromCsv.stats);
+    expect(fromRows.stats.duplicates).toBe(1);
+    expect(fromRows.stats.invalidPattern).toBe(1);
+    expect(fromCsv.exportRowCount).toBe(2);
+    expect(await readBlobText(fromCsv.blob!)).toBe('Name,Mobile_Number\r\nA,+919818202888\r\nD,+919313123456\r\n');
+  });
+
+  it('should merge several files and drop numbers already seen in an earlier file', async () => {
+    const options: CleanOptions = {
+      fileName: 'Merged_2_Files',
+      exportMode: 'full',
+      mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+      sources: [
+        {
+          sourceId: 'a',
+          fileName: 'march',
+          sheetName: 'Sheet1',
+          headerRowIndex: 0,
+          headers: ['Name', 'Mobile'],
+          selectedColumns: [1],
+          selectedNameColumn: null
+        },
+        {
+          sourceId: 'b',
+          fileName: 'april',
+          sheetName: 'CSV',
+          headerRowIndex: 0,
+          headers: ['Mobile', 'Name'],
+          selectedColumns: [0],
+          selectedNameColumn: null
+        }
+      ]
+    };
+    const march = [
+      ['Name', 'Mobile'],
+      ['A', '9818202888'],
+      ['B', '9313123456']
+    ];
+    const april = textBlob('Mobile,Name\n+91 98182 02888,C\n9000000001,D\n');
+
+    const result = await cleanSources([{ rows: march }, { csv: april }], { ...options, outputFormat: 'csv' }, {
+      yieldControl: () => Promise.resolve()
+    });
+
+    expect(result.exportRowCount).toBe(3);
+    expect(result.stats.duplicates).toBe(1);
+    expect(result.sourceStats.map(s => [s.fileName, s.stats.valid, s.stats.duplicates])).toEqual([
+      ['march', 2, 0],
+      ['april', 1, 1]
+    ]);
+    expect(await readBlobText(result.blob!)).toBe(
+      'Source_File,Source_Sheet,Name,Mobile\r\n' +
+        'march,Sheet1,A,+919818202888\r\n' +
+        'march,Sheet1,B,+919313123456\r\n' +
+        'april,CSV,D,+919000000001\r\n'
+    );
+  });
+
+  it('should pick the row kept for a repeated number by duplicate strategy on both paths', async () => {
+    const rows = [
+      ['Mobile', 'Name', 'City'],
+      ['9818202888', '', 'Delhi'],
+      ['+91 98182 02888', 'Asha', 'Noida'],
+      ['9820123456', 'Ravi', 'Mumbai'],
+      ['09818202888', '', '']
+    ];
+    const csv = textBlob(rows.map(r => r.join(',')).join('\n'));
+    const yieldControl = () => Promise.resolve();
+    const expected: Record<DuplicateStrategy, string[]> = {
+      first: ['+919818202888', '', 'Delhi'],
+      last: ['+919818202888', '', ''],
+      mostComplete: ['+919818202888', 'Asha', 'Noida'],
+      merge: ['+919818202888', 'Asha', 'Delhi']
+    };
+
+    for (const [duplicates, kept] of Object.entries(expected) as Array<[DuplicateStrategy, string[]]>) {
+      const options: CleanOptions = {
+        fileName: 'leads',
+        exportMode: 'full',
+        mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+        sources: [
+          {
+            sourceId: 'leads',
+            fileName: 'leads',
+            sheetName: 'Sheet1',
+            headerRowIndex: 0,
+            headers: rows[0],
+            selectedColumns: [0],
+            selectedNameColumn: null
+          }
+        ],
+        duplicates
+      };
+      const fromRows = await cleanSources([{ rows: rows.map(r => [...r]) }], options, { yieldControl });
+      const fromCsv = await cleanSources([{ csv }], { ...options, outputFormat: 'csv' }, { yieldControl });
+      const streamedXlsx = await cleanSources([{ csv }], options, { yieldControl });
+      for (const result of [fromRows, streamedXlsx]) {
+        const workbook = XLSX.read(await readBlobBuffer(result.blob!), { type: 'array' });
+        const sheetRows = XLSX.utils.sheet_to_json(workbook.Sheets['Cleaned'], { header: 1, defval: '' });
+        expect(sheetRows.slice(1)).toEqual([kept, ['+919820123456', 'Ravi', 'Mumbai']]);
+      }
+      expect(await readBlobText(fromCsv.blob!)).toBe(
+        `Mobile,Name,City\r\n${kept.join(',')}\r\n+919820123456,Ravi,Mumbai\r\n`
+      );
+      expect(fromCsv.stats).toEqual(fromRows.stats);
+      expect(fromCsv.stats.duplicates).toBe(2);
+    }
+  });
+});
@@ -0,0 +1,992 @@
+import { MobileCleaner, MobileCleanerOptions } from './mobile-cleaner';
+import { CsvProblemLog, csvEscape, streamCsvRecords, toExportHeader, yieldToBrowser } from './csv-utils';
+import { loadXlsx } from './workbook-utils';
+import type { TextEncodingId } from './text-encoding';
+import { OUTSIDE_INDIA, classifyIndianNumber } from './in-number-series';
+import { VCardContact, VCardOptions, buildVCardExport } from './vcard-export';
+import { ExportTemplate, TemplateRowContext, compileTemplate } from './export-templates';
+import { XLSX_MIME, XlsxStreamWriter } from './xlsx-writer';
+import type { XlsxStreamReader } from './xlsx-stream-reader';
+import { ExportParts, buildExportParts } from './export-parts';
+import { LeadDistribution, LeadDistributor, buildAgentExport } from './lead-distribution';
+import { AuditLog, STAT_SHEETS } from './audit-report';
+
+export type ExportMode = 'full' | 'unique' | 'mobile-name' | 'keep-all' | 'template';
+/** Which row represents a repeated number: the first, the last, the fullest, or the first with blanks filled in. */
+export type DuplicateStrategy = 'first' | 'last' | 'mostComplete' | 'merge';
+export type StatCategory =
+  | 'valid'
+  | 'duplicates'
+  | 'invalidPattern'
+  | 'invalidLength'
+  | 'foreignCountry'
+  | 'suppressed'
+  | 'recentlyContacted'
+  | 'outsideCircles';
+
+export const MAX_STAT_DOWNLOAD_ROWS = 10000;
+export const FAST_MODE_ROWS = 100000;
+
+export interface CleaningStats {
+  total: number;
+  valid: number;
+  duplicates: number;
+  invalidPattern: number;
+  invalidLength: number;
+  foreignCountry: number;
+  suppressed: number;
+  recentlyContacted: number;
+  outsideCircles: number;
+}
+
+export interface StatDownloads {
+  valid: Array<{ row: number; column: string; original: string; cleaned: string; source?: string }>;
+  duplicates: Array<{ row: number; mobile: string; source?: string }>;
+  invalidPattern: Array<{ row: number; column: string; value: string; rule: string; source?: string }>;
+  invalidLength: Array<{ row: number; column: string; value: string; source?: string }>;
+  foreignCountry: Array<{ row: number; column: string; value: string; detected: string; source?: string }>;
+  suppressed: Array<{ row: number; column: string; value: string; cleaned: string; source?: string }>;
+  recentlyContacted: Array<{ row: number; column: string; value: string; cleaned: string; source?: string }>;
+  outsideCircles: Array<{ row: number; column: string; value: string; cleaned: string; source?: string }>;
+}
+
+/** Column mapping for one (file, sheet) pair feeding the run. */
+export interface SourceOptions {
+  sourceId: string;
+  fileName: string;
+  sheetName: string;
+  headerRowIndex: number;
+  headers: string[];
+  selectedColumns: number[];
+  selectedNameColumn: number | null;
+}
+
+export interface CleanOptions {
+  /** Base name of the exported file. */
+  fileName: string;
+  exportMode: ExportMode;
+  mobile: MobileCleanerOptions;
+  sources: SourceOptions[];
+  /** File type of spreadsheet exports (default XLSX); templates choose their own. */
+  outputFormat?: 'xlsx' | 'csv';
+  /** Write each source to its own sheet of the XLSX instead of merging them. Ignored for CSV exports. */
+  splitBySource?: boolean;
+  /**
+   * Row kept for a repeated number in full and mobile-name exports (default `first`).
+   * The kept row stays where the number first appeared.
+   */
+  duplicates?: DuplicateStrategy;
+  /** Contact history: skip numbers exported in the last `excludeDays` days and/or record this export. */
+  history?: { excludeDays: number | null; record: boolean };
+  /**
+   * Indian operator/circle lookup: add Operator and Circle columns (not in keep-all exports) and/or
+   * keep only numbers from the listed circles (all circles when empty).
+   */
+  numberSeries?: { addColumns: boolean; keepCircles: string[] };
+  /** Columns of a `template` export. */
+  template?: ExportTemplate;
+  /** Write mobile-name exports as phone contacts (.vcf, or a ZIP of them) instead of a spreadsheet. */
+  vcard?: VCardOptions;
+  /**
+   * Deliver the export as a ZIP of parts, each with the header row. Parts are always cut from the
+   * merged output; vCard exports ignore this.
+   */
+  parts?: ExportParts;
+  /**
+   * Share the exported rows among agents: adds an Assigned_To column, or writes one file per agent
+   * (which replaces `parts`). Not used with vCard exports.
+   */
+  distribution?: LeadDistribution;
+  /** Also build an audit workbook with a summary and every row of every statistics category. */
+  audit?: boolean;
+}
+
+/** Numbers kept out of the export whatever the data says. */
+export interface CleanExclusions {
+  /** Raw opt-out / DND cells, normalized with the run's country profile. */
+  suppressionValues?: any[];
+  /** E.164 numbers exported within the contact-history window. */
+  recentlyContacted?: Set<string>;
+}
+
+/** Data for one source: rows parsed from a sheet, or a CSV file or large XLSX sheet that is streamed. */
+export type SourceInput =
+  | { rows: any[][] }
+  | { csv: Blob; encoding?: TextEncodingId }
+  | { xlsx: XlsxStreamReader; sheetName: string };
+
+export interface SourceStats {
+  fileName: string;
+  sheetName: string;
+  stats: CleaningStats;
+}
+
+export interface CleanProgress {
+  progress: number;
+  stats: CleaningStats;
+}
+
+export interface CleanResult {
+  error?: string;
+  blob?: Blob;
+  fileName?: string;
+  format?: 'xlsx' | 'csv' | 'vcf' | 'zip';
+  /** Number of files written, e.g. the .vcf files inside a ZIP. */
+  fileCount?: number;
+  exportRowCount: number;
+  fastMode: boolean;
+  stats: CleaningStats;
+  sourceStats: SourceStats[];
+  statDownloads: StatDownloads;
+  /** Non-fatal problem, e.g. the contact history could not be read or updated. */
+  warning?: string;
+  /** Exported numbers per telecom circle, when the number-series lookup is enabled. */
+  circleCounts?: Record<string, number>;
+  /** Rows assigned to each agent, when leads are distributed. */
+  assignmentCounts?: Record<string, number>;
+  /** Audit workbook (XLSX), when `audit` was requested. */
+  audit?: Blob;
+}
+
+export interface CleanHooks {
+  onProgress?: (event: CleanProgress) => void;
+  yieldControl?: () => Promise<void>;
+  /** Called with the numbers of every exported row, e.g. to record them in the contact history. */
+  onExported?: (sourceIndex: number, numbers: string[]) => void;
+}
+
+export function createEmptyStats(): CleaningStats {
+  return {
+    total: 0,
+    valid: 0,
+    duplicates: 0,
+    invalidPattern: 0,
+    invalidLength: 0,
+    foreignCountry: 0,
+    suppressed: 0,
+    recentlyContacted: 0,
+    outsideCircles: 0
+  };
+}
+
+export function createEmptyStatDownloads(): StatDownloads {
+  return {
+    valid: [],
+    duplicates: [],
+    invalidPattern: [],
+    invalidLength: [],
+    foreignCountry: [],
+    suppressed: [],
+    recentlyContacted: [],
+    outsideCircles: []
+  };
+}
+
+export function sumStats(list: CleaningStats[]): CleaningStats {
+  const total = createEmptyStats();
+  for (const stats of list) {
+    for (const key of Object.keys(total) as Array<keyof CleaningStats>) {
+      total[key] += stats[key];
+    }
+  }
+  return total;
+}
+
+export type RowOutcome =
+  | { type: 'skip' }
+  | { type: 'keep'; row: any[]; numbers: string[] }
+  | { type: 'unique'; row: any[]; numbers: string[]; name: any }
+  | { type: 'duplicate'; row: any[]; numbers: string[]; name: any };
+
+/** State shared by every source of one run, so duplicates are caught across files and sheets. */
+export class CleaningRun {
+  readonly seenNumbers = new Set<string>();
+  /** Opt-out / DND numbers, normalized the same way as the data so they match exactly. */
+  readonly suppressedNumbers = new Set<string>();
+  readonly recentlyContacted: Set<string>;
+  readonly statDownloads = createEmptyStatDownloads();
+  readonly mobileCleaner: MobileCleaner;
+  /** Exported numbers per circle; null when the number-series lookup is off. */
+  readonly circleCounts: Record<string, number> | null;
+  /** Uncapped statistics rows for the audit workbook; null unless requested. */
+  readonly audit: AuditLog | null;
+  private readonly keepCircles: Set<string> | null;
+
+  constructor(readonly options: CleanOptions, exclusions: CleanExclusions = {}) {
+    this.mobileCleaner = new MobileCleaner(options.mobile);
+    for (const value of exclusions.suppressionValues ?? []) {
+      for (const number of this.mobileCleaner.cleanDetailed(value).cleanedNumbers) {
+        this.suppressedNumbers.add(number);
+      }
+    }
+    this.recentlyContacted = exclusions.recentlyContacted ?? new Set();
+
+    const { numberSeries } = options;
+    this.circleCounts = numberSeries ? {} : null;
+    this.keepCircles = numberSeries?.keepCircles.length ? new Set(numberSeries.keepCircles) : null;
+    this.audit = options.audit ? new AuditLog(options) : null;
+  }
+
+  /** Why a valid number must not be exported, if it must not. */
+  exclusionReason(number: string): 'suppressed' | 'recentlyContacted' | 'outsideCircles' | null {
+    if (this.suppressedNumbers.has(number)) return 'suppressed';
+    if (this.recentlyContacted.has(number)) return 'recentlyContacted';
+    if (this.keepCircles && !this.keepCircles.has(circleOf(number))) return 'outsideCircles';
+    return null;
+  }
+
+  countCircles(numbers: string[]) {
+    if (!this.circleCounts) return;
+    for (const number of numbers) {
+      const circle = circleOf(number);
+      this.circleCounts[circle] = (this.circleCounts[circle] ?? 0) + 1;
+    }
+  }
+}
+
+function circleOf(number: string): string {
+  return classifyIndianNumber(number)?.circle ?? OUTSIDE_INDIA;
+}
+
+/**
+ * Cleans one data row at a time for a single source and tracks its statistics.
+ * Shared by the in-memory sheet path and the streaming CSV path so both produce the same output.
+ */
+export class RowCleaner {
+  readonly stats = createEmptyStats();
+  private readonly needsFullRows: boolean;
+  private readonly sourceLabel?: string;
+
+  constructor(
+    private readonly run: CleaningRun,
+    private readonly source: SourceOptions,
+    private readonly collectStatRows = true
+  ) {
+    const { exportMode, sources } = run.options;
+    this.needsFullRows = exportMode === 'full' || exportMode === 'keep-all';
+    if (sources.length > 1) this.sourceLabel = `${source.fileName} / ${source.sheetName}`;
+  }
+
+  process(input: any[], rowNumber: number): RowOutcome {
+    const { headers, selectedColumns, selectedNameColumn } = this.source;
+    const { exportMode } = this.run.options;
+    const row = this.needsFullRows ? [...(input || [])] : (input || []);
+    if (this.needsFullRows) {
+      while (row.length < headers.length) row.push('');
+    }
+
+    // Capture name BEFORE modifying the row
+    const name = selectedNameColumn !== null ? (row[selectedNameColumn] || '') : '';
+
+    const validMobiles: string[] = [];
+    const perColumn: (string | null)[] = [];
+    const excludedColumns: number[] = [];
+
+    for (const col of selectedColumns) {
+      const detail = this.run.mobileCleaner.cleanDetailed(row[col]);
+      const headerName = headers[col] || `Column_${col + 1}`;
+      const allowedNumbers: string[] = [];
+      for (const cleanedNumber of detail.cleanedNumbers) {
+        const exclusion = this.run.exclusionReason(cleanedNumber);
+        if (!exclusion) {
+          allowedNumbers.push(cleanedNumber);
+          continue;
+        }
+        this.stats[exclusion]++;
+        this.addStatRow(exclusion, {
+          row: rowNumber,
+          column: headerName,
+          value: String(row[col] ?? ''),
+          cleaned: cleanedNumber
+        });
+      }
+      if (detail.cleanedNumbers.length > 0 && allowedNumbers.length === 0) {
+        excludedColumns.push(col);
+      }
+      if (this.needsFullRows) {
+        perColumn.push(allowedNumbers.length > 0 ? allowedNumbers.join(' / ') : null);
+      }
+      if (detail.cleanedNumbers.length > 0) {
+        validMobiles.push(...allowedNumbers);
+        for (const cleanedNumber of allowedNumbers) {
+          this.addStatRow('valid', {
+            row: rowNumber,
+            column: headerName,
+            original: String(row[col] ?? ''),
+            cleaned: cleanedNumber
+          });
+        }
+      } else if (detail.reason === 'invalidPattern') {
+        this.stats.invalidPattern++;
+        this.addStatRow('invalidPattern', {
+          row: rowNumber,
+          column: headerName,
+          value: String(row[col] ?? ''),
+          rule: detail.rule ?? ''
+        });
+      } else if (detail.reason === 'invalidLength') {
+        this.stats.invalidLength++;
+        this.addStatRow('invalidLength', { row: rowNumber, column: headerName, value: String(row[col] ?? '') });
+      } else if (detail.reason === 'foreignCountry') {
+        this.stats.foreignCountry++;
+        this.addStatRow('foreignCountry', {
+          row: rowNumber,
+          column: headerName,
+          value: String(row[col] ?? ''),
+          detected: detail.foreignNumbers.join(' / ')
+        });
+      }
+    }
+
+    const rowMobiles = Array.from(new Set(validMobiles));
+
+    if (exportMode === 'keep-all') {
+      selectedColumns.forEach((col, idx) => {
+        if (perColumn[idx]) row[col] = perColumn[idx];
+      });
+      // Excluded numbers never reach the export, even when the row itself is kept.
+      for (const col of excludedColumns) row[col] = '';
+      if (rowMobiles.length > 0) this.stats.valid += rowMobiles.length;
+      this.run.countCircles(rowMobiles);
+      return { type: 'keep', row, numbers: rowMobiles };
+    }
+
+    if (rowMobiles.length === 0) return { type: 'skip' };
+
+    const unseenMobiles: string[] = [];
+    const duplicateMobiles: string[] = [];
+    for (const mobile of rowMobiles) {
+      if (this.run.seenNumbers.has(mobile)) duplicateMobiles.push(mobile);
+      else unseenMobiles.push(mobile);
+    }
+
+    if (this.needsFullRows) {
+      const primaryNumber = unseenMobiles[0] ?? duplicateMobiles[0];
+      selectedColumns.forEach((col, idx) => {
+        row[col] = perColumn[idx] ?? primaryNumber;
+      });
+    }
+
+    if (unseenMobiles.length === 0) {
+      this.stats.duplicates++;
+      for (const duplicate of duplicateMobiles) {
+        this.addStatRow('duplicates', { row: rowNumber, mobile: duplicate });
+      }
+      // Still returned so a duplicate strategy can prefer this row over the one already kept.
+      return { type: 'duplicate', row, numbers: duplicateMobiles, name };
+    }
+
+    for (const number of unseenMobiles) {
+      this.run.seenNumbers.add(number);
+    }
+
+    this.stats.valid += unseenMobiles.length;
+    this.run.countCircles(unseenMobiles);
+    return { type: 'unique', row, numbers: unseenMobiles, name };
+  }
+
+  private addStatRow<K extends StatCategory>(type: K, row: StatDownloads[K][number]) {
+    const tagged = this.sourceLabel ? { ...row, source: this.sourceLabel } : row;
+    this.run.audit?.add(type, tagged);
+    if (!this.collectStatRows) return;
+    const bucket = this.run.statDownloads[type] as StatDownloads[K][number][];
+    if (bucket.length < MAX_STAT_DOWNLOAD_ROWS) bucket.push(tagged);
+  }
+}
+
+/**
+ * Maps cleaned rows of every source onto the export columns.
+ * With several merged sources, rows are prefixed with Source_File/Source_Sheet and full-row exports
+ * use the union of all source headers; a single source, or one written to its own sheet, keeps its
+ * columns unchanged.
+ */
+export class ExportLayout {
+  private readonly headers: string[][];
+  private readonly withSource: boolean;
+  private readonly withSeries: boolean;
+  private readonly columnMaps: Array<number[] | null>;
+  private readonly templateRows: Array<(context: TemplateRowContext) => any[]> = [];
+
+  constructor(private readonly options: CleanOptions, split = false) {
+    const { exportMode, sources, template } = options;
+    // A template lists every output column itself, including any source or series columns.
+    this.withSource = sources.length > 1 && !split && exportMode !== 'template';
+    this.withSeries = !!options.numberSeries?.addColumns && exportMode !== 'keep-all' && exportMode !== 'template';
+    const prefix = this.withSource ? [toExportHeader('Source File'), toExportHeader('Source Sheet')] : [];
+
+    if (exportMode === 'template') {
+      if (!template) throw new Error('Template export without a template');
+      const header = template.columns.map(column => column.header.trim());
+      this.headers = sources.map(() => header);
+      this.templateRows = sources.map(source => compileTemplate(template, source.headers));
+      this.columnMaps = [];
+    } else if (exportMode === 'unique') {
+      this.headers = sources.map(() => [...prefix, toExportHeader('Mobile Number')]);
+      this.columnMaps = [];
+    } else if (exportMode === 'mobile-name') {
+      this.headers = sources.map(() => [...prefix, toExportHeader('Name'), toExportHeader('Mobile Number')]);
+      this.columnMaps = [];
+    } else if (!this.withSource) {
+      this.headers = sources.map(source => source.headers.map(header => toExportHeader(header)));
+      this.columnMaps = sources.map(() => null);
+    } else {
+      // Same header text (and occurrence within the file) lands in the same export column.
+      const columnIndex = new Map<string, number>();
+      const union = [...prefix];
+      this.columnMaps = sources.map(source => {
+        const occurrences = new Map<string, number>();
+        return source.headers.map((header, col) => {
+          const name = toExportHeader(header) || `Column_${col + 1}`;
+          const occurrence = occurrences.get(name) ?? 0;
+          occurrences.set(name, occurrence + 1);
+          const key = `${name}\u0000${occurrence}`;
+          let target = columnIndex.get(key);
+          if (target === undefined) {
+            target = union.length;
+            columnIndex.set(key, target);
+            union.push(name);
+          }
+          return target;
+        });
+      });
+      this.headers = sources.map(() => union);
+    }
+
+    if (this.withSeries) {
+      const seriesHeader = [toExportHeader('Operator'), toExportHeader('Circle')];
+      this.headers = this.headers.map(header => [...header, ...seriesHeader]);
+    }
+    // Filled in by the LeadDistributor as rows are written.
+    if (distributionFor(options)) {
+      this.headers = this.headers.map(header => [...header, toExportHeader('Assigned To')]);
+    }
+  }
+
+  headerFor(sourceIndex: number): string[] {
+    return this.headers[sourceIndex];
+  }
+
+  /** Name and number of a mobile-name export row. */
+  contactFor(row: any[]): VCardContact {
+    const offset = this.withSource ? 2 : 0;
+    return { name: row[offset], number: row[offset + 1] };
+  }
+
+  /** Whether rows of the two sources land in the same export columns. */
+  sharesColumns(a: number, b: number): boolean {
+    return a === b || this.headers[a].join('\u0000') === this.headers[b].join('\u0000');
+  }
+
+  rowsFor(sourceIndex: number, outcome: RowOutcome): any[][] {
+    if (outcome.type === 'skip') return [];
+    const source = this.options.sources[sourceIndex];
+    const prefix = this.withSource ? [source.fileName, source.sheetName] : [];
+
+    if (this.options.exportMode === 'template' && outcome.type !== 'keep') {
+      const toRow = this.templateRows[sourceIndex];
+      return outcome.numbers.map(number =>
+        toRow({ number, name: outcome.name, row: outcome.row, fileName: source.fileName })
+      );
+    }
+    if (this.options.exportMode === 'unique') {
+      return outcome.numbers.map(number => [...prefix, number, ...this.seriesCells(number)]);
+    }
+    if (this.options.exportMode === 'mobile-name' && outcome.type !== 'keep') {
+      return outcome.numbers.map(number => [...prefix, outcome.name, number, ...this.seriesCells(number)]);
+    }
+
+    const series = this.seriesCells(outcome.numbers[0]);
+    const columnMap = this.columnMaps[sourceIndex];
+    if (!columnMap) return [series.length ? [...outcome.row, ...series] : outcome.row];
+    const mapped: any[] = new Array(this.headers[sourceIndex].length - series.length).fill('');
+    prefix.forEach((value, idx) => (mapped[idx] = value));
+    columnMap.forEach((target, col) => (mapped[target] = outcome.row[col] ?? ''));
+    return [[...mapped, ...series]];
+  }
+
+  private seriesCells(number: string | undefined): string[] {
+    if (!this.withSeries) return [];
+    const info = number ? classifyIndianNumber(number) : null;
+    return info ? [info.operator, info.circle] : ['', number ? OUTSIDE_INDIA : ''];
+  }
+}
+
+/**
+ * Picks the row exported for each repeated number when the strategy is not `first`.
+ * Kept rows are changed in place, so they stay where the number first appeared; in full exports a
+ * row with several numbers is one group, found through any of its numbers.
+ */
+export class DuplicateResolver {
+  /** Groups that received at least one duplicate row. */
+  readonly repeated = new Set<string>();
+  private readonly groupOf = new Map<string, string>();
+  private readonly kept = new Map<string, { sourceIndex: number; row: any[] }>();
+
+  /**
+   * @param tracked Groups whose kept rows are remembered; every group when null. A counting pass
+   * passes an empty set and only fills `repeated`.
+   */
+  constructor(
+    private readonly strategy: DuplicateStrategy,
+    private readonly layout: ExportLayout,
+    private readonly wholeRow: boolean,
+    private readonly tracked: Set<string> | null = null
+  ) {}
+
+  /** Registers the export rows of a kept outcome; returns which of them may still change. */
+  track(sourceIndex: number, numbers: string[], rows: any[][]): boolean[] {
+    if (this.wholeRow) {
+      for (const number of numbers.slice(1)) this.groupOf.set(number, numbers[0]);
+    }
+    return this.keysFor(numbers).map((key, idx) => {
+      if (!rows[idx] || (this.tracked && !this.tracked.has(key))) return false;
+      this.kept.set(key, { sourceIndex, row: rows[idx] });
+      return true;
+    });
+  }
+
+  /** Applies the strategy to the kept row of each duplicate number. */
+  resolve(sourceIndex: number, numbers: string[], rows: any[][]) {
+    this.keysFor(numbers).forEach((number, idx) => {
+      const key = this.groupOf.get(number) ?? number;
+      this.repeated.add(key);
+      const kept = this.kept.get(key);
+      const candidate = rows[idx];
+      if (!kept || !candidate || !this.layout.sharesColumns(kept.sourceIndex, sourceIndex)) return;
+
+      if (this.strategy === 'merge') {
+        candidate.forEach((value, col) => {
+          if (isBlankCell(kept.row[col]) && !isBlankCell(value)) kept.row[col] = value;
+        });
+      } else if (
+        this.strategy === 'last' ||
+        (this.strategy === 'mostComplete' &&
+          filledCells(candidate) > filledCells(kept.row.slice(0, candidate.length)))
+      ) {
+        // Cells past the candidate's, like the assigned agent, stay with the kept row.
+        kept.row.splice(0, candidate.length, ...candidate);
+        kept.sourceIndex = sourceIndex;
+      }
+    });
+  }
+
+  /** Full exports write one row per outcome, keyed by its first number; others one row per number. */
+  private keysFor(numbers: string[]): string[] {
+    return this.wholeRow ? numbers.slice(0, 1) : numbers;
+  }
+}
+
+/**
+ * Turns cleaned rows into export rows: lays them out, adds the assigned agent and hands them to the
+ * duplicate strategy. Shared by cleanSources and the headless engine.
+ */
+export class OutcomeWriter {
+  constructor(
+    private readonly layout: ExportLayout,
+    private readonly resolver: DuplicateResolver | null,
+    private readonly distributor: LeadDistributor | null
+  ) {}
+
+  /** Writes the rows of one outcome and returns the numbers it exported. */
+  write(sourceIndex: number, outcome: RowOutcome, sink: ExportSink): string[] {
+    if (outcome.type === 'skip') return [];
+    if (outcome.type === 'duplicate') {
+      this.resolver?.resolve(sourceIndex, outcome.numbers, this.layout.rowsFor(sourceIndex, outcome));
+      return [];
+    }
+    let rows = this.layout.rowsFor(sourceIndex, outcome);
+    const { distributor } = this;
+    if (distributor) {
+      rows = rows.map((row, rowIdx) => {
+        const number = outcome.numbers[rowIdx] ?? outcome.numbers[0];
+        return [...row, number ? distributor.assign(sourceIndex, number, outcome.row) : ''];
+      });
+    }
+    const pending = this.resolver ? this.resolver.track(sourceIndex, outcome.numbers, rows) : [];
+    rows.forEach((row, rowIdx) => sink.write(row, pending[rowIdx]));
+    return outcome.numbers;
+  }
+}
+
+function isBlankCell(value: any): boolean {
+  return String(value ?? '').trim() === '';
+}
+
+function filledCells(row: any[]): number {
+  return row.reduce((count, value) => count + (isBlankCell(value) ? 0 : 1), 0);
+}
+
+export interface ExportSink {
+  readonly count: number;
+  /** `pending` rows may still be changed by a duplicate strategy before the file is built. */
+  write(row: any[], pending?: boolean): void;
+}
+
+class MemoryExportSink implements ExportSink {
+  readonly rows: any[][] = [];
+  get count() {
+    return Math.max(0, this.rows.length - 1);
+  }
+  write(row: any[]) {
+    this.rows.push(row);
+  }
+}
+
+class CsvExportSink implements ExportSink {
+  private readonly parts: Array<string | any[]> = ['\uFEFF'];
+  private buffer = '';
+  private bufferedLines = 0;
+  private lines = 0;
+
+  get count() {
+    return Math.max(0, this.lines - 1);
+  }
+
+  write(row: any[], pending = false) {
+    this.lines++;
+    if (pending) {
+      // Kept as an array and only turned into text by toBlob().
+      this.flush();
+      this.parts.push(row);
+      return;
+    }
+    this.buffer += csvLine(row);
+    this.bufferedLines++;
+    if (this.bufferedLines >= 2000 || this.buffer.length >= 2 * 1024 * 1024) {
+      this.flush();
+    }
+  }
+
+  toBlob(): Blob {
+    this.flush();
+    const parts = this.parts.map(part => (typeof part === 'string' ? part : csvLine(part)));
+    return new Blob(parts, { type: 'text/csv;charset=utf-8;' });
+  }
+
+  private flush() {
+    if (this.buffer.length === 0) return;
+    this.parts.push(this.buffer);
+    this.buffer = '';
+    this.bufferedLines = 0;
+  }
+}
+
+function csvLine(row: any[]): string {
+  return row.map(v => csvEscape(v)).join(',') + '\r\n';
+}
+
+/**
+ * Cleans every source with one shared dedupe set, drops excluded numbers and builds a single
+ * export file. Rows are streamed into an XLSX (merged into one sheet or one sheet per source,
+ * continued on extra sheets past Excel's row limit) or, when CSV output is chosen, a CSV.
+ */
+export async function cleanSources(
+  inputs: SourceInput[],
+  options: CleanOptions,
+  hooks: CleanHooks = {},
+  exclusions: CleanExclusions = {}
+): Promise<CleanResult> {
+  const yieldControl = hooks.yieldControl ?? yieldToBrowser;
+  const { exportMode, sources } = options;
+  const streaming = inputs.some(input => !('rows' in input));
+  const inMemoryRows = inputs.reduce(
+    (sum, input, idx) => sum + ('rows' in input ? Math.max(0, input.rows.length - (sources[idx].headerRowIndex + 1)) : 0),
+    0
+  );
+  const fastMode = inMemoryRows >= FAST_MODE_ROWS;
+  const vcard = exportMode === 'mobile-name' ? options.vcard : undefined;
+  const csvOutput =
+    !vcard && (exportMode === 'template' ? options.template?.fileType === 'csv' : options.outputFormat === 'csv');
+  const distribution = distributionFor(options);
+  const perAgent = distribution?.output === 'perAgent';
+  const parts = vcard || perAgent ? undefined : options.parts;
+  // vCard contacts and split exports are cut up at the end, so their rows are collected first.
+  const collected = !!vcard || !!parts || perAgent;
+  const split = !!options.splitBySource && !csvOutput && !collected && sources.length > 1;
+  const run = new CleaningRun(options, exclusions);
+  const layout = new ExportLayout(options, split);
+  const cleaners = sources.map((source, idx) => new RowCleaner(run, source, !('rows' in inputs[idx]) || !fastMode));
+  const distributor = distribution ? new LeadDistributor(distribution, sources.map(source => source.headers)) : null;
+  let audit: Blob | undefined;
+  let auditWarning: string | undefined;
+  // Filled on the writing pass only, so a two-pass run does not count a record twice.
+  const csvProblems = sources.map(() => new CsvProblemLog());
+  const warning = () =>
+    [
+      ...csvProblems.map((log, idx) => log.describe(sources.length > 1 ? `${sources[idx].fileName}: ` : '')),
+      auditWarning
+    ]
+      .filter(Boolean)
+      .join(' ');
+  const result = (extra: Partial<CleanResult>): CleanResult => ({
+    exportRowCount: 0,
+    fastMode,
+    stats: sumStats(cleaners.map(c => c.stats)),
+    sourceStats: sources.map((source, idx) => ({
+      fileName: source.fileName,
+      sheetName: source.sheetName,
+      stats: cleaners[idx].stats
+    })),
+    statDownloads: run.statDownloads,
+    ...(run.circleCounts ? { circleCounts: run.circleCounts } : {}),
+    ...(distributor ? { assignmentCounts: distributor.counts } : {}),
+    ...(audit ? { audit } : {}),
+    ...(warning() ? { warning: warning() } : {}),
+    ...extra
+  });
+
+  if (sources.length === 1 && 'rows' in inputs[0] && inMemoryRows <= 0) {
+    return result({ error: 'No data rows found after header row.' });
+  }
+
+  const sheetName =
+    exportMode === 'keep-all' ? 'Cleaned Keep All Rows' :
+    exportMode === 'full' ? 'Cleaned' :
+    exportMode === 'unique' ? 'Unique Numbers' :
+    exportMode === 'template' ? options.template!.name : 'Mobile & Name';
+  const workbook = new XlsxStreamWriter();
+  const csvSink = new CsvExportSink();
+  const collectedSink = new MemoryExportSink();
+  const sinks: ExportSink[] =
+    collected ? [collectedSink] :
+    csvOutput ? [csvSink] :
+    split ? exportSheetLabels(sources).map((label, idx) => workbook.addSheet(label, layout.headerFor(idx))) :
+    [workbook.addSheet(sheetName, layout.headerFor(0))];
+  if (collected || csvOutput) sinks[0].write(layout.headerFor(0));
+  const sinkFor = (idx: number): ExportSink => sinks[split ? idx : 0];
+
+  const strategy =
+    exportMode === 'full' || exportMode === 'mobile-name' || exportMode === 'template'
+      ? options.duplicates ?? 'first'
+      : 'first';
+  const wholeRow = exportMode === 'full';
+  // Streamed sources are not kept in memory, so a first pass finds the numbers that repeat; only
+  // their rows are held back as values while the second pass writes the export.
+  const passes = streaming && !collected && strategy !== 'first' ? 2 : 1;
+  const cleanSource = async (idx: number, cleaner: RowCleaner, emit: (outcome: RowOutcome) => void, pass: number) => {
+    const input = inputs[idx];
+    const onProgress = (fraction: number) => hooks.onProgress?.({
+      progress: Math.round(((pass * sources.length + idx + fraction) / (passes * sources.length)) * 100),
+      stats: sumStats(cleaners.map(c => c.stats))
+    });
+
+    if ('rows' in input) {
+      await cleanRowSource(input.rows, sources[idx], cleaner, emit, onProgress, yieldControl);
+    } else if ('xlsx' in input) {
+      await cleanXlsxSource(input, sources[idx], cleaner, emit, onProgress, yieldControl);
+    } else {
+      const problems = pass === passes - 1 ? csvProblems[idx] : new CsvProblemLog();
+      await cleanCsvSource(input, sources[idx], cleaner, emit, onProgress, yieldControl, problems);
+    }
+  };
+
+  let writers = cleaners;
+  let resolver: DuplicateResolver | null = null;
+  if (passes === 2) {
+    // The first pass gathers the statistics; the second only writes, with a fresh dedupe set.
+    const counter = new DuplicateResolver(strategy, layout, wholeRow, new Set());
+    for (let idx = 0; idx < sources.length; idx++) {
+      await cleanSource(idx, cleaners[idx], (outcome) => {
+        if (outcome.type === 'unique') counter.track(idx, outcome.numbers, []);
+        if (outcome.type === 'duplicate') counter.resolve(idx, outcome.numbers, []);
+      }, 0);
+    }
+    resolver = new DuplicateResolver(strategy, layout, wholeRow, counter.repeated);
+    const writeRun = new CleaningRun({ ...options, audit: false }, exclusions);
+    writers = sources.map(source => new RowCleaner(writeRun, source, false));
+  } else if (strategy !== 'first') {
+    resolver = new DuplicateResolver(strategy, layout, wholeRow);
+  }
+  const writer = new OutcomeWriter(layout, resolver, distributor);
+
+  for (let idx = 0; idx < sources.length; idx++) {
+    const sink = sinkFor(idx);
+    const emit = (outcome: RowOutcome) => {
+      const numbers = writer.write(idx, outcome, sink);
+      if (numbers.length) hooks.onExported?.(idx, numbers);
+    };
+    await cleanSource(idx, writers[idx], emit, passes - 1);
+  }
+
+  const exportRowCount = sinks.reduce((sum, sink) => sum + sink.count, 0);
+  if (run.audit) {
+    try {
+      const { stats, sourceStats } = result({});
+      audit = await run.audit.toBlob({ stats, sourceStats, exportRowCount, generatedAt: new Date() });
+    } catch (auditError) {
+      console.error('Audit workbook error:', auditError);
+      auditWarning = 'The audit workbook could not be built.';
+    }
+  }
+  if (exportRowCount <= 0) {
+    return result({
+      error: exportMode === 'keep-all' ? 'No data to export.' : 'No valid mobile numbers found in the selected columns.'
+    });
+  }
+
+  if (vcard) {
+    try {
+      const contacts = collectedSink.rows.slice(1).map(row => layout.contactFor(row));
+      const built = await buildVCardExport(contacts, options.fileName, vcard);
+      return result({ ...built, exportRowCount });
+    } catch (vcardError) {
+      console.error('vCard export error:', vcardError);
+      return result({ error: 'Failed to build the vCard export. Try a smaller selection.' });
+    }
+  }
+
+  if (parts) {
+    try {
+      const fileType = csvOutput ? 'csv' : 'xlsx';
+      const built = await buildExportParts(collectedSink.rows, options.fileName, { parts, fileType, sheetName });
+      return result({ ...built, exportRowCount });
+    } catch (partsError) {
+      console.error('Split export error:', partsError);
+      return result({ error: 'Failed to build the ZIP of export parts. Try fewer, larger parts.' });
+    }
+  }
+
+  if (perAgent) {
+    try {
+      const fileType = csvOutput ? 'csv' : 'xlsx';
+      const built = await buildAgentExport(collectedSink.rows, options.fileName, { fileType, sheetName });
+      return result({ ...built, exportRowCount });
+    } catch (agentError) {
+      console.error('Agent export error:', agentError);
+      return result({ error: 'Failed to build the ZIP of agent files. Try an Assigned_To column instead.' });
+    }
+  }
+
+  const fileName = `(${exportRowCount})-${options.fileName}`;
+  if (csvOutput) {
+    return result({ blob: csvSink.toBlob(), fileName: `${fileName}.csv`, format: 'csv', exportRowCount });
+  }
+
+  try {
+    return result({ blob: await workbook.toBlob(), fileName: `${fileName}.xlsx`, format: 'xlsx', exportRowCount });
+  } catch (writeError) {
+    console.error('XLSX export error:', writeError);
+    return result({ error: 'Failed to build the XLSX file. Please choose CSV output and try again.' });
+  }
+}
+
+/** Lead distribution of the run; vCard exports have no room for an agent column. */
+function distributionFor(options: CleanOptions): LeadDistribution | undefined {
+  return options.exportMode === 'mobile-name' && options.vcard ? undefined : options.distribution;
+}
+
+/** Sheet label per source; the workbook writer makes them Excel-safe and unique. */
+function exportSheetLabels(sources: SourceOptions[]): string[] {
+  const multiFile = new Set(sources.map(source => source.sourceId)).size > 1;
+  return sources.map(source => (multiFile ? `${source.fileName} ${source.sheetName}` : source.sheetName));
+}
+
+async function cleanRowSource(
+  rows: any[][],
+  source: SourceOptions,
+  cleaner: RowCleaner,
+  emit: (outcome: RowOutcome) => void,
+  onProgress: (fraction: number) => void,
+  yieldControl: () => Promise<void>
+) {
+  const totalRows = rows.length - (source.headerRowIndex + 1);
+  if (totalRows <= 0) return;
+
+  cleaner.stats.total = totalRows;
+  const chunkSize =
+    totalRows >= 250000 ? 6000 :
+    totalRows >= 120000 ? 4000 :
+    totalRows >= 60000 ? 2500 : 1200;
+  let processed = 0;
+  let sliceStartMs = Date.now();
+
+  for (let start = source.headerRowIndex + 1; start < rows.length; start += chunkSize) {
+    const end = Math.min(start + chunkSize, rows.length);
+
+    for (let i = start; i < end; i++) {
+      try {
+        emit(cleaner.process(rows[i], i + 1));
+      } catch (rowError) {
+        console.error(`Error processing row ${i}:`, rowError);
+        cleaner.stats.invalidLength++;
+      }
+      processed++;
+
+      // Time-slice processing so the browser does not show "wait/exit" prompts.
+      if (Date.now() - sliceStartMs >= 20) {
+        await yieldControl();
+        sliceStartMs = Date.now();
+      }
+    }
+
+    onProgress(processed / totalRows);
+    await yieldControl();
+  }
+}
+
+async function cleanCsvSource(
+  input: { csv: Blob; encoding?: TextEncodingId },
+  source: SourceOptions,
+  cleaner: RowCleaner,
+  emit: (outcome: RowOutcome) => void,
+  onProgress: (fraction: number) => void,
+  yieldControl: () => Promise<void>,
+  problems: CsvProblemLog
+) {
+  let rowIndex = -1;
+
+  await streamCsvRecords(
+    input.csv,
+    (record) => {
+      rowIndex++;
+      if (rowIndex <= source.headerRowIndex) return true;
+
+      problems.add(record);
+      cleaner.stats.total++;
+      emit(cleaner.process(record.fields, rowIndex + 1));
+      return true;
+    },
+    (progress) => onProgress(progress / 100),
+    yieldControl,
+    { encoding: input.encoding }
+  );
+}
+
+async function cleanXlsxSource(
+  input: { xlsx: XlsxStreamReader; sheetName: string },
+  source: SourceOptions,
+  cleaner: RowCleaner,
+  emit: (outcome: RowOutcome) => void,
+  onProgress: (fraction: number) => void,
+  yieldControl: () => Promise<void>
+) {
+  await input.xlsx.streamRows(
+    input.sheetName,
+    (row, rowIndex) => {
+      if (rowIndex <= source.headerRowIndex) return true;
+
+      cleaner.stats.total++;
+      emit(cleaner.process(row, rowIndex + 1));
+      return true;
+    },
+    { onProgress: (percent) => onProgress(percent / 100), yieldControl }
+  );
+}
+
+/** Builds the XLSX report for one statistics category. */
+export async function buildStatReport(type: StatCategory, rows: StatDownloads[StatCategory]): Promise<Blob> {
+  const XLSX = await loadXlsx();
+  const wb = XLSX.utils.book_new();
+  const { name, header, cells } = STAT_SHEETS[type];
+  let data: any[][] = [header, ...rows.map(row => cells(row))];
+
+  // Multi-source runs tag each row with the file and sheet it came from.
+  if (rows.some(r => r.source)) {
+    data = data.map((line, idx) => [idx === 0 ? toExportHeader('Source') : rows[idx - 1].source ?? '', ...line]);
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  XLSX.utils.book_append_sheet(wb, ws, name);
+  const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  return new Blob([buffer], { type: XLSX_MIME });
+}
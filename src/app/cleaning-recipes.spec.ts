@@ -0,0 +1,31 @@
+import { findRecipe, parseRecipes, recipeColumns, recipesToJson } from './cleaning-recipes';
+import { RECOMMENDED_VALIDATION_RULES } from './validation-rules';
+
+describe('Cleaning recipes', () => {
+  it('should match recipes by sheet pattern and headers and map their columns wherever they moved', () => {
+    const { recipes } = parseRecipes(
+      recipesToJson([
+        {
+          name: 'Vendor weekly',
+          sheetPattern: 'Leads*',
+          headerRowIndex: 1,
+          mobileColumns: ['Phone 1', 'Phone 2'],
+          nameColumn: 'Customer',
+          exportMode: 'mobile-name',
+          countryProfile: 'IN',
+          multiCountryFallback: 'IN',
+          rules: RECOMMENDED_VALIDATION_RULES,
+          autoApply: true
+        }
+      ])
+    );
+    const rows = [['Weekly export'], ['Phone 2', 'Customer', 'City', 'Phone 1'], ['', 'A', 'Pune', '9818202888']];
+
+    expect(findRecipe(recipes, 'Leads week 12', rows)?.name).toBe('Vendor weekly');
+    expect(findRecipe(recipes, 'Summary', rows)).toBeNull();
+    expect(findRecipe(recipes, 'LEADS', [[], ['Phone 1', 'Customer']])).toBeNull();
+    expect(findRecipe([{ ...recipes[0], autoApply: false }], 'LEADS', rows)?.name).toBe('Vendor weekly');
+    expect(recipeColumns(recipes[0], rows[1] as string[])).toEqual({ selectedColumns: [3, 0], selectedNameColumn: 1 });
+    expect(parseRecipes('{"recipes": 1}').recipes).toEqual([]);
+  });
+});
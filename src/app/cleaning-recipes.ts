@@ -0,0 +1,123 @@
+import type { ExportMode } from './cleaning-pipeline';
+import type { ExportTemplate } from './export-templates';
+import { COUNTRY_CODES, CountryCode, CountryProfileId } from './phone-profiles';
+import { EMPTY_VALIDATION_RULES, ValidationRules } from './validation-rules';
+
+/**
+ * The header row, columns, export mode and rules of a recurring file format, saved under a name.
+ * Columns are kept by header text so a recipe still fits when a vendor adds or moves columns.
+ */
+export interface CleaningRecipe {
+  name: string;
+  /** Sheet names the recipe is for; `*` matches any text and case is ignored. Empty means any sheet. */
+  sheetPattern: string;
+  headerRowIndex: number;
+  mobileColumns: string[];
+  nameColumn: string | null;
+  exportMode: ExportMode;
+  /** Columns of a `template` export. */
+  template?: ExportTemplate;
+  countryProfile: CountryProfileId;
+  multiCountryFallback: CountryCode;
+  rules: ValidationRules;
+  /** Apply as soon as a matching file is loaded instead of only offering it. */
+  autoApply: boolean;
+}
+
+const EXPORT_MODES: ExportMode[] = ['full', 'unique', 'mobile-name', 'keep-all', 'template'];
+
+/**
+ * First recipe whose sheet pattern fits and whose header row has every mobile column (and the
+ * name column) of the recipe. Recipes with more columns are tried first, being more specific.
+ */
+export function findRecipe(recipes: CleaningRecipe[], sheetName: string, rows: any[][]): CleaningRecipe | null {
+  const candidates = [...recipes].sort((a, b) => b.mobileColumns.length - a.mobileColumns.length);
+  return candidates.find(recipe => recipeMatches(recipe, sheetName, rows)) ?? null;
+}
+
+export function recipeMatches(recipe: CleaningRecipe, sheetName: string, rows: any[][]): boolean {
+  if (!sheetMatches(recipe.sheetPattern, sheetName)) return false;
+  const headers = headerKeys(rows[recipe.headerRowIndex]);
+  const wanted = [...recipe.mobileColumns, ...(recipe.nameColumn === null ? [] : [recipe.nameColumn])];
+  return wanted.length > 0 && wanted.every(header => headers.includes(headerKey(header)));
+}
+
+/** Column indexes of the recipe's columns in `headers`; columns that are missing are left out. */
+export function recipeColumns(
+  recipe: CleaningRecipe,
+  headers: string[]
+): { selectedColumns: number[]; selectedNameColumn: number | null } {
+  const keys = headerKeys(headers);
+  const selectedColumns = recipe.mobileColumns
+    .map(header => keys.indexOf(headerKey(header)))
+    .filter(idx => idx !== -1);
+  const name = recipe.nameColumn === null ? -1 : keys.indexOf(headerKey(recipe.nameColumn));
+  return { selectedColumns, selectedNameColumn: name === -1 ? null : name };
+}
+
+/**
+ * Reads recipes from JSON (an array, or `{ recipes: [...] }` as written by `recipesToJson`).
+ * Entries that are not recipes are skipped; missing settings get the defaults.
+ */
+export function parseRecipes(json: string): { recipes: CleaningRecipe[]; error?: string } {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { recipes: [], error: 'The recipe file is not valid JSON.' };
+  }
+  const list = Array.isArray(data) ? data : data?.recipes;
+  if (!Array.isArray(list)) return { recipes: [], error: 'The recipe file contains no recipes.' };
+  const recipes = list.map(normalizeRecipe).filter((recipe): recipe is CleaningRecipe => !!recipe);
+  if (!recipes.length) return { recipes: [], error: 'The recipe file contains no recipes.' };
+  return { recipes };
+}
+
+export function recipesToJson(recipes: CleaningRecipe[]): string {
+  return JSON.stringify({ recipes }, null, 2);
+}
+
+/** A recipe with every field checked, e.g. from local storage or a shared file; null if unusable. */
+export function normalizeRecipe(value: any): CleaningRecipe | null {
+  const name = String(value?.name ?? '').trim();
+  const mobileColumns = Array.isArray(value?.mobileColumns)
+    ? value.mobileColumns.map((header: any) => String(header)).filter(Boolean)
+    : [];
+  if (!name || !mobileColumns.length) return null;
+
+  const exportMode = EXPORT_MODES.includes(value.exportMode) ? value.exportMode : 'full';
+  const headerRowIndex = Number(value.headerRowIndex);
+  const countryProfile =
+    value.countryProfile === 'multi' || COUNTRY_CODES.includes(value.countryProfile) ? value.countryProfile : 'IN';
+  return {
+    name,
+    sheetPattern: String(value.sheetPattern ?? ''),
+    headerRowIndex: Number.isInteger(headerRowIndex) && headerRowIndex >= 0 ? headerRowIndex : 0,
+    mobileColumns,
+    nameColumn: value.nameColumn ? String(value.nameColumn) : null,
+    exportMode: exportMode === 'template' && !Array.isArray(value.template?.columns) ? 'full' : exportMode,
+    ...(exportMode === 'template' && Array.isArray(value.template?.columns) ? { template: value.template } : {}),
+    countryProfile,
+    multiCountryFallback: COUNTRY_CODES.includes(value.multiCountryFallback) ? value.multiCountryFallback : 'IN',
+    rules: { ...EMPTY_VALIDATION_RULES, ...value.rules },
+    autoApply: value.autoApply !== false
+  };
+}
+
+function sheetMatches(pattern: string, sheetName: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return true;
+  const source = trimmed
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(sheetName);
+}
+
+function headerKeys(row: any[] | undefined): string[] {
+  return (row ?? []).map(headerKey);
+}
+
+function headerKey(header: any): string {
+  return String(header ?? '').trim().toLowerCase();
+}
@@ -0,0 +1,19 @@
+import { detectHeaderRow, detectMobileColumns, detectNameColumn } from './column-detection';
+import { MobileCleaner } from './mobile-cleaner';
+
+describe('Column detection', () => {
+  it('should detect the header, mobile and name columns without the component', () => {
+    const rows = [
+      ['', ''],
+      ['Customer Name', 'Phone', 'City'],
+      ['A', '9818202888', 'Pune'],
+      ['B', '9313123456', 'Delhi'],
+      ['C', '9123456780', 'Goa']
+    ];
+    const cleaner = new MobileCleaner({ countryProfile: 'IN', multiCountryFallback: 'IN' });
+
+    expect(detectHeaderRow(rows)).toBe(1);
+    expect(detectMobileColumns(rows, 1, cell => !!cleaner.cleanDetailed(cell).cleaned)).toEqual([1]);
+    expect(detectNameColumn(rows[1])).toBe(0);
+  });
+});
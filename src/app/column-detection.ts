@@ -0,0 +1,53 @@
+/** Header and column guesses shared by the upload wizard and the command-line cleaner. */
+
+/** Valid numbers a column needs among the sampled rows to be picked as a mobile column. */
+export const MIN_VALID_MOBILES = 3;
+/** Rows after the header row that mobile-column detection looks at. */
+export const MOBILE_DETECTION_ROWS = 10;
+
+/** First of the leading five rows with a cell containing a letter. */
+export function detectHeaderRow(rows: any[][]): number | null {
+  for (let i = 0; i < Math.min(5, rows.length); i++) {
+    const row = rows[i];
+    if (!row || row.length === 0) continue;
+
+    const hasText = row.some(cell => {
+      const str = String(cell || '').trim();
+      return str && /[a-zA-Z]/.test(str);
+    });
+
+    if (hasText) return i;
+  }
+  return null;
+}
+
+/** Columns where enough of the rows below the header hold a number `isMobile` accepts. */
+export function detectMobileColumns(
+  rows: any[][],
+  headerRowIndex: number,
+  isMobile: (value: any) => boolean
+): number[] {
+  const columns: number[] = [];
+  const width = rows[headerRowIndex]?.length || 0;
+  const maxRows = Math.min(headerRowIndex + MOBILE_DETECTION_ROWS, rows.length);
+
+  for (let col = 0; col < width; col++) {
+    let validCount = 0;
+    for (let row = headerRowIndex + 1; row < maxRows; row++) {
+      if (isMobile(rows[row]?.[col])) validCount++;
+    }
+
+    if (validCount >= MIN_VALID_MOBILES) columns.push(col);
+  }
+  return columns;
+}
+
+export function detectNameColumn(headers: string[]): number | null {
+  for (let col = 0; col < headers.length; col++) {
+    const header = headers[col].toLowerCase();
+    if (header.includes('name') || header.includes('customer') || header.includes('contact')) {
+      return col;
+    }
+  }
+  return null;
+}
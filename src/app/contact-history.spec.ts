@@ -0,0 +1,41 @@
+import { cleanSources } from './cleaning-pipeline';
+
+describe('Contact history', () => {
+  it('should skip recently contacted numbers and report the numbers it exports', async () => {
+    const rows = [
+      ['Name', 'Mobile'],
+      ['A', '9818202888'],
+      ['B', '9313123456'],
+      ['C', '9000000001']
+    ];
+    const exported: string[] = [];
+    const result = await cleanSources(
+      [{ rows }],
+      {
+        fileName: 'leads',
+        exportMode: 'unique',
+        mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+        sources: [
+          {
+            sourceId: 'leads',
+            fileName: 'leads',
+            sheetName: 'Sheet1',
+            headerRowIndex: 0,
+            headers: ['Name', 'Mobile'],
+            selectedColumns: [1],
+            selectedNameColumn: null
+          }
+        ]
+      },
+      { yieldControl: () => Promise.resolve(), onExported: (_, numbers) => exported.push(...numbers) },
+      { recentlyContacted: new Set(['+919313123456']) }
+    );
+
+    expect(result.exportRowCount).toBe(2);
+    expect(result.stats.recentlyContacted).toBe(1);
+    expect(result.statDownloads.recentlyContacted).toEqual([
+      { row: 3, column: 'Mobile', value: '9313123456', cleaned: '+919313123456' }
+    ]);
+    expect(exported).toEqual(['+919818202888', '+919000000001']);
+  });
+});
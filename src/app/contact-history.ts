@@ -0,0 +1,129 @@
+import { buildCsvBlob, streamCsvRecords, toExportHeader } from './csv-utils';
+
+const DB_NAME = 'excel-mobile-cleaner';
+const DB_VERSION = 1;
+const STORE = 'contacted';
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The most recent export of one number. Numbers are stored in the E.164 form the cleaner outputs. */
+export interface ContactRecord {
+  number: string;
+  exportedAt: number;
+  fileName: string;
+}
+
+export interface HistorySummary {
+  supported: boolean;
+  count: number;
+}
+
+/**
+ * Local "already contacted" store in IndexedDB, so later runs can skip numbers exported recently.
+ * Works on the main thread and inside the cleaner worker.
+ */
+export class ContactHistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async summary(): Promise<HistorySummary> {
+    if (!ContactHistoryStore.isSupported()) return { supported: false, count: 0 };
+    const store = await this.store('readonly');
+    return { supported: true, count: await request(store.count()) };
+  }
+
+  /** Numbers exported at or after `since` (epoch ms). */
+  async numbersSince(since: number): Promise<Set<string>> {
+    const store = await this.store('readonly');
+    const keys = await request(store.index('exportedAt').getAllKeys(IDBKeyRange.lowerBound(since)));
+    return new Set(keys.map(key => String(key)));
+  }
+
+  async record(records: ContactRecord[]): Promise<void> {
+    if (!records.length) return;
+    const store = await this.store('readwrite');
+    for (const record of records) store.put(record);
+    await done(store.transaction);
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store('readwrite');
+    store.clear();
+    await done(store.transaction);
+  }
+
+  async exportCsv(): Promise<Blob> {
+    const store = await this.store('readonly');
+    const records: ContactRecord[] = await request(store.getAll());
+    const header = [toExportHeader('Mobile Number'), toExportHeader('Exported At'), toExportHeader('Source File')];
+    return buildCsvBlob([
+      header,
+      ...records.map(r => [r.number, new Date(r.exportedAt).toISOString(), r.fileName])
+    ]);
+  }
+
+  /**
+   * Imports a CSV written by `exportCsv`. Rows whose first cell is not an E.164 number are skipped;
+   * a missing or unreadable timestamp is taken as now.
+   */
+  async importCsv(file: Blob): Promise<{ imported: number; skipped: number }> {
+    const now = Date.now();
+    const records: ContactRecord[] = [];
+    let skipped = 0;
+    let recordIndex = -1;
+
+    await streamCsvRecords(
+      file,
+      ({ fields }) => {
+        if (!fields.some(Boolean)) return;
+        recordIndex++;
+        const [number = '', exportedAt = '', fileName = ''] = fields;
+        const normalized = number.replace(/[\s-]/g, '');
+        if (!/^\+\d{8,15}$/.test(normalized)) {
+          // A non-number first record is the header row.
+          if (recordIndex > 0) skipped++;
+          return;
+        }
+        const time = Date.parse(exportedAt);
+        records.push({ number: normalized, exportedAt: Number.isFinite(time) ? time : now, fileName });
+      },
+      undefined,
+      () => Promise.resolve()
+    );
+
+    await this.record(records);
+    return { imported: records.length, skipped };
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.db) this.db = openDatabase();
+    const db = await this.db;
+    return db.transaction(STORE, mode).objectStore(STORE);
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    const store = open.result.createObjectStore(STORE, { keyPath: 'number' });
+    store.createIndex('exportedAt', 'exportedAt');
+  };
+  return request(open);
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,85 @@
+import { cleanSources } from './cleaning-pipeline';
+import { CSV_STREAM_CHUNK_SIZE, CsvCheckpoint, CsvTokenizer, streamCsvRecords } from './csv-utils';
+import { readBlobText, textBlob } from '../testing/blobs';
+
+describe('CsvTokenizer', () => {
+  it('should read quoted commas, line breaks and quotes across chunks and report malformed records', async () => {
+    const text =
+      'Name,Mobile,Notes\r\n' +
+      '"Doe, Jane",9818202888,"Flat 2\r\nMG Road"\r\n' +
+      'B,9313123456,"Said ""call later"""\n' +
+      'C,"9123456780"x,ok\n' +
+      'D,9988776655,"never closed\n';
+
+    // Every split point, including inside a CRLF and a doubled quote, gives the same records.
+    for (let cut = 0; cut <= text.length; cut++) {
+      const tokenizer = new CsvTokenizer(',');
+      const records = [...tokenizer.push(text.slice(0, cut)), ...tokenizer.push(text.slice(cut)), ...tokenizer.end()];
+      expect(records.map(r => r.fields)).toEqual([
+        ['Name', 'Mobile', 'Notes'],
+        ['Doe, Jane', '9818202888', 'Flat 2\r\nMG Road'],
+        ['B', '9313123456', 'Said "call later"'],
+        ['C', '9123456780x', 'ok'],
+        ['D', '9988776655', 'never closed']
+      ]);
+      expect(records.map(r => [r.line, r.problem])).toEqual([
+        [1, undefined],
+        [2, undefined],
+        [4, undefined],
+        [5, 'Text after a closing quote'],
+        [6, 'Quote is never closed']
+      ]);
+    }
+
+    const result = await cleanSources(
+      [{ csv: textBlob(text) }],
+      {
+        fileName: 'notes',
+        exportMode: 'full',
+        outputFormat: 'csv',
+        mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+        sources: [
+          {
+            sourceId: 'notes',
+            fileName: 'notes',
+            sheetName: 'CSV',
+            headerRowIndex: 0,
+            headers: ['Name', 'Mobile', 'Notes'],
+            selectedColumns: [1],
+            selectedNameColumn: 0
+          }
+        ]
+      },
+      { yieldControl: () => Promise.resolve() }
+    );
+
+    expect(result.stats.total).toBe(4);
+    expect(result.exportRowCount).toBe(4);
+    expect(result.warning).toContain('2 malformed CSV record(s)');
+    expect(result.warning).toContain('line 5: Text after a closing quote');
+    expect(await readBlobText(result.blob!)).toContain('"Doe, Jane",+919818202888,"Flat 2\r\nMG Road"');
+  });
+
+  it('should carry on from the checkpoint left at the last line break of each chunk', async () => {
+    const lines: string[] = ['Id,Mobile,Notes'];
+    for (let i = 0; lines.length * 40 < 2.5 * CSV_STREAM_CHUNK_SIZE; i++) {
+      lines.push(`${i},98182${i},"call\nlater ${i}"`);
+    }
+    const file = textBlob(lines.join('\n'));
+    const yieldControl = () => Promise.resolve();
+
+    const all: string[][] = [];
+    const checkpoints: CsvCheckpoint[] = [];
+    await streamCsvRecords(file, record => void all.push(record.fields), undefined, yieldControl, {
+      onCheckpoint: checkpoint => checkpoints.push(checkpoint)
+    });
+    expect(all.length).toBe(lines.length);
+    expect(checkpoints.length).toBe(3);
+
+    for (const from of checkpoints) {
+      const resumed: string[][] = [];
+      await streamCsvRecords(file, record => void resumed.push(record.fields), undefined, yieldControl, { from });
+      expect(resumed).toEqual(all.slice(from.records));
+    }
+  });
+});
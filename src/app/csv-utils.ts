@@ -0,0 +1,391 @@
+import { TextEncodingId, createDecoder, detectEncoding } from './text-encoding';
+
+export const CSV_STREAM_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB
+
+export function yieldToBrowser(): Promise<void> {
+  return new Promise(resolve => {
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(() => resolve());
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+}
+
+export function detectDelimiter(sample: string): string {
+  const candidates = [',', '\t', ';', '|'];
+  let best = ',';
+  let bestCount = -1;
+  for (const c of candidates) {
+    const count = (sample.split(c).length - 1);
+    if (count > bestCount) {
+      bestCount = count;
+      best = c;
+    }
+  }
+  return best;
+}
+
+export function parseLine(line: string, delim: string): string[] {
+  // Generic parser that handles quoted fields with the given delimiter
+  const out: string[] = [];
+  let cur = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        cur += '"';
+        i++; // skip escaped quote
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === delim && !inQuotes) {
+      out.push(cur);
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out.map(s => s.replace(/^"|"$/g, '').trim());
+}
+
+export function sanitizeForExcelCell(value: any): string | number | boolean | Date | null {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  const text = String(value);
+  // Excel cell text limit is 32767 characters.
+  return text.length > 32767 ? text.slice(0, 32767) : text;
+}
+
+export function csvEscape(value: any): string {
+  const normalized = sanitizeForExcelCell(value);
+  const text = normalized === null ? '' : String(normalized);
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function buildCsvBlob(data: any[][]): Blob {
+  const rows = data.map(row => row.map(cell => csvEscape(cell)).join(','));
+  const csv = '\uFEFF' + rows.join('\r\n');
+  return new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+}
+
+export function toExportHeader(header: string): string {
+  return String(header || '')
+    .trim()
+    .replace(/\s+/g, '_');
+}
+
+/** Longest quoted field kept open; past this an unclosed quote is taken as a stray one. */
+const MAX_QUOTED_FIELD_CHARS = 1024 * 1024;
+/** Malformed records listed by line in a warning; the rest are only counted. */
+const LISTED_PROBLEMS = 3;
+
+export interface CsvRecord {
+  fields: string[];
+  /** 1-based line of the file the record starts on. */
+  line: number;
+  /** Why the record is malformed; it is still read as well as it can be. */
+  problem?: string;
+}
+
+type TokenizerState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'afterQuoted';
+
+/** What a tokenizer carries from one chunk to the next; see `CsvTokenizer.snapshot`. */
+export interface CsvTokenizerSnapshot {
+  delimiter: string;
+  state: TokenizerState;
+  field: string;
+  fields: string[];
+  problem?: string;
+  line: number;
+  recordLine: number;
+  afterCR: boolean;
+}
+
+/**
+ * RFC 4180 tokenizer for text fed in chunks of any size. Quoted fields may hold delimiters, line
+ * breaks and doubled quotes, and records may span chunks. Like `parseLine`, fields are trimmed and a
+ * quote inside an unquoted field is kept as text; a blank line is a record with one empty field.
+ */
+export class CsvTokenizer {
+  private state: TokenizerState = 'fieldStart';
+  private field = '';
+  private fields: string[] = [];
+  private problem: string | undefined;
+  private line = 1;
+  private recordLine = 1;
+  private afterCR = false;
+
+  /** Without a delimiter, it is detected from the first line. */
+  constructor(public delimiter = '') {}
+
+  /** A tokenizer that carries on where the one that took `snapshot` was. */
+  static resume(snapshot: CsvTokenizerSnapshot): CsvTokenizer {
+    const tokenizer = new CsvTokenizer(snapshot.delimiter);
+    tokenizer.state = snapshot.state;
+    tokenizer.field = snapshot.field;
+    tokenizer.fields = [...snapshot.fields];
+    tokenizer.problem = snapshot.problem;
+    tokenizer.line = snapshot.line;
+    tokenizer.recordLine = snapshot.recordLine;
+    tokenizer.afterCR = snapshot.afterCR;
+    return tokenizer;
+  }
+
+  snapshot(): CsvTokenizerSnapshot {
+    const { delimiter, state, field, problem, line, recordLine, afterCR } = this;
+    return { delimiter, state, field, fields: [...this.fields], problem, line, recordLine, afterCR };
+  }
+
+  /** Tokenizes the next chunk and returns the records it completes. */
+  push(text: string): CsvRecord[] {
+    if (!this.delimiter) {
+      const firstLine = text.search(/\r|\n/);
+      this.delimiter = detectDelimiter(firstLine === -1 ? text : text.slice(0, firstLine));
+    }
+
+    const records: CsvRecord[] = [];
+    const delim = this.delimiter;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '\n' && this.afterCR) {
+        // Second half of a CRLF, already counted.
+        this.afterCR = false;
+        if (this.state === 'quoted') this.field += ch;
+        continue;
+      }
+      this.afterCR = ch === '\r';
+      const lineBreak = ch === '\r' || ch === '\n';
+      if (lineBreak) this.line++;
+
+      switch (this.state) {
+        case 'quoted':
+          if (ch === '"') {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += ch;
+            if (this.field.length > MAX_QUOTED_FIELD_CHARS) {
+              this.note('Quote is never closed');
+              this.state = 'unquoted';
+            }
+          }
+          continue;
+        case 'quoteInQuoted':
+          if (ch === '"') {
+            this.field += ch;
+            this.state = 'quoted';
+            continue;
+          }
+          if ((ch === ' ' || ch === '\t') && ch !== delim) {
+            this.state = 'afterQuoted';
+            continue;
+          }
+          break;
+        case 'afterQuoted':
+          if ((ch === ' ' || ch === '\t') && ch !== delim) continue;
+          break;
+      }
+
+      if (ch === delim) {
+        this.endField();
+      } else if (lineBreak) {
+        records.push(this.endRecord());
+      } else if (this.state === 'fieldStart' && ch === '"') {
+        // Spaces before an opening quote are dropped.
+        this.field = '';
+        this.state = 'quoted';
+      } else {
+        if (this.state === 'quoteInQuoted' || this.state === 'afterQuoted') {
+          this.note('Text after a closing quote');
+        }
+        this.field += ch;
+        // Leading spaces keep the field open to a quote.
+        if (this.state !== 'fieldStart' || (ch !== ' ' && ch !== '\t')) this.state = 'unquoted';
+      }
+    }
+    return records;
+  }
+
+  /** Returns the last record when the text does not end with a line break. */
+  end(): CsvRecord[] {
+    if (this.state === 'quoted') this.note('Quote is never closed');
+    if (this.state === 'fieldStart' && !this.field && !this.fields.length) return [];
+    return [this.endRecord()];
+  }
+
+  private note(problem: string) {
+    this.problem ??= problem;
+  }
+
+  private endField() {
+    this.fields.push(this.field.trim());
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  private endRecord(): CsvRecord {
+    this.endField();
+    const record: CsvRecord = { fields: this.fields, line: this.recordLine };
+    if (this.problem) record.problem = this.problem;
+    this.fields = [];
+    this.problem = undefined;
+    this.recordLine = this.line;
+    return record;
+  }
+}
+
+/** Splits CSV text that is already in memory into records. */
+export function parseCsvText(text: string, delimiter = ''): { records: CsvRecord[]; delimiter: string } {
+  const tokenizer = new CsvTokenizer(delimiter);
+  const records = [...tokenizer.push(text), ...tokenizer.end()];
+  return { records, delimiter: tokenizer.delimiter };
+}
+
+export interface CsvReadOptions {
+  /** Detected from the first line when left out. */
+  delimiter?: string;
+  /** Detected from the first bytes when left out. */
+  encoding?: TextEncodingId;
+}
+
+/**
+ * Where `streamCsvRecords` can pick up reading again: just after a line break, where no decoder of
+ * `TEXT_ENCODINGS` holds part of a character, with the tokenizer as it was there.
+ */
+export interface CsvCheckpoint {
+  /** Byte offset of the first unread byte. */
+  offset: number;
+  /** Records emitted before it. */
+  records: number;
+  encoding: TextEncodingId;
+  tokenizer: CsvTokenizerSnapshot;
+}
+
+export interface CsvStreamOptions extends CsvReadOptions {
+  /** Start reading at this checkpoint instead of at the start of the file. */
+  from?: CsvCheckpoint;
+  /** Called with a checkpoint at the last line break of each chunk read. */
+  onCheckpoint?: (checkpoint: CsvCheckpoint) => void;
+}
+
+/** Counts the malformed records of one file for a warning that lists the first few by line. */
+export class CsvProblemLog {
+  count = 0;
+  private readonly listed: string[] = [];
+
+  add(record: CsvRecord) {
+    if (!record.problem) return;
+    this.count++;
+    if (this.listed.length < LISTED_PROBLEMS) this.listed.push(`line ${record.line}: ${record.problem}`);
+  }
+
+  describe(prefix = ''): string | undefined {
+    if (!this.count) return undefined;
+    const more = this.count > this.listed.length ? '; ...' : '';
+    return `${prefix}${this.count} malformed CSV record(s) were read as well as possible (${this.listed.join('; ')}${more}).`;
+  }
+}
+
+/**
+ * Streams the records of a CSV file in chunks, so quoted line breaks never split a record. Stops
+ * early when `onRecord` returns false. Resolves to the delimiter and encoding used.
+ */
+export async function streamCsvRecords(
+  file: Blob,
+  onRecord: (record: CsvRecord) => boolean | void | Promise<boolean | void>,
+  onProgress?: (progress: number) => void,
+  yieldControl: () => Promise<void> = yieldToBrowser,
+  options: CsvStreamOptions = {}
+): Promise<Required<CsvReadOptions>> {
+  const { from, onCheckpoint } = options;
+  const tokenizer = from ? CsvTokenizer.resume(from.tokenizer) : new CsvTokenizer(options.delimiter);
+  let encoding = from?.encoding ?? options.encoding;
+  let decoder = encoding ? createDecoder(encoding) : null;
+  let offset = from?.offset ?? 0;
+  let records = from?.records ?? 0;
+  const used = () => ({ delimiter: tokenizer.delimiter, encoding: encoding ?? 'utf-8' });
+
+  const emit = async (completed: CsvRecord[]): Promise<boolean> => {
+    for (const record of completed) {
+      records++;
+      if ((await onRecord(record)) === false) return false;
+    }
+    return true;
+  };
+
+  while (offset < file.size) {
+    const start = offset;
+    const next = Math.min(offset + CSV_STREAM_CHUNK_SIZE, file.size);
+    const bytes = new Uint8Array(await file.slice(offset, next).arrayBuffer());
+    offset = next;
+
+    if (!decoder || !encoding) {
+      encoding = detectEncoding(bytes);
+      decoder = createDecoder(encoding);
+    }
+    // Split at the last line break, so reading can resume there with a fresh decoder.
+    const split = onCheckpoint ? afterLastLineBreak(bytes, encoding) : -1;
+    if (split > 0) {
+      const head = decoder.decode(bytes.subarray(0, split), { stream: true });
+      if (!(await emit(tokenizer.push(head)))) return used();
+      onCheckpoint?.({ offset: start + split, records, encoding, tokenizer: tokenizer.snapshot() });
+    }
+    const text = decoder.decode(bytes.subarray(Math.max(split, 0)), { stream: offset < file.size });
+    if (!(await emit(tokenizer.push(text)))) return used();
+
+    if (onProgress) {
+      onProgress(Math.round((offset / file.size) * 100));
+    }
+    await yieldControl();
+  }
+
+  await emit(tokenizer.end());
+  if (onProgress) onProgress(100);
+  return used();
+}
+
+/** Index just past the last line feed of a chunk in `encoding`, or -1 when it has none. */
+function afterLastLineBreak(bytes: Uint8Array, encoding: TextEncodingId): number {
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+    const [lf, zero] = encoding === 'utf-16le' ? [0, 1] : [1, 0];
+    for (let i = bytes.length - 2 - (bytes.length % 2); i >= 0; i -= 2) {
+      if (bytes[i + lf] === 0x0a && bytes[i + zero] === 0) return i + 2;
+    }
+    return -1;
+  }
+  // A 0x0A byte is always a line feed in UTF-8 and the single-byte encodings.
+  const last = bytes.lastIndexOf(0x0a);
+  return last === -1 ? -1 : last + 1;
+}
+
+export async function loadCsvPreview(
+  file: Blob,
+  maxRows: number,
+  onProgress?: (progress: number) => void,
+  yieldControl?: () => Promise<void>,
+  encoding?: TextEncodingId
+): Promise<{ rows: string[][]; delimiter: string; encoding: TextEncodingId; warning?: string }> {
+  const rows: string[][] = [];
+  const problems = new CsvProblemLog();
+
+  const used = await streamCsvRecords(
+    file,
+    (record) => {
+      rows.push(record.fields);
+      problems.add(record);
+      return rows.length < maxRows;
+    },
+    onProgress,
+    yieldControl,
+    { encoding }
+  );
+
+  const warning = problems.describe();
+  return { rows, ...used, ...(warning ? { warning } : {}) };
+}
@@ -0,0 +1,64 @@
+import { CleanOptions, cleanSources } from './cleaning-pipeline';
+import { loadJsZip } from './workbook-utils';
+import * as XLSX from 'xlsx';
+import { readBlobBuffer } from '../testing/blobs';
+
+describe('Export parts', () => {
+  it('should split an export into numbered parts bundled in a ZIP', async () => {
+    const rows = [
+      ['Mobile'],
+      ['9818202888'],
+      ['9820123456'],
+      ['9845123456'],
+      ['9313123456'],
+      ['9000000001'],
+      ['9000000002'],
+      ['9000000003']
+    ];
+    const options: CleanOptions = {
+      fileName: 'leads',
+      exportMode: 'unique',
+      mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+      sources: [
+        {
+          sourceId: 'leads',
+          fileName: 'leads',
+          sheetName: 'Sheet1',
+          headerRowIndex: 0,
+          headers: ['Mobile'],
+          selectedColumns: [0],
+          selectedNameColumn: null
+        }
+      ],
+      outputFormat: 'csv',
+      parts: { by: 'count', size: 3 }
+    };
+    const yieldControl = () => Promise.resolve();
+    const JSZipLib = await loadJsZip();
+
+    const equal = await cleanSources([{ rows }], options, { yieldControl });
+    expect(equal.format).toBe('zip');
+    expect(equal.fileName).toBe('(7)-leads_3_parts.zip');
+    const csvZip = await JSZipLib.loadAsync(await readBlobBuffer(equal.blob!));
+    expect(Object.keys(csvZip.files)).toEqual([
+      '(3)-leads-part-01-of-03.csv',
+      '(2)-leads-part-02-of-03.csv',
+      '(2)-leads-part-03-of-03.csv'
+    ]);
+    expect(await csvZip.file('(2)-leads-part-03-of-03.csv')!.async('string')).toBe(
+      '\uFEFFMobile_Number\r\n+919000000002\r\n+919000000003'
+    );
+
+    const bySize = await cleanSources([{ rows }], { ...options, outputFormat: 'xlsx', parts: { by: 'rows', size: 5 } }, {
+      yieldControl
+    });
+    expect(bySize.fileCount).toBe(2);
+    const xlsxZip = await JSZipLib.loadAsync(await readBlobBuffer(bySize.blob!));
+    const second = XLSX.read(await xlsxZip.file('(2)-leads-part-02-of-02.xlsx')!.async('uint8array'), { type: 'array' });
+    expect(XLSX.utils.sheet_to_json(second.Sheets['Unique Numbers'], { header: 1 })).toEqual([
+      ['Mobile_Number'],
+      ['+919000000002'],
+      ['+919000000003']
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { buildCsvBlob } from './csv-utils';
+import { loadJsZip, zipInput } from './workbook-utils';
+import { XlsxStreamWriter } from './xlsx-writer';
+
+/** Cut an export into parts for upload tools with a per-file limit. */
+export interface ExportParts {
+  /** `rows`: parts of `size` rows each; `count`: `size` parts of (nearly) equal length. */
+  by: 'rows' | 'count';
+  size: number;
+}
+
+export interface PartsExport {
+  blob: Blob;
+  fileName: string;
+  format: 'zip';
+  fileCount: number;
+}
+
+export function validateParts(parts: ExportParts): string[] {
+  if (Number.isInteger(parts.size) && parts.size >= 1) return [];
+  return [
+    parts.by === 'rows'
+      ? 'Rows per part must be a whole number of at least 1.'
+      : 'Number of parts must be a whole number of at least 1.'
+  ];
+}
+
+/** Row count of every part; equal parts differ by at most one row and none is empty. */
+export function partSizes(total: number, parts: ExportParts): number[] {
+  if (total <= 0) return [];
+  if (parts.by === 'rows') {
+    const count = Math.ceil(total / parts.size);
+    return Array.from({ length: count }, (_, idx) => Math.min(parts.size, total - idx * parts.size));
+  }
+  const count = Math.min(parts.size, total);
+  const base = Math.floor(total / count);
+  return Array.from({ length: count }, (_, idx) => base + (idx < total % count ? 1 : 0));
+}
+
+/**
+ * Writes every part as its own file, header row included, named `(rows)-base-part-01-of-12`, and
+ * bundles them in one ZIP. `data` starts with the header row.
+ */
+export async function buildExportParts(
+  data: any[][],
+  baseName: string,
+  options: { parts: ExportParts; fileType: 'csv' | 'xlsx'; sheetName: string }
+): Promise<PartsExport> {
+  const [header, ...rows] = data;
+  const sizes = partSizes(rows.length, options.parts);
+  const digits = Math.max(2, String(sizes.length).length);
+  const total = String(sizes.length).padStart(digits, '0');
+  let start = 0;
+  const files = sizes.map((size, idx) => {
+    const slice = rows.slice(start, start + size);
+    start += size;
+    return {
+      name: `(${slice.length})-${baseName}-part-${String(idx + 1).padStart(digits, '0')}-of-${total}`,
+      rows: [header, ...slice]
+    };
+  });
+
+  return {
+    blob: await zipExportFiles(files, options.fileType, options.sheetName),
+    fileName: `(${rows.length})-${baseName}_${sizes.length}_parts.zip`,
+    format: 'zip',
+    fileCount: sizes.length
+  };
+}
+
+/** One ZIP holding a CSV or single-sheet XLSX per file; `rows` start with the header row. */
+export async function zipExportFiles(
+  files: Array<{ name: string; rows: any[][] }>,
+  fileType: 'csv' | 'xlsx',
+  sheetName: string
+): Promise<Blob> {
+  const JSZipLib = await loadJsZip();
+  const zip = new JSZipLib();
+  for (const file of files) {
+    if (fileType === 'csv') {
+      zip.file(`${file.name}.csv`, zipInput(buildCsvBlob(file.rows)));
+      continue;
+    }
+    const [header, ...rows] = file.rows;
+    const workbook = new XlsxStreamWriter();
+    const sheet = workbook.addSheet(sheetName, header);
+    rows.forEach(row => sheet.write(row));
+    // Workbooks are already compressed.
+    zip.file(`${file.name}.xlsx`, zipInput(await workbook.toBlob()), { compression: 'STORE' });
+  }
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/zip',
+    compression: 'DEFLATE',
+    streamFiles: true
+  });
+}
@@ -0,0 +1,60 @@
+import { CleanOptions, cleanSources } from './cleaning-pipeline';
+import { ExportTemplate, formatNumber } from './export-templates';
+import { readBlobText, textBlob } from '../testing/blobs';
+
+describe('Export templates', () => {
+  it('should shape the export with a campaign template on both paths', async () => {
+    const rows = [
+      ['Name', 'Mobile', 'City'],
+      ['Asha', '9818202888', 'Delhi'],
+      ['Ravi', '+44 7911 123456', 'London'],
+      ['Asha again', '09818202888', 'Noida']
+    ];
+    const template: ExportTemplate = {
+      name: 'Gateway',
+      numberFormat: 'trunk',
+      fileType: 'csv',
+      columns: [
+        { header: 'phone', source: 'number' },
+        { header: 'city', source: 'column', value: 'CITY' },
+        { header: 'sender', source: 'static', value: 'ACME' },
+        { header: 'chat', source: 'waLink', value: 'Hi {name}' }
+      ]
+    };
+    const options: CleanOptions = {
+      fileName: 'leads',
+      exportMode: 'template',
+      mobile: { countryProfile: 'multi', multiCountryFallback: 'IN' },
+      sources: [
+        {
+          sourceId: 'leads',
+          fileName: 'leads',
+          sheetName: 'Sheet1',
+          headerRowIndex: 0,
+          headers: rows[0],
+          selectedColumns: [1],
+          selectedNameColumn: 0
+        }
+      ],
+      template
+    };
+    const yieldControl = () => Promise.resolve();
+    const expected = [
+      'phone,city,sender,chat',
+      '09818202888,Delhi,ACME,https://wa.me/919818202888?text=Hi%20Asha',
+      '07911123456,London,ACME,https://wa.me/447911123456?text=Hi%20Ravi'
+    ];
+    const lines = async (blob: Blob) => (await readBlobText(blob)).split('\r\n').filter(Boolean);
+
+    const fromRows = await cleanSources([{ rows }], options, { yieldControl });
+    const fromCsv = await cleanSources([{ csv: textBlob(rows.map(r => r.join(',')).join('\n')) }], options, {
+      yieldControl
+    });
+
+    expect(fromRows.format).toBe('csv');
+    expect(await lines(fromRows.blob!)).toEqual(expected);
+    expect(await lines(fromCsv.blob!)).toEqual(expected);
+    expect(formatNumber('+919818202888', 'countryCode')).toBe('919818202888');
+    expect(formatNumber('+9779812345678', 'national')).toBe('9812345678');
+  });
+});
@@ -0,0 +1,180 @@
+import { COUNTRY_CODES, COUNTRY_PROFILES } from './phone-profiles';
+import { OUTSIDE_INDIA, classifyIndianNumber } from './in-number-series';
+
+/** How the cleaned number is written: `+919818202888`, `919818202888`, `9818202888` or `09818202888`. */
+export type NumberFormat = 'e164' | 'countryCode' | 'national' | 'trunk';
+
+export type TemplateColumnSource =
+  | 'number'
+  | 'name'
+  | 'column'
+  | 'static'
+  | 'waLink'
+  | 'operator'
+  | 'circle'
+  | 'sourceFile';
+
+export interface TemplateColumn {
+  header: string;
+  source: TemplateColumnSource;
+  /**
+   * Header of the source column for `column`, the text for `static`, and the optional prefilled
+   * message for `waLink` (`{name}` is replaced by the contact name).
+   */
+  value?: string;
+}
+
+/** Output shape for campaign tools: one row per unique number, with the columns listed in order. */
+export interface ExportTemplate {
+  name: string;
+  numberFormat: NumberFormat;
+  fileType: 'csv' | 'xlsx';
+  columns: TemplateColumn[];
+}
+
+export interface TemplateRowContext {
+  number: string;
+  name: any;
+  row: any[];
+  fileName: string;
+}
+
+export const NUMBER_FORMAT_OPTIONS: Array<{ id: NumberFormat; label: string }> = [
+  { id: 'e164', label: 'With + and country code (+919818202888)' },
+  { id: 'countryCode', label: 'Country code, no + (919818202888)' },
+  { id: 'national', label: 'National number only (9818202888)' },
+  { id: 'trunk', label: 'With leading 0 (09818202888)' }
+];
+
+export const TEMPLATE_SOURCE_OPTIONS: Array<{ id: TemplateColumnSource; label: string }> = [
+  { id: 'number', label: 'Mobile number' },
+  { id: 'name', label: 'Name column' },
+  { id: 'column', label: 'Source column (by header)' },
+  { id: 'static', label: 'Fixed text' },
+  { id: 'waLink', label: 'WhatsApp link (wa.me)' },
+  { id: 'operator', label: 'Operator (India)' },
+  { id: 'circle', label: 'Circle (India)' },
+  { id: 'sourceFile', label: 'Source file name' }
+];
+
+/** Common gateway and broadcast upload layouts. */
+export const BUILT_IN_TEMPLATES: ExportTemplate[] = [
+  {
+    name: 'Bulk SMS - numbers only',
+    numberFormat: 'countryCode',
+    fileType: 'csv',
+    columns: [{ header: 'mobile', source: 'number' }]
+  },
+  {
+    name: 'Bulk SMS - mobile and name',
+    numberFormat: 'countryCode',
+    fileType: 'csv',
+    columns: [
+      { header: 'mobile', source: 'number' },
+      { header: 'name', source: 'name' }
+    ]
+  },
+  {
+    name: 'Bulk SMS - 10-digit numbers',
+    numberFormat: 'national',
+    fileType: 'csv',
+    columns: [{ header: 'Mobile', source: 'number' }]
+  },
+  {
+    name: 'WhatsApp broadcast',
+    numberFormat: 'countryCode',
+    fileType: 'csv',
+    columns: [
+      { header: 'Phone Number', source: 'number' },
+      { header: 'Name', source: 'name' }
+    ]
+  },
+  {
+    name: 'WhatsApp click-to-chat links',
+    numberFormat: 'e164',
+    fileType: 'xlsx',
+    columns: [
+      { header: 'Name', source: 'name' },
+      { header: 'Mobile', source: 'number' },
+      { header: 'WhatsApp', source: 'waLink', value: 'Hi {name}' }
+    ]
+  }
+];
+
+const PROFILES_BY_DIAL_CODE = COUNTRY_CODES.map(code => COUNTRY_PROFILES[code]).sort(
+  (a, b) => b.dialCode.length - a.dialCode.length
+);
+
+export function formatNumber(e164: string, format: NumberFormat): string {
+  const digits = e164.replace(/^\+/, '');
+  if (format === 'e164') return `+${digits}`;
+  if (format === 'countryCode') return digits;
+  const profile = PROFILES_BY_DIAL_CODE.find(p => digits.startsWith(p.dialCode));
+  if (!profile) return digits;
+  const national = digits.slice(profile.dialCode.length);
+  return format === 'trunk' ? `${profile.trunkPrefixes[0] ?? ''}${national}` : national;
+}
+
+export function templateUsesName(template: ExportTemplate): boolean {
+  return template.columns.some(
+    column => column.source === 'name' || (column.source === 'waLink' && !!column.value?.includes('{name}'))
+  );
+}
+
+/** Problems that would make the template produce an unusable file. */
+export function validateTemplate(template: ExportTemplate): string[] {
+  const problems: string[] = [];
+  if (!template.columns.length) problems.push('The template has no columns.');
+  if (!template.columns.some(column => column.source === 'number' || column.source === 'waLink')) {
+    problems.push('The template needs a mobile number or WhatsApp link column.');
+  }
+  template.columns.forEach((column, idx) => {
+    if (!column.header.trim()) problems.push(`Column ${idx + 1} has no header.`);
+    if (column.source === 'column' && !column.value?.trim()) {
+      problems.push(`Column ${idx + 1} needs the header of the source column to copy.`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Builds the row writer for one source. Source columns are matched by header text, ignoring case;
+ * columns the source does not have are left blank.
+ */
+export function compileTemplate(template: ExportTemplate, headers: string[]): (context: TemplateRowContext) => any[] {
+  const headerIndex = new Map<string, number>();
+  headers.forEach((header, idx) => {
+    const key = String(header ?? '').trim().toLowerCase();
+    if (!headerIndex.has(key)) headerIndex.set(key, idx);
+  });
+
+  const cells = template.columns.map(column => {
+    const value = column.value ?? '';
+    switch (column.source) {
+      case 'number':
+        return ({ number }: TemplateRowContext) => formatNumber(number, template.numberFormat);
+      case 'name':
+        return ({ name }: TemplateRowContext) => name ?? '';
+      case 'column': {
+        const idx = headerIndex.get(value.trim().toLowerCase());
+        return ({ row }: TemplateRowContext) => (idx === undefined ? '' : row[idx] ?? '');
+      }
+      case 'static':
+        return () => value;
+      case 'waLink':
+        return ({ number, name }: TemplateRowContext) => {
+          const text = value.replace(/\{name\}/g, String(name ?? '').trim()).trim();
+          const link = `https://wa.me/${formatNumber(number, 'countryCode')}`;
+          return text ? `${link}?text=${encodeURIComponent(text)}` : link;
+        };
+      case 'operator':
+        return ({ number }: TemplateRowContext) => classifyIndianNumber(number)?.operator ?? '';
+      case 'circle':
+        return ({ number }: TemplateRowContext) => classifyIndianNumber(number)?.circle ?? OUTSIDE_INDIA;
+      case 'sourceFile':
+        return ({ fileName }: TemplateRowContext) => fileName;
+    }
+  });
+
+  return context => cells.map(cell => cell(context));
+}
@@ -0,0 +1,36 @@
+import { cleanSources } from './cleaning-pipeline';
+import { readBlobText, textBlob } from '../testing/blobs';
+
+describe('Indian number series', () => {
+  it('should add operator and circle columns and keep only selected circles', async () => {
+    const csv = textBlob('Mobile\n9818202888\n9820123456\n9845123456\n9000000001\n');
+    const result = await cleanSources(
+      [{ csv }],
+      {
+        fileName: 'leads',
+        exportMode: 'unique',
+        mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+        sources: [
+          {
+            sourceId: 'leads',
+            fileName: 'leads',
+            sheetName: 'CSV',
+            headerRowIndex: 0,
+            headers: ['Mobile'],
+            selectedColumns: [0],
+            selectedNameColumn: null
+          }
+        ],
+        outputFormat: 'csv',
+        numberSeries: { addColumns: true, keepCircles: ['Delhi', 'Mumbai'] }
+      },
+      { yieldControl: () => Promise.resolve() }
+    );
+
+    expect(await readBlobText(result.blob!)).toBe(
+      'Mobile_Number,Operator,Circle\r\n+919818202888,Airtel,Delhi\r\n+919820123456,Vodafone,Mumbai\r\n'
+    );
+    expect(result.stats.outsideCircles).toBe(2);
+    expect(result.circleCounts).toEqual({ Delhi: 1, Mumbai: 1 });
+  });
+});
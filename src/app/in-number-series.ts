@@ -0,0 +1,98 @@
+/**
+ * Offline lookup of Indian mobile number series (the leading digits of the 10-digit national
+ * number) to the operator and telecom circle they were originally allocated to.
+ * Ported numbers keep their series, so the result describes the allocation, not the current network.
+ * To cover more series, add their prefixes (4 or 5 digits) under the right circle and operator.
+ */
+
+export const UNKNOWN_SERIES = 'Unknown';
+/** Circle reported for valid numbers of other countries in multi-country runs. */
+export const OUTSIDE_INDIA = 'Outside India';
+
+export interface NumberSeriesInfo {
+  operator: string;
+  circle: string;
+}
+
+export const INDIAN_CIRCLES: Record<string, string> = {
+  AP: 'Andhra Pradesh',
+  AS: 'Assam',
+  BR: 'Bihar & Jharkhand',
+  DL: 'Delhi',
+  GJ: 'Gujarat',
+  HP: 'Himachal Pradesh',
+  HR: 'Haryana',
+  JK: 'Jammu & Kashmir',
+  KA: 'Karnataka',
+  KL: 'Kerala',
+  KO: 'Kolkata',
+  MH: 'Maharashtra & Goa',
+  MP: 'Madhya Pradesh & Chhattisgarh',
+  MU: 'Mumbai',
+  NE: 'North East',
+  OR: 'Odisha',
+  PB: 'Punjab',
+  RJ: 'Rajasthan',
+  TN: 'Tamil Nadu',
+  UE: 'UP East',
+  UW: 'UP West',
+  WB: 'West Bengal'
+};
+
+/** Circle code -> operator -> space-separated series prefixes. */
+const SERIES: Record<string, Record<string, string>> = {
+  AP: { Airtel: '9849 9866', Idea: '9848', Vodafone: '9885', BSNL: '9440 9441' },
+  AS: { Airtel: '9864', BSNL: '9435' },
+  BR: { Airtel: '9934', BSNL: '9431' },
+  DL: {
+    Airtel: '9810 9818 9871 9910 9958 9711 9717',
+    Vodafone: '9811 9873 9899 9953',
+    Idea: '9891 9911',
+    MTNL: '9868'
+  },
+  GJ: { Airtel: '9898', Idea: '9824', Vodafone: '9825 9879', BSNL: '9426 9427' },
+  HP: { Airtel: '9816', BSNL: '9418' },
+  HR: { Airtel: '9896', Idea: '9812', Vodafone: '9813', BSNL: '9416' },
+  JK: { Airtel: '9906', BSNL: '9419' },
+  KA: { Airtel: '9845 9900', Idea: '9844', Vodafone: '9886', BSNL: '9448 9449' },
+  KL: { Airtel: '9895', Idea: '9847', Vodafone: '9846', BSNL: '9446 9447' },
+  KO: { Airtel: '9831', Vodafone: '9830 9836', BSNL: '9433' },
+  MH: { Airtel: '9860 9890', Idea: '9822 9850', Vodafone: '9823', BSNL: '9422 9423' },
+  MP: { Airtel: '9827 9893', Idea: '9826', BSNL: '9425' },
+  MU: { Airtel: '9867 9892', Vodafone: '9819 9820 9833', MTNL: '9869' },
+  NE: { Airtel: '9862', BSNL: '9436' },
+  OR: { Airtel: '9861', BSNL: '9437' },
+  PB: { Airtel: '9815 9876', Idea: '9814 9855', BSNL: '9417' },
+  RJ: { Airtel: '9829', Vodafone: '9828', BSNL: '9414' },
+  TN: { Airtel: '9840', Aircel: '9841 9842', Vodafone: '9884', BSNL: '9443 9444' },
+  UE: { Vodafone: '9839', BSNL: '9415 9450' },
+  UW: { Airtel: '9897', Idea: '9837', BSNL: '9412' },
+  WB: { BSNL: '9434' }
+};
+
+const SERIES_LOOKUP = buildLookup();
+
+function buildLookup(): Map<string, NumberSeriesInfo> {
+  const lookup = new Map<string, NumberSeriesInfo>();
+  for (const [circleCode, operators] of Object.entries(SERIES)) {
+    for (const [operator, prefixes] of Object.entries(operators)) {
+      for (const prefix of prefixes.split(' ')) {
+        lookup.set(prefix, { operator, circle: INDIAN_CIRCLES[circleCode] });
+      }
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Operator and circle for a cleaned `+91` number; `Unknown` when its series is not in the table.
+ * Returns null for numbers of other countries.
+ */
+export function classifyIndianNumber(e164: string): NumberSeriesInfo | null {
+  if (!e164.startsWith('+91') || e164.length !== 13) return null;
+  const national = e164.slice(3);
+  return (
+    SERIES_LOOKUP.get(national.slice(0, 5)) ??
+    SERIES_LOOKUP.get(national.slice(0, 4)) ?? { operator: UNKNOWN_SERIES, circle: UNKNOWN_SERIES }
+  );
+}
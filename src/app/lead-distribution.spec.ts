@@ -0,0 +1,67 @@
+import { CleanOptions, cleanSources } from './cleaning-pipeline';
+import { loadJsZip } from './workbook-utils';
+import { readBlobBuffer, readBlobText, textBlob } from '../testing/blobs';
+
+describe('Lead distribution', () => {
+  it('should distribute exported rows among agents by weight or by circle', async () => {
+    const csv = textBlob(
+      'Mobile,Name\n9818202888,A\n9820123456,B\n9810000001,C\n9833000002,D\n+91 98182 02888,E\n9811000003,F\n'
+    );
+    const options: CleanOptions = {
+      fileName: 'leads',
+      exportMode: 'full',
+      mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+      sources: [
+        {
+          sourceId: 'leads',
+          fileName: 'leads',
+          sheetName: 'CSV',
+          headerRowIndex: 0,
+          headers: ['Mobile', 'Name'],
+          selectedColumns: [0],
+          selectedNameColumn: null
+        }
+      ],
+      outputFormat: 'csv',
+      duplicates: 'last',
+      distribution: {
+        agents: [{ name: 'Asha', weight: 2 }, { name: 'Ravi' }],
+        method: 'roundRobin',
+        output: 'column'
+      }
+    };
+    const yieldControl = () => Promise.resolve();
+
+    const weighted = await cleanSources([{ csv }], options, { yieldControl });
+    expect(await readBlobText(weighted.blob!)).toBe(
+      'Mobile,Name,Assigned_To\r\n' +
+        '+919818202888,E,Asha\r\n' +
+        '+919820123456,B,Ravi\r\n' +
+        '+919810000001,C,Asha\r\n' +
+        '+919833000002,D,Asha\r\n' +
+        '+919811000003,F,Ravi\r\n'
+    );
+    expect(weighted.assignmentCounts).toEqual({ Asha: 3, Ravi: 2 });
+
+    const byCircle = await cleanSources(
+      [{ csv }],
+      {
+        ...options,
+        distribution: {
+          agents: [{ name: 'North', values: ['Delhi'] }, { name: 'West', values: ['Mumbai'] }],
+          method: 'circle',
+          output: 'perAgent'
+        }
+      },
+      { yieldControl }
+    );
+    expect(byCircle.fileName).toBe('(5)-leads_by_agent.zip');
+    expect(byCircle.assignmentCounts).toEqual({ North: 3, West: 2 });
+    const JSZipLib = await loadJsZip();
+    const zip = await JSZipLib.loadAsync(await readBlobBuffer(byCircle.blob!));
+    expect(Object.keys(zip.files)).toEqual(['(3)-leads-North.csv', '(2)-leads-West.csv']);
+    expect(await zip.file('(2)-leads-West.csv')!.async('string')).toBe(
+      '\uFEFFMobile,Name\r\n+919820123456,B\r\n+919833000002,D'
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { OUTSIDE_INDIA, classifyIndianNumber } from './in-number-series';
+import { PartsExport, zipExportFiles } from './export-parts';
+
+export interface DistributionAgent {
+  name: string;
+  /** Relative share of the rows (default 1): an agent with weight 2 gets twice as many. */
+  weight?: number;
+  /** Circles or column values always given to this agent (`circle` and `column` methods). */
+  values?: string[];
+}
+
+/**
+ * Divides exported rows among agents or teams. `roundRobin` and `random` spread the rows by weight;
+ * `circle` and `column` give every row with the same circle / column value to the same agent.
+ */
+export interface LeadDistribution {
+  agents: DistributionAgent[];
+  method: 'roundRobin' | 'random' | 'circle' | 'column';
+  /** Header of the source column used by the `column` method. */
+  column?: string;
+  /** `column` adds an Assigned_To column; `perAgent` writes one file per agent in a ZIP. */
+  output: 'column' | 'perAgent';
+  /** Seed of the `random` method, so a run can be repeated. */
+  seed?: number;
+}
+
+export const DISTRIBUTION_METHOD_OPTIONS: Array<{ id: LeadDistribution['method']; label: string }> = [
+  { id: 'roundRobin', label: 'Round-robin' },
+  { id: 'random', label: 'Random' },
+  { id: 'circle', label: 'By circle (India)' },
+  { id: 'column', label: 'By column value' }
+];
+
+/** Problems that would make the distribution unusable. */
+export function validateDistribution(distribution: LeadDistribution): string[] {
+  const problems: string[] = [];
+  const names = distribution.agents.map(agent => agent.name.trim());
+  if (!names.length) problems.push('Add at least one agent to distribute the leads to.');
+  if (names.some(name => !name)) problems.push('Every agent needs a name.');
+  if (new Set(names.map(name => name.toLowerCase())).size !== names.length) {
+    problems.push('Agent names must be unique.');
+  }
+  if (distribution.agents.some(agent => !(Number(agent.weight ?? 1) > 0))) {
+    problems.push('Agent weights must be numbers greater than 0.');
+  }
+  if (distribution.method === 'column' && !distribution.column?.trim()) {
+    problems.push('Choose the column whose values decide the agent.');
+  }
+  return problems;
+}
+
+/**
+ * Assigns rows as they are exported. Weighted round-robin interleaves the agents smoothly
+ * (weights 2:1 give A, B, A, A, B, A, ...), and a value keeps the agent of its first row.
+ */
+export class LeadDistributor {
+  /** Rows assigned per agent, in agent order. */
+  readonly counts: Record<string, number> = {};
+  private readonly names: string[];
+  private readonly weights: number[];
+  private readonly totalWeight: number;
+  private readonly current: number[];
+  private readonly columns: Array<number | undefined>;
+  private readonly byValue = new Map<string, string>();
+  private readonly random: () => number;
+
+  constructor(
+    private readonly distribution: LeadDistribution,
+    sourceHeaders: string[][]
+  ) {
+    this.names = distribution.agents.map(agent => agent.name.trim());
+    this.weights = distribution.agents.map(agent => Number(agent.weight ?? 1));
+    this.totalWeight = this.weights.reduce((sum, weight) => sum + weight, 0);
+    this.current = this.weights.map(() => 0);
+    this.names.forEach(name => (this.counts[name] = 0));
+    distribution.agents.forEach((agent, idx) => {
+      for (const value of agent.values ?? []) {
+        const key = valueKey(value);
+        if (key && !this.byValue.has(key)) this.byValue.set(key, this.names[idx]);
+      }
+    });
+    const column = valueKey(distribution.column);
+    this.columns = sourceHeaders.map(headers => {
+      const idx = headers.findIndex(header => valueKey(header) === column);
+      return idx === -1 ? undefined : idx;
+    });
+    this.random = seededRandom(distribution.seed ?? Date.now());
+  }
+
+  /** Agent for one exported row; `number` is the row's cleaned number. */
+  assign(sourceIndex: number, number: string | undefined, row: any[]): string {
+    const key = valueKey(this.valueOf(sourceIndex, number, row));
+    let agent = key ? this.byValue.get(key) : undefined;
+    if (!agent) {
+      agent = this.next();
+      if (key) this.byValue.set(key, agent);
+    }
+    this.counts[agent]++;
+    return agent;
+  }
+
+  private valueOf(sourceIndex: number, number: string | undefined, row: any[]): any {
+    if (this.distribution.method === 'circle') {
+      if (!number) return '';
+      return classifyIndianNumber(number)?.circle ?? OUTSIDE_INDIA;
+    }
+    if (this.distribution.method === 'column') {
+      const col = this.columns[sourceIndex];
+      return col === undefined ? '' : row[col];
+    }
+    return '';
+  }
+
+  private next(): string {
+    if (this.distribution.method === 'random') {
+      let pick = this.random() * this.totalWeight;
+      const idx = this.weights.findIndex(weight => (pick -= weight) < 0);
+      return this.names[idx === -1 ? this.names.length - 1 : idx];
+    }
+    let best = 0;
+    this.weights.forEach((weight, idx) => {
+      this.current[idx] += weight;
+      if (this.current[idx] > this.current[best]) best = idx;
+    });
+    this.current[best] -= this.totalWeight;
+    return this.names[best];
+  }
+}
+
+/**
+ * One file per agent, named `(rows)-base-Agent`, bundled in a ZIP. `data` starts with the header
+ * row and every row ends with its agent, which is left out of the files.
+ */
+export async function buildAgentExport(
+  data: any[][],
+  baseName: string,
+  options: { fileType: 'csv' | 'xlsx'; sheetName: string }
+): Promise<PartsExport> {
+  const [header, ...rows] = data;
+  const byAgent = new Map<string, any[][]>();
+  for (const row of rows) {
+    const agent = String(row[row.length - 1] || 'Unassigned');
+    if (!byAgent.has(agent)) byAgent.set(agent, []);
+    byAgent.get(agent)!.push(row.slice(0, -1));
+  }
+  const files = [...byAgent].map(([agent, agentRows]) => ({
+    name: `(${agentRows.length})-${baseName}-${agent.replace(/[\\/:*?"<>|]/g, '_')}`,
+    rows: [header.slice(0, -1), ...agentRows]
+  }));
+
+  return {
+    blob: await zipExportFiles(files, options.fileType, options.sheetName),
+    fileName: `(${rows.length})-${baseName}_by_agent.zip`,
+    format: 'zip',
+    fileCount: files.length
+  };
+}
+
+function valueKey(value: any): string {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+/** mulberry32: small, fast and good enough to shuffle leads. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,66 @@
+import { EMPTY_VALIDATION_RULES, ValidationRules } from './validation-rules';
+import { ExportTemplate } from './export-templates';
+import { CleaningRecipe, normalizeRecipe } from './cleaning-recipes';
+
+/** A named set of validation rules saved in this browser's local storage. */
+export interface RuleSet {
+  name: string;
+  rules: ValidationRules;
+}
+
+const RULE_SETS_KEY = 'excel-mobile-cleaner.ruleSets';
+const EXPORT_TEMPLATES_KEY = 'excel-mobile-cleaner.exportTemplates';
+const RECIPES_KEY = 'excel-mobile-cleaner.recipes';
+
+export function loadRuleSets(): RuleSet[] {
+  return readList(RULE_SETS_KEY).map(set => ({
+    name: String(set.name),
+    rules: { ...EMPTY_VALIDATION_RULES, ...set.rules }
+  }));
+}
+
+export function saveRuleSets(sets: RuleSet[]) {
+  writeList(RULE_SETS_KEY, sets, 'validation rule sets');
+}
+
+export function loadExportTemplates(): ExportTemplate[] {
+  return readList(EXPORT_TEMPLATES_KEY)
+    .filter(template => Array.isArray(template?.columns))
+    .map(template => ({
+      name: String(template.name),
+      numberFormat: template.numberFormat ?? 'e164',
+      fileType: template.fileType === 'xlsx' ? 'xlsx' : 'csv',
+      columns: template.columns
+    }));
+}
+
+export function saveExportTemplates(templates: ExportTemplate[]) {
+  writeList(EXPORT_TEMPLATES_KEY, templates, 'export templates');
+}
+
+export function loadRecipes(): CleaningRecipe[] {
+  return readList(RECIPES_KEY)
+    .map(normalizeRecipe)
+    .filter((recipe): recipe is CleaningRecipe => !!recipe);
+}
+
+export function saveRecipes(recipes: CleaningRecipe[]) {
+  writeList(RECIPES_KEY, recipes, 'cleaning recipes');
+}
+
+function readList(key: string): any[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList(key: string, list: unknown[], label: string) {
+  try {
+    localStorage.setItem(key, JSON.stringify(list));
+  } catch (error) {
+    console.warn(`Could not save ${label}.`, error);
+  }
+}
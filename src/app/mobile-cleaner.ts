@@ -0,0 +1,168 @@
+import {
+  COUNTRY_CODES,
+  COUNTRY_PROFILES,
+  CountryCode,
+  CountryProfileId,
+  MobileMatch,
+  digitRunPattern,
+  matchMobile,
+  stripInternationalPrefix
+} from './phone-profiles';
+import { ValidationRules, compileRules } from './validation-rules';
+
+export type MobileCleanReason = 'valid' | 'invalidPattern' | 'invalidLength' | 'foreignCountry' | 'empty';
+
+export interface MobileCleanDetail {
+  cleaned: string | null;
+  cleanedNumbers: string[];
+  foreignNumbers: string[];
+  reason: MobileCleanReason;
+  /** For `invalidPattern`: the built-in pattern or custom rule that rejected the value. */
+  rule?: string;
+}
+
+export interface MobileCleanerOptions {
+  countryProfile: CountryProfileId;
+  multiCountryFallback: CountryCode;
+  /** User-defined checks applied on top of the country profile. */
+  rules?: ValidationRules;
+}
+
+const ALL_PROFILES = COUNTRY_CODES.map(code => COUNTRY_PROFILES[code]);
+const ALL_PROFILES_RUN_PATTERN = digitRunPattern(ALL_PROFILES);
+const PROFILE_RUN_PATTERNS = new Map(ALL_PROFILES.map(p => [p.code, digitRunPattern([p])]));
+
+/** Normalizes raw cell values into E.164 mobile numbers for the configured country profile. */
+export class MobileCleaner {
+  private readonly customRule: ((match: MobileMatch) => string | null) | null;
+
+  constructor(readonly options: MobileCleanerOptions) {
+    this.customRule = options.rules ? compileRules(options.rules) : null;
+  }
+
+  cleanDetailed(value: any): MobileCleanDetail {
+    if (value === null || value === undefined || value === '') {
+      return { cleaned: null, cleanedNumbers: [], foreignNumbers: [], reason: 'empty' };
+    }
+
+    const cleanedNumbers = this.extractValidMobiles(value, 2);
+    if (cleanedNumbers.length > 0) {
+      return { cleaned: cleanedNumbers[0], cleanedNumbers, foreignNumbers: [], reason: 'valid' };
+    }
+
+    const str = toMobileDigits(value);
+    if (!str) {
+      return { cleaned: null, cleanedNumbers: [], foreignNumbers: [], reason: 'invalidLength' };
+    }
+
+    // Valid numbers from a country other than the active profile get their own category.
+    const foreignNumbers = this.findForeignMobiles(str);
+    if (foreignNumbers.length > 0) {
+      return { cleaned: null, cleanedNumbers: [], foreignNumbers, reason: 'foreignCountry' };
+    }
+
+    const matches = str.match(this.activeRunPattern());
+    if (!matches) {
+      return { cleaned: null, cleanedNumbers: [], foreignNumbers: [], reason: 'invalidLength' };
+    }
+
+    const rejected = matches.map(num => this.matchActiveProfile(num)).find(match => match !== null);
+
+    return {
+      cleaned: null,
+      cleanedNumbers: [],
+      foreignNumbers: [],
+      reason: rejected ? 'invalidPattern' : 'invalidLength',
+      rule: rejected?.rule
+    };
+  }
+
+  extractValidMobiles(value: any, maxNumbers = 2): string[] {
+    const str = toMobileDigits(value);
+    if (!str) return [];
+
+    const matches = str.match(this.activeRunPattern());
+    if (!matches) return [];
+
+    const result: string[] = [];
+    for (const num of matches) {
+      const match = this.matchActiveProfile(num);
+      if (!match?.valid) continue;
+
+      if (!result.includes(match.e164)) {
+        result.push(match.e164);
+        if (result.length >= maxNumbers) break;
+      }
+    }
+    return result;
+  }
+
+  private matchActiveProfile(digits: string): MobileMatch | null {
+    const match = this.matchProfiles(digits);
+    const rule = match?.valid && this.customRule ? this.customRule(match) : null;
+    return rule ? { ...match!, valid: false, rule } : match;
+  }
+
+  private matchProfiles(digits: string): MobileMatch | null {
+    const { countryProfile, multiCountryFallback } = this.options;
+    if (countryProfile !== 'multi') {
+      return matchMobile(digits, COUNTRY_PROFILES[countryProfile]);
+    }
+
+    // Multi-country: accept any dial-code-prefixed number, otherwise read it as the fallback country.
+    for (const profile of ALL_PROFILES) {
+      const match = matchMobile(digits, profile, true);
+      if (match?.valid) return match;
+    }
+    return matchMobile(digits, COUNTRY_PROFILES[multiCountryFallback]);
+  }
+
+  private findForeignMobiles(digits: string): string[] {
+    const { countryProfile } = this.options;
+    if (countryProfile === 'multi') return [];
+
+    const matches = digits.match(ALL_PROFILES_RUN_PATTERN);
+    if (!matches) return [];
+
+    const result: string[] = [];
+    for (const num of matches) {
+      for (const profile of ALL_PROFILES) {
+        if (profile.code === countryProfile) continue;
+        const match = matchMobile(num, profile, true);
+        if (match?.valid && !result.includes(match.e164)) result.push(match.e164);
+      }
+    }
+    return result;
+  }
+
+  private activeRunPattern(): RegExp {
+    const { countryProfile } = this.options;
+    return countryProfile === 'multi' ? ALL_PROFILES_RUN_PATTERN : PROFILE_RUN_PATTERNS.get(countryProfile)!;
+  }
+}
+
+function toMobileDigits(value: any): string {
+  const digits = normalizeMobileSource(value).replace(/[^0-9]/g, '');
+  return stripInternationalPrefix(digits, ALL_PROFILES);
+}
+
+function normalizeMobileSource(value: any): string {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return numberToPlainString(value);
+  }
+
+  const text = String(value).trim();
+  if (/^[+-]?\d+(\.\d+)?e[+-]?\d+$/i.test(text)) {
+    const parsed = Number(text);
+    if (Number.isFinite(parsed)) {
+      return numberToPlainString(parsed);
+    }
+  }
+
+  return text;
+}
+
+function numberToPlainString(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+}
@@ -0,0 +1,68 @@
+import { decryptPackage, encryptedPackage, unlockWorkbook } from './office-crypto';
+import * as XLSX from 'xlsx';
+
+describe('Office encryption', () => {
+  it('should ask for the password of an encrypted XLSX, reject a wrong one and decrypt with the right one', async () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['Name', 'Mobile'], ['A', '9818202888']]), 'Leads');
+    const workbook = new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+
+    // Agile encryption as Excel writes it, with a small spin count to keep the test quick.
+    const join = (...parts: Uint8Array[]) => {
+      const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+      parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+      return out;
+    };
+    const sha512 = async (...parts: Uint8Array[]) =>
+      new Uint8Array(await crypto.subtle.digest('SHA-512', join(...parts) as BufferSource));
+    const uint32 = (value: number) => new Uint8Array([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24]);
+    const padded = (data: Uint8Array) => join(data, new Uint8Array((16 - (data.length % 16)) % 16));
+    const encrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array) => {
+      const cryptoKey = await crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, ['encrypt']);
+      const out = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, padded(data) as BufferSource));
+      return out.subarray(0, padded(data).length);
+    };
+    const base64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+    const [passwordSalt, keySalt, verifier] = [1, 2, 3].map(seed => new Uint8Array(16).fill(seed * 17));
+    const secret = new Uint8Array(32).map((_, i) => i * 7);
+
+    let hash = await sha512(passwordSalt, new Uint8Array(Array.from('Vendor#24', ch => [ch.charCodeAt(0), 0]).flat()));
+    for (let i = 0; i < 500; i++) hash = await sha512(uint32(i), hash);
+    const keyFor = async (...block: number[]) => (await sha512(hash, new Uint8Array(block))).subarray(0, 32);
+    const segments: Uint8Array[] = [];
+    for (let offset = 0; offset < workbook.length; offset += 4096) {
+      const iv = (await sha512(keySalt, uint32(offset / 4096))).subarray(0, 16);
+      segments.push(await encrypt(secret, iv, workbook.subarray(offset, offset + 4096)));
+    }
+    const params = (salt: Uint8Array) =>
+      'saltSize="16" blockSize="16" keyBits="256" hashSize="64" cipherAlgorithm="AES" ' +
+      `cipherChaining="ChainingModeCBC" hashAlgorithm="SHA512" saltValue="${base64(salt)}"`;
+    const xml =
+      `<encryption xmlns:p="http://schemas.microsoft.com/office/2006/keyEncryptor/password"><keyData ${params(keySalt)}/>` +
+      `<keyEncryptors><keyEncryptor><p:encryptedKey spinCount="500" ${params(passwordSalt)} ` +
+      `encryptedVerifierHashInput="${base64(await encrypt(await keyFor(0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79), passwordSalt, verifier))}" ` +
+      `encryptedVerifierHashValue="${base64(await encrypt(await keyFor(0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e), passwordSalt, await sha512(verifier)))}" ` +
+      `encryptedKeyValue="${base64(await encrypt(await keyFor(0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6), passwordSalt, secret))}"/>` +
+      '</keyEncryptor></keyEncryptors></encryption>';
+    const cfb = XLSX.CFB.utils.cfb_new();
+    XLSX.CFB.utils.cfb_add(cfb, 'EncryptionInfo', join(new Uint8Array([4, 0, 4, 0, 0x40, 0, 0, 0]), new TextEncoder().encode(xml)));
+    XLSX.CFB.utils.cfb_add(cfb, 'EncryptedPackage', join(uint32(workbook.length), uint32(0), ...segments));
+    const encrypted = new Uint8Array(XLSX.CFB.write(cfb, { type: 'array' }));
+    const file = {
+      size: encrypted.length,
+      slice: (start = 0, end = encrypted.length) => ({ arrayBuffer: async () => encrypted.slice(start, end).buffer }),
+      arrayBuffer: async () => encrypted.buffer
+    } as unknown as Blob;
+
+    expect(await unlockWorkbook(file)).toEqual({
+      passwordRequired: true,
+      error: 'This file is password-protected. Enter its password to open it.'
+    });
+    expect((await unlockWorkbook(file, 'vendor#24')).error).toBe('Incorrect password. Please check it and try again.');
+
+    const decrypted = await decryptPackage((await encryptedPackage(encrypted))!, 'Vendor#24');
+    expect(decrypted).toEqual(workbook);
+    const reopened = XLSX.read(decrypted!, { type: 'array' });
+    expect(XLSX.utils.sheet_to_json(reopened.Sheets['Leads'], { header: 1 })).toEqual([['Name', 'Mobile'], ['A', '9818202888']]);
+  });
+});
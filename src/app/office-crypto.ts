@@ -0,0 +1,283 @@
+import { loadXlsx } from './workbook-utils';
+
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const AES_BLOCK = 16;
+const SEGMENT_BYTES = 4096;
+const STANDARD_SPIN_COUNT = 50000;
+
+/** Block keys of [MS-OFFCRYPTO] 2.3.4.13, one per key derived from the password. */
+const VERIFIER_INPUT_BLOCK = [0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79];
+const VERIFIER_VALUE_BLOCK = [0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e];
+const KEY_VALUE_BLOCK = [0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6];
+
+const HASHES: Record<string, string> = { SHA1: 'SHA-1', SHA256: 'SHA-256', SHA384: 'SHA-384', SHA512: 'SHA-512' };
+const STANDARD_AES_IDS = [0x660e, 0x660f, 0x6610];
+
+/** Encryption an Office document was saved with that this reader cannot undo. */
+export class UnsupportedEncryptionError extends Error {}
+
+/** Parameters of one `keyData` or `encryptedKey` element of Agile encryption. */
+interface AgileParams {
+  hash: string;
+  salt: Uint8Array;
+  blockSize: number;
+  keyBits: number;
+}
+
+/** Whether the bytes are an OLE container, the format Office saves password-protected workbooks in. */
+export function isCompoundFile(data: Uint8Array): boolean {
+  return CFB_SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * The OLE streams of a password-protected XLSX, XLSM or XLSB ([MS-OFFCRYPTO] 2.3.4.4), or null for
+ * other OLE files such as legacy .xls workbooks.
+ */
+export async function encryptedPackage(
+  data: Uint8Array
+): Promise<{ info: Uint8Array; content: Uint8Array } | null> {
+  if (!isCompoundFile(data)) return null;
+  const XLSX = await loadXlsx();
+  const cfb = XLSX.CFB.read(data, { type: 'array' });
+  const info = XLSX.CFB.find(cfb, '/EncryptionInfo')?.content;
+  const content = XLSX.CFB.find(cfb, '/EncryptedPackage')?.content;
+  if (!info || !content) return null;
+  return { info: toBytes(info), content: toBytes(content) };
+}
+
+/**
+ * Decrypts the workbook inside an ECMA-376 encrypted package with Web Crypto, supporting the
+ * Agile (Office 2010 and later) and Standard (Office 2007) AES schemes. Resolves to the ZIP bytes of
+ * the workbook, or null when the password is wrong. Throws `UnsupportedEncryptionError` for other
+ * schemes.
+ */
+export async function decryptPackage(
+  encrypted: { info: Uint8Array; content: Uint8Array },
+  password: string
+): Promise<Uint8Array | null> {
+  const { info, content } = encrypted;
+  const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+  const major = view.getUint16(0, true);
+  const minor = view.getUint16(2, true);
+  if (major === 4 && minor === 4) return decryptAgile(info, content, password);
+  if ((major === 2 || major === 3 || major === 4) && minor === 2) return decryptStandard(view, content, password);
+  throw new UnsupportedEncryptionError(`Unsupported encryption version ${major}.${minor}`);
+}
+
+/**
+ * The upload itself, or the workbook decrypted from it when it is a password-protected package.
+ * Asks for the password with `passwordRequired` when none or a wrong one is given.
+ */
+export async function unlockWorkbook(
+  file: Blob,
+  password?: string
+): Promise<{ file?: Blob; error?: string; passwordRequired?: boolean }> {
+  if (!isCompoundFile(new Uint8Array(await file.slice(0, CFB_SIGNATURE.length).arrayBuffer()))) return { file };
+  const encrypted = await encryptedPackage(new Uint8Array(await file.arrayBuffer()));
+  if (!encrypted) return { file };
+  if (!password) {
+    return { passwordRequired: true, error: 'This file is password-protected. Enter its password to open it.' };
+  }
+
+  try {
+    const data = await decryptPackage(encrypted, password);
+    if (!data) return { passwordRequired: true, error: 'Incorrect password. Please check it and try again.' };
+    return { file: new Blob([data as BlobPart]) };
+  } catch (error) {
+    if (!(error instanceof UnsupportedEncryptionError)) throw error;
+    console.warn('Unsupported workbook encryption:', error.message);
+    return {
+      error: 'This file uses an encryption type that cannot be opened here. Please remove the password in Excel and try again.'
+    };
+  }
+}
+
+/* ================= AGILE ENCRYPTION ================= */
+
+async function decryptAgile(info: Uint8Array, content: Uint8Array, password: string): Promise<Uint8Array | null> {
+  const xml = new TextDecoder('utf-8').decode(info.subarray(8));
+  const keyData = agileElement(xml, 'keyData');
+  const encryptor = agileElement(xml, 'encryptedKey');
+  if (!keyData || !encryptor) throw new UnsupportedEncryptionError('Only password encryption is supported');
+
+  const keyParams = agileParams(keyData);
+  const passwordParams = agileParams(encryptor);
+  const spinCount = Number(encryptor['spinCount']);
+
+  let hash = await digest(passwordParams.hash, concat(passwordParams.salt, utf16le(password)));
+  for (let i = 0; i < spinCount; i++) {
+    hash = await digest(passwordParams.hash, concat(uint32le(i), hash));
+  }
+  const keyFor = async (block: number[]) =>
+    aesKey(fit(await digest(passwordParams.hash, concat(hash, new Uint8Array(block))), passwordParams.keyBits / 8));
+  const iv = fit(passwordParams.salt, passwordParams.blockSize);
+
+  const verifierInput = await decryptCbc(
+    await keyFor(VERIFIER_INPUT_BLOCK),
+    iv,
+    base64Bytes(encryptor['encryptedVerifierHashInput'])
+  );
+  const verifierHash = await decryptCbc(
+    await keyFor(VERIFIER_VALUE_BLOCK),
+    iv,
+    base64Bytes(encryptor['encryptedVerifierHashValue'])
+  );
+  const expected = await digest(passwordParams.hash, verifierInput.subarray(0, passwordParams.salt.length));
+  if (!sameBytes(expected, verifierHash.subarray(0, expected.length))) return null;
+
+  const secret = await decryptCbc(await keyFor(KEY_VALUE_BLOCK), iv, base64Bytes(encryptor['encryptedKeyValue']));
+  const packageKey = await aesKey(secret.subarray(0, keyParams.keyBits / 8));
+
+  // The package is encrypted in 4096-byte segments, each with an IV from the key salt and its index.
+  const size = packageSize(content);
+  const out = new Uint8Array(size);
+  for (let offset = 8, segment = 0; offset < content.length && (offset - 8) < size; offset += SEGMENT_BYTES, segment++) {
+    const segmentIv = fit(await digest(keyParams.hash, concat(keyParams.salt, uint32le(segment))), keyParams.blockSize);
+    const plain = await decryptCbc(packageKey, segmentIv, content.subarray(offset, offset + SEGMENT_BYTES));
+    out.set(plain.subarray(0, size - (offset - 8)), offset - 8);
+  }
+  return out;
+}
+
+/** Attributes of the first element with this local name, whatever its namespace prefix. */
+function agileElement(xml: string, name: string): Record<string, string> | null {
+  const match = new RegExp(`<(?:[\\w-]+:)?${name}\\b([^>]*)>`).exec(xml);
+  if (!match) return null;
+  const values: Record<string, string> = {};
+  for (const [, key, value] of match[1].matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) values[key] = value;
+  return values;
+}
+
+function agileParams(values: Record<string, string>): AgileParams {
+  const hash = HASHES[values['hashAlgorithm']];
+  if (!hash || values['cipherAlgorithm'] !== 'AES' || values['cipherChaining'] !== 'ChainingModeCBC') {
+    throw new UnsupportedEncryptionError(
+      `Unsupported cipher ${values['cipherAlgorithm']}/${values['cipherChaining']} with ${values['hashAlgorithm']}`
+    );
+  }
+  return {
+    hash,
+    salt: base64Bytes(values['saltValue']),
+    blockSize: Number(values['blockSize']) || AES_BLOCK,
+    keyBits: Number(values['keyBits'])
+  };
+}
+
+/* ================= STANDARD ENCRYPTION ================= */
+
+async function decryptStandard(view: DataView, content: Uint8Array, password: string): Promise<Uint8Array | null> {
+  const headerSize = view.getUint32(8, true);
+  const algId = view.getUint32(20, true);
+  const keyBits = view.getUint32(28, true) || 128;
+  if (!STANDARD_AES_IDS.includes(algId)) throw new UnsupportedEncryptionError('Only AES Standard encryption is supported');
+
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  const verifierStart = 12 + headerSize;
+  const saltSize = view.getUint32(verifierStart, true);
+  const salt = bytes.slice(verifierStart + 4, verifierStart + 4 + saltSize);
+  const encryptedVerifier = bytes.slice(verifierStart + 4 + saltSize, verifierStart + 20 + saltSize);
+  const hashSize = view.getUint32(verifierStart + 20 + saltSize, true);
+  const encryptedVerifierHash = bytes.slice(verifierStart + 24 + saltSize, verifierStart + 56 + saltSize);
+
+  // [MS-OFFCRYPTO] 2.3.4.7: a SHA-1 spun password hash, stretched to the key size.
+  let hash = await digest('SHA-1', concat(salt, utf16le(password)));
+  for (let i = 0; i < STANDARD_SPIN_COUNT; i++) hash = await digest('SHA-1', concat(uint32le(i), hash));
+  hash = await digest('SHA-1', concat(hash, uint32le(0)));
+  const stretched = async (fill: number) => {
+    const buffer = new Uint8Array(64).fill(fill);
+    hash.forEach((byte, i) => (buffer[i] ^= byte));
+    return digest('SHA-1', buffer);
+  };
+  const key = await aesKey(concat(await stretched(0x36), await stretched(0x5c)).subarray(0, keyBits / 8));
+
+  const verifier = await decryptEcb(key, encryptedVerifier);
+  const verifierHash = await decryptEcb(key, encryptedVerifierHash);
+  if (!sameBytes(await digest('SHA-1', verifier), verifierHash.subarray(0, hashSize))) return null;
+
+  const size = packageSize(content);
+  const body = content.subarray(8);
+  return (await decryptEcb(key, body.subarray(0, body.length - (body.length % AES_BLOCK)))).slice(0, size);
+}
+
+/* ================= CRYPTO HELPERS ================= */
+
+function packageSize(content: Uint8Array): number {
+  const view = new DataView(content.buffer, content.byteOffset, 8);
+  return Math.min(view.getUint32(0, true) + view.getUint32(4, true) * 2 ** 32, content.length - 8);
+}
+
+async function digest(hash: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(hash, data as BufferSource));
+}
+
+function aesKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw as BufferSource, 'AES-CBC', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * AES-CBC decryption of whole blocks. Web Crypto only decrypts PKCS#7-padded data, and Office pads
+ * to whole blocks itself, so a block that decrypts to a full padding block is appended first.
+ */
+async function decryptCbc(key: CryptoKey, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (!data.length || data.length % AES_BLOCK) throw new Error('Encrypted data is not in whole AES blocks');
+  const last = data.slice(data.length - AES_BLOCK);
+  const padding = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-CBC', iv: last }, key, new Uint8Array(AES_BLOCK).fill(AES_BLOCK))
+  ).subarray(0, AES_BLOCK);
+  return new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'AES-CBC', iv: iv as BufferSource }, key, concat(data, padding) as BufferSource)
+  );
+}
+
+/** AES-ECB, which Web Crypto lacks: CBC with a zero IV, then each block's CBC chaining undone. */
+async function decryptEcb(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const plain = await decryptCbc(key, new Uint8Array(AES_BLOCK), data);
+  for (let i = AES_BLOCK; i < plain.length; i++) plain[i] ^= data[i - AES_BLOCK];
+  return plain;
+}
+
+/** Truncates to `length` bytes or pads with 0x36, as the spec does for keys and IVs. */
+function fit(bytes: Uint8Array, length: number): Uint8Array {
+  if (bytes.length >= length) return bytes.slice(0, length);
+  const out = new Uint8Array(length).fill(0x36);
+  out.set(bytes);
+  return out;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function uint32le(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value, true);
+  return out;
+}
+
+function utf16le(text: string): Uint8Array {
+  const out = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    out[i * 2] = text.charCodeAt(i) & 0xff;
+    out[i * 2 + 1] = text.charCodeAt(i) >> 8;
+  }
+  return out;
+}
+
+function base64Bytes(value: string | undefined): Uint8Array {
+  return Uint8Array.from(atob(value ?? ''), ch => ch.charCodeAt(0));
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/** CFB stream content, which may come back as a plain array. */
+function toBytes(content: ArrayLike<number>): Uint8Array {
+  return content instanceof Uint8Array ? content : Uint8Array.from(content);
+}
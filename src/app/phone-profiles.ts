@@ -0,0 +1,132 @@
+export type CountryCode = 'IN' | 'AE' | 'NP' | 'BD' | 'GB';
+export type CountryProfileId = CountryCode | 'multi';
+
+export interface CountryProfile {
+  code: CountryCode;
+  label: string;
+  dialCode: string;
+  trunkPrefixes: string[];
+  nationalLengths: number[];
+  mobilePattern: RegExp;
+  invalidPatterns: RegExp[];
+}
+
+export interface MobileMatch {
+  country: CountryCode;
+  national: string;
+  e164: string;
+  valid: boolean;
+  /** Which rule rejected the number, when it is not valid. */
+  rule?: string;
+}
+
+const ALL_SAME_DIGITS = /^(\d)\1+$/;
+
+export const COUNTRY_PROFILES: Record<CountryCode, CountryProfile> = {
+  IN: {
+    code: 'IN',
+    label: 'India (+91)',
+    dialCode: '91',
+    trunkPrefixes: ['0'],
+    nationalLengths: [10],
+    mobilePattern: /^[6-9]\d{9}$/,
+    invalidPatterns: [
+      ALL_SAME_DIGITS,
+      /^0123456789$/,          // Sequential
+      /^1234567890$/,
+      /^9876543210$/
+    ]
+  },
+  AE: {
+    code: 'AE',
+    label: 'UAE (+971)',
+    dialCode: '971',
+    trunkPrefixes: ['0'],
+    nationalLengths: [9],
+    mobilePattern: /^5[024568]\d{7}$/,
+    invalidPatterns: [ALL_SAME_DIGITS, /^5\d(\d)\1{6}$/]
+  },
+  NP: {
+    code: 'NP',
+    label: 'Nepal (+977)',
+    dialCode: '977',
+    trunkPrefixes: ['0'],
+    nationalLengths: [10],
+    mobilePattern: /^9[678]\d{8}$/,
+    invalidPatterns: [ALL_SAME_DIGITS, /^9[678](\d)\1{7}$/, /^9876543210$/]
+  },
+  BD: {
+    code: 'BD',
+    label: 'Bangladesh (+880)',
+    dialCode: '880',
+    trunkPrefixes: ['0'],
+    nationalLengths: [10],
+    mobilePattern: /^1[3-9]\d{8}$/,
+    invalidPatterns: [ALL_SAME_DIGITS, /^1[3-9](\d)\1{7}$/]
+  },
+  GB: {
+    code: 'GB',
+    label: 'United Kingdom (+44)',
+    dialCode: '44',
+    trunkPrefixes: ['0'],
+    nationalLengths: [10],
+    mobilePattern: /^7[1-9]\d{8}$/,
+    // Ofcom reserves 07700 900000-900999 for drama/fiction.
+    invalidPatterns: [ALL_SAME_DIGITS, /^7700900\d{3}$/, /^7[1-9](\d)\1{7}$/]
+  }
+};
+
+export const COUNTRY_CODES = Object.keys(COUNTRY_PROFILES) as CountryCode[];
+
+/**
+ * Builds the regex used to pull candidate digit runs out of a digits-only string.
+ * The run length covers the bare national number up to the dial-code or trunk-prefixed form.
+ */
+export function digitRunPattern(profiles: CountryProfile[]): RegExp {
+  let min = Infinity;
+  let max = 0;
+  for (const profile of profiles) {
+    for (const length of profile.nationalLengths) {
+      const prefixLengths = [0, profile.dialCode.length, ...profile.trunkPrefixes.map(t => t.length)];
+      min = Math.min(min, length);
+      max = Math.max(max, length + Math.max(...prefixLengths));
+    }
+  }
+  return new RegExp(`\\d{${min},${max}}`, 'g');
+}
+
+/**
+ * Interprets a digit run against a single country profile.
+ * Returns the first reading with a plausible national length (dial code stripped, then trunk
+ * prefix stripped, then as-is), or null when no reading has the right length.
+ * With `internationalOnly`, only a dial-code-prefixed reading is considered.
+ */
+export function matchMobile(digits: string, profile: CountryProfile, internationalOnly = false): MobileMatch | null {
+  const candidates: string[] = [];
+  if (digits.startsWith(profile.dialCode)) candidates.push(digits.slice(profile.dialCode.length));
+  if (!internationalOnly) {
+    for (const trunk of profile.trunkPrefixes) {
+      if (digits.startsWith(trunk)) candidates.push(digits.slice(trunk.length));
+    }
+    candidates.push(digits);
+  }
+
+  for (const national of candidates) {
+    if (!profile.nationalLengths.includes(national.length)) continue;
+    const match = { country: profile.code, national, e164: `+${profile.dialCode}${national}` };
+    if (!profile.mobilePattern.test(national)) {
+      return { ...match, valid: false, rule: `Not a ${profile.label} mobile range` };
+    }
+    const invalid = profile.invalidPatterns.find(pattern => pattern.test(national));
+    if (invalid) return { ...match, valid: false, rule: `Built-in pattern ${invalid.source}` };
+    return { ...match, valid: true };
+  }
+  return null;
+}
+
+/** Strips a leading `00` international call prefix when it is followed by a known dial code. */
+export function stripInternationalPrefix(digits: string, profiles: CountryProfile[]): string {
+  if (!digits.startsWith('00')) return digits;
+  const rest = digits.slice(2);
+  return profiles.some(p => rest.startsWith(p.dialCode)) ? rest : digits;
+}
@@ -0,0 +1,114 @@
+import { LocalCleanerClient } from './cleaner-client';
+import { MobileCleaner } from './mobile-cleaner';
+import { GridIndex, GridRequest } from './review-grid';
+import { RECOMMENDED_VALIDATION_RULES } from './validation-rules';
+import { XlsxStreamReader } from './xlsx-stream-reader';
+import * as XLSX from 'xlsx';
+import { textBlob } from '../testing/blobs';
+
+describe('Review grid', () => {
+  it('should page through every row with the status of each mobile cell and filter the problem rows', async () => {
+    const rows = [
+      ['Leads'],
+      ['Name', 'Mobile', 'Alternate'],
+      ['A', '9818202888', ''],
+      ['B', '+91 98182 02888', '9313123456'],
+      ['C', '12345', '9999900000'],
+      ['D', '', ''],
+      ['E', '+971 50 123 4567', '9845123456'],
+      ['F', '9820123456', '']
+    ];
+    const cleaner = new LocalCleanerClient();
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), 'Sheet1');
+    cleaner.session.useWorkbook('book', wb);
+    await cleaner.session.loadSheet('book', 'Sheet1');
+    const csv = Object.assign(textBlob(rows.map(r => r.join(',')).join('\n')), { name: 'leads.csv' }) as File;
+    await cleaner.loadFile('csv', csv);
+
+    const request: GridRequest = {
+      sourceId: 'book',
+      sheetName: 'Sheet1',
+      headerRowIndex: 1,
+      selectedColumns: [1, 2],
+      mobile: { countryProfile: 'IN', multiCountryFallback: 'IN', rules: RECOMMENDED_VALIDATION_RULES },
+      problemsOnly: false,
+      start: 1,
+      count: 2
+    };
+    const page = await cleaner.gridPage(request);
+    expect(page).toEqual({
+      total: 6,
+      start: 1,
+      rows: [
+        { rowNumber: 4, cells: ['B', '+91 98182 02888', '9313123456'], statuses: ['duplicate', 'valid'] },
+        { rowNumber: 5, cells: ['C', '12345', '9999900000'], statuses: ['invalidLength', 'invalidPattern'] }
+      ],
+      dataRows: 6,
+      problemRows: 4,
+      counts: { valid: 4, duplicate: 1, invalidPattern: 1, invalidLength: 1, foreignCountry: 1, empty: 4 }
+    });
+
+    // Streamed CSV sources give the same rows, and the filter lists only the problem rows.
+    const problems = await cleaner.gridPage({ ...request, sourceId: 'csv', sheetName: 'CSV', problemsOnly: true, start: 0, count: 10 });
+    expect(problems.total).toBe(4);
+    expect(problems.rows.map(row => row.rowNumber)).toEqual([4, 5, 6, 7]);
+    expect(problems.rows[3].statuses).toEqual(['foreignCountry', 'valid']);
+    expect(problems.rows[0]).toEqual(page.rows[0]);
+
+    // Jumping to a row without problems lands on the next problem row.
+    const jump = await cleaner.gridPage({ ...request, problemsOnly: true, fromRow: 3, count: 1 });
+    expect(jump.start).toBe(0);
+    expect(jump.rows.map(row => row.rowNumber)).toEqual([4]);
+    expect((await cleaner.gridPage({ ...request, fromRow: 8, count: 5 })).rows.map(row => row.rowNumber)).toEqual([8]);
+  });
+
+  it('should count a number repeated within one row once, as cleaning does', () => {
+    const index = new GridIndex(new MobileCleaner({ countryProfile: 'IN', multiCountryFallback: 'IN' }), [0, 1]);
+    index.add(['9818202888', '+91 98182 02888']);
+    index.add(['9313123456', '9818202888']);
+
+    expect(index.statusesOf(0)).toEqual(['valid', 'valid']);
+    expect(index.statusesOf(1)).toEqual(['valid', 'duplicate']);
+    expect(index.problemRows).toBe(1);
+  });
+
+  it('should read pages of a streamed XLSX sheet a window of rows at a time and keep recent windows', async () => {
+    const rows: any[][] = [['Name', 'Mobile']];
+    for (let i = 0; i < 4500; i++) rows.push([`N${i}`, i % 3 ? `98${String(i).padStart(8, '0')}` : '12345']);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), 'Leads');
+    const bytes: ArrayBuffer = XLSX.write(wb, { type: 'array', bookType: 'xlsx' });
+    const reader = await XlsxStreamReader.open({ size: bytes.byteLength, arrayBuffer: async () => bytes } as any);
+    const cleaner = new LocalCleanerClient();
+    (cleaner.session as any).sources.set('big', { workbook: null, csvFile: null, xlsx: reader, sheets: new Map() });
+    const streamRows = vi.spyOn(reader, 'streamRows');
+
+    const request: GridRequest = {
+      sourceId: 'big',
+      sheetName: 'Leads',
+      headerRowIndex: 0,
+      selectedColumns: [1],
+      mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+      problemsOnly: false,
+      start: 2100,
+      count: 200
+    };
+    const names = async (changes: Partial<GridRequest>) =>
+      (await cleaner.gridPage({ ...request, ...changes })).rows.map(row => row.cells[0]);
+
+    // Checking every row, then reading the window holding the page.
+    expect((await names({}))[0]).toBe('N2100');
+    expect(streamRows).toHaveBeenCalledTimes(2);
+
+    // A page across two windows reads only the one not kept yet; pages within kept windows read nothing.
+    expect(await names({ start: 1990, count: 20 })).toEqual(rows.slice(1991, 2011).map(row => row[0]));
+    expect(streamRows).toHaveBeenCalledTimes(3);
+    expect((await names({ start: 0 }))[199]).toBe('N199');
+    expect(streamRows).toHaveBeenCalledTimes(3);
+
+    // The problem filter keeps windows of its own.
+    expect(await names({ problemsOnly: true, start: 1000, count: 2 })).toEqual(['N3000', 'N3003']);
+    expect(streamRows).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,152 @@
+import { MobileCleanDetail, MobileCleaner, MobileCleanReason, MobileCleanerOptions } from './mobile-cleaner';
+
+/**
+ * What cleaning makes of one mobile cell; `duplicate` is a valid cell whose numbers all appeared in
+ * earlier rows of the same sheet. As in cleaning, a number repeated within one row is not a duplicate.
+ * Repeats of other sources are only known when `cleanSources` runs.
+ */
+export type CellStatus = MobileCleanReason | 'duplicate';
+
+export const CELL_STATUSES: CellStatus[] = [
+  'valid',
+  'duplicate',
+  'invalidPattern',
+  'invalidLength',
+  'foreignCountry',
+  'empty'
+];
+
+export const CELL_STATUS_LABELS: Record<CellStatus, string> = {
+  valid: 'Valid',
+  duplicate: 'Duplicate in this sheet',
+  invalidPattern: 'Invalid pattern',
+  invalidLength: 'Invalid length',
+  foreignCountry: 'Other country',
+  empty: 'Empty'
+};
+
+export interface GridRequest {
+  sourceId: string;
+  sheetName: string;
+  headerRowIndex: number;
+  selectedColumns: number[];
+  mobile: MobileCleanerOptions;
+  /** List only rows with a problem (see `GridIndex`). */
+  problemsOnly: boolean;
+  /** Position of the first row returned among the listed rows. */
+  start: number;
+  count: number;
+  /** Start at the first listed row at or after this sheet row number instead of at `start`. */
+  fromRow?: number;
+}
+
+export interface GridRow {
+  /** 1-based row number in the sheet, as spreadsheet apps and the statistics reports show it. */
+  rowNumber: number;
+  cells: any[];
+  /** Status of each selected column, in `selectedColumns` order. */
+  statuses: CellStatus[];
+}
+
+export interface GridPage {
+  error?: string;
+  /** Rows listed with the request's filter. */
+  total: number;
+  /** Position of the first returned row among the listed rows. */
+  start: number;
+  rows: GridRow[];
+  dataRows: number;
+  problemRows: number;
+  counts: Record<CellStatus, number>;
+}
+
+export function createEmptyCounts(): Record<CellStatus, number> {
+  return { valid: 0, duplicate: 0, invalidPattern: 0, invalidLength: 0, foreignCountry: 0, empty: 0 };
+}
+
+export function emptyGridPage(error?: string): GridPage {
+  return { error, total: 0, start: 0, rows: [], dataRows: 0, problemRows: 0, counts: createEmptyCounts() };
+}
+
+/**
+ * Status of every mobile cell of a sheet's data rows, one byte per cell so whole files fit.
+ * A row is a problem when a cell is invalid, foreign or a duplicate, or when all its mobile cells are empty.
+ */
+export class GridIndex {
+  readonly counts = createEmptyCounts();
+  private statuses = new Uint8Array(4096);
+  private readonly problems: number[] = [];
+  /** Numbers seen in this sheet only; see `CellStatus`. */
+  private readonly seenNumbers = new Set<string>();
+  private rows = 0;
+
+  constructor(private readonly cleaner: MobileCleaner, private readonly columns: number[]) {}
+
+  get dataRows(): number {
+    return this.rows;
+  }
+
+  get problemRows(): number {
+    return this.problems.length;
+  }
+
+  add(row: any[]) {
+    const offset = this.rows * this.columns.length;
+    if (offset + this.columns.length > this.statuses.length) {
+      const grown = new Uint8Array(Math.max(this.statuses.length * 2, offset + this.columns.length));
+      grown.set(this.statuses);
+      this.statuses = grown;
+    }
+
+    let problem = false;
+    let filled = false;
+    const details = this.columns.map(col => this.cleaner.cleanDetailed(row?.[col]));
+    details.forEach((detail, idx) => {
+      const status = this.statusOf(detail);
+      this.counts[status]++;
+      this.statuses[offset + idx] = CELL_STATUSES.indexOf(status);
+      if (status !== 'empty') filled = true;
+      if (status !== 'valid' && status !== 'empty') problem = true;
+    });
+    for (const detail of details) {
+      for (const number of detail.cleanedNumbers) this.seenNumbers.add(number);
+    }
+    if (problem || !filled) this.problems.push(this.rows);
+    this.rows++;
+  }
+
+  listedRows(problemsOnly: boolean): number {
+    return problemsOnly ? this.problems.length : this.rows;
+  }
+
+  /** Data row (0 is the row below the header) at `position` among the listed rows. */
+  rowAt(position: number, problemsOnly: boolean): number {
+    return problemsOnly ? this.problems[position] : position;
+  }
+
+  /** Position of the first listed row at or after data row `row`, or of the last one when none is. */
+  positionOf(row: number, problemsOnly: boolean): number {
+    const total = this.listedRows(problemsOnly);
+    if (!problemsOnly) return Math.max(0, Math.min(row, total - 1));
+
+    let low = 0;
+    let high = total;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.problems[mid] < row) low = mid + 1;
+      else high = mid;
+    }
+    return Math.max(0, Math.min(low, total - 1));
+  }
+
+  statusesOf(row: number): CellStatus[] {
+    const offset = row * this.columns.length;
+    return this.columns.map((_, idx) => CELL_STATUSES[this.statuses[offset + idx]]);
+  }
+
+  /** Checked against the numbers of earlier rows; the row's own are added once all its cells are. */
+  private statusOf(detail: MobileCleanDetail): CellStatus {
+    if (detail.reason !== 'valid') return detail.reason;
+    return detail.cleanedNumbers.every(number => this.seenNumbers.has(number)) ? 'duplicate' : 'valid';
+  }
+}
@@ -0,0 +1,32 @@
+import { reopenFile, storableFiles } from './session-store';
+
+describe('Session store', () => {
+  it('should keep uploads for session recovery by handle, by bytes within the limit, or by name', async () => {
+    const file = (name: string, size: number) => new File(['x'.repeat(size)], name);
+    const picked = file('picked.xlsx', 50);
+    const handle = {
+      kind: 'file',
+      name: 'picked.xlsx',
+      getFile: async () => picked,
+      queryPermission: async () => 'prompt',
+      requestPermission: async () => 'granted'
+    } as unknown as FileSystemFileHandle;
+
+    const saved = storableFiles(
+      [{ file: picked, handle }, { file: file('small.csv', 60) }, { file: file('large.csv', 60) }],
+      100
+    );
+
+    expect(saved.map(f => [f.name, !!f.handle, !!f.blob])).toEqual([
+      ['picked.xlsx', true, false],
+      ['small.csv', false, true],
+      ['large.csv', false, false]
+    ]);
+    expect(await reopenFile(saved[0])).toBe(picked);
+    expect((await reopenFile(saved[1]))?.name).toBe('small.csv');
+    expect(await reopenFile(saved[2])).toBeNull();
+
+    const denied = { ...handle, requestPermission: async () => 'denied' } as unknown as FileSystemFileHandle;
+    expect(await reopenFile({ name: 'picked.xlsx', handle: denied })).toBeNull();
+  });
+});
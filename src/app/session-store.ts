@@ -0,0 +1,283 @@
+import type { CountryCode, CountryProfileId } from './phone-profiles';
+import type { ValidationRules } from './validation-rules';
+import type { CleaningStats, DuplicateStrategy, ExportMode, SourceStats, StatDownloads } from './cleaning-pipeline';
+import type { ExportTemplate } from './export-templates';
+import type { ExportParts } from './export-parts';
+import type { LeadDistribution } from './lead-distribution';
+import type { VCardOptions } from './vcard-export';
+import type { TextEncodingId } from './text-encoding';
+
+const DB_NAME = 'excel-mobile-cleaner-session';
+const DB_VERSION = 1;
+const STORE = 'session';
+
+/** Uploads kept as bytes when the browser gives no file handle, in total. Larger ones are not kept. */
+export const MAX_STORED_FILE_BYTES = 100 * 1024 * 1024;
+
+/** Header row and columns of one sheet, without the rows. */
+export interface SavedMapping {
+  sheetName: string;
+  headerRowIndex: number | null;
+  headers: string[];
+  selectedColumns: number[];
+  selectedNameColumn: number | null;
+}
+
+export interface SavedSource extends SavedMapping {
+  fileName: string;
+  encoding?: TextEncodingId | null;
+  allSheets: boolean;
+  sheetMappings: SavedMapping[];
+}
+
+/** What Steps 3 to 5 showed, as plain data. */
+export interface SessionState {
+  savedAt: number;
+  sources: SavedSource[];
+  activeSourceIndex: number;
+  exportMode: ExportMode;
+  template?: ExportTemplate;
+  outputFormat: 'xlsx' | 'csv';
+  sheetOutput: 'merged' | 'perSheet';
+  duplicateStrategy: DuplicateStrategy;
+  countryProfile: CountryProfileId;
+  multiCountryFallback: CountryCode;
+  validationRules: ValidationRules;
+  splitIntoParts: boolean;
+  partsBy: ExportParts['by'];
+  partsSize: number;
+  exportVCard: boolean;
+  vcardVersion: VCardOptions['version'];
+  vcardNamePrefix: string;
+  vcardNameSuffix: string;
+  addSeriesColumns: boolean;
+  keepCircles: string[];
+  distributeLeads: boolean;
+  distributionAgents: Array<{ name: string; weight: number; values: string }>;
+  distributionMethod: LeadDistribution['method'];
+  distributionColumn: string;
+  distributionOutput: LeadDistribution['output'];
+  recordHistory: boolean;
+  skipRecentContacts: boolean;
+  recentContactDays: number;
+  buildAudit: boolean;
+}
+
+/** The last run's statistics and files, so Step 6 can be shown and downloaded again. */
+export interface SessionResult {
+  fileName: string;
+  /** Left out when larger than `MAX_STORED_FILE_BYTES`. */
+  blob: Blob | null;
+  audit: Blob | null;
+  message: string;
+  stats: CleaningStats;
+  statDownloads: StatDownloads;
+  sourceStats: SourceStats[];
+  circleCounts: Array<{ circle: string; count: number }>;
+  assignmentCounts: Array<{ agent: string; count: number }>;
+}
+
+/** An upload as it can be read again: through its file handle, from stored bytes, or not at all. */
+export interface SavedFile {
+  name: string;
+  handle?: FileSystemFileHandle;
+  blob?: Blob;
+}
+
+export interface SavedSession {
+  state: SessionState;
+  files: SavedFile[];
+  /** Suppression list uploads, kept like the spreadsheets. */
+  suppressionFiles: SavedFile[];
+  result: SessionResult | null;
+}
+
+/** Permission methods of a file handle, which not every browser (or the DOM typings) has. */
+interface PermissionedHandle {
+  queryPermission?(options: { mode: 'read' }): Promise<PermissionState>;
+  requestPermission?(options: { mode: 'read' }): Promise<PermissionState>;
+}
+
+/** File System Access additions to drag and drop and `window`, in the browsers that have them. */
+interface HandleItem {
+  getAsFileSystemHandle?(): Promise<FileSystemHandle | null>;
+}
+
+interface FilePickerWindow {
+  showOpenFilePicker?(options: {
+    multiple?: boolean;
+    types?: Array<{ description: string; accept: Record<string, string[]> }>;
+  }): Promise<FileSystemFileHandle[]>;
+}
+
+/**
+ * The files, mapping and last results of the current session in IndexedDB, so a reload or crash
+ * does not lose them. Kept apart from the contact history, which outlives sessions.
+ */
+export class SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(): Promise<SavedSession | null> {
+    if (!SessionStore.isSupported()) return null;
+    const store = await this.store('readonly');
+    const [state, files, suppressionFiles, result] = await Promise.all([
+      request(store.get('state')),
+      request(store.get('files')),
+      request(store.get('suppressionFiles')),
+      request(store.get('result'))
+    ]);
+    if (!state?.sources?.length) return null;
+    return { state, files: files ?? [], suppressionFiles: suppressionFiles ?? [], result: result ?? null };
+  }
+
+  /** Replaces the saved files; the saved state and results belong to the old files and are dropped. */
+  async saveFiles(files: SavedFile[], suppressionFiles: SavedFile[]): Promise<void> {
+    if (!SessionStore.isSupported()) return;
+    const store = await this.store('readwrite');
+    store.clear();
+    store.put(files, 'files');
+    store.put(suppressionFiles, 'suppressionFiles');
+    await done(store.transaction);
+  }
+
+  async saveSuppressionFiles(files: SavedFile[]): Promise<void> {
+    if (!SessionStore.isSupported()) return;
+    const store = await this.store('readwrite');
+    store.put(files, 'suppressionFiles');
+    await done(store.transaction);
+  }
+
+  async saveState(state: SessionState): Promise<void> {
+    if (!SessionStore.isSupported()) return;
+    const store = await this.store('readwrite');
+    store.put(state, 'state');
+    await done(store.transaction);
+  }
+
+  async saveResult(result: SessionResult | null): Promise<void> {
+    if (!SessionStore.isSupported()) return;
+    const store = await this.store('readwrite');
+    if (result) store.put(result, 'result');
+    else store.delete('result');
+    await done(store.transaction);
+  }
+
+  async clear(): Promise<void> {
+    if (!SessionStore.isSupported()) return;
+    const store = await this.store('readwrite');
+    store.clear();
+    await done(store.transaction);
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.db) this.db = openDatabase();
+    const db = await this.db;
+    return db.transaction(STORE, mode).objectStore(STORE);
+  }
+}
+
+/**
+ * How each upload is kept: by file handle when there is one, else as bytes while the total stays
+ * within `limit`, else by name only (the file has to be uploaded again after a reload).
+ */
+export function storableFiles(
+  uploads: Array<{ file: File; handle?: FileSystemFileHandle | null }>,
+  limit = MAX_STORED_FILE_BYTES
+): SavedFile[] {
+  let stored = 0;
+  return uploads.map(({ file, handle }) => {
+    if (handle) return { name: file.name, handle };
+    if (stored + file.size > limit) return { name: file.name };
+    stored += file.size;
+    return { name: file.name, blob: file };
+  });
+}
+
+/**
+ * Reads a saved upload again. Handles may need the user's permission, so call this from a click.
+ * Returns null when the file is gone, not permitted, or was not kept.
+ */
+export async function reopenFile(saved: SavedFile): Promise<File | null> {
+  if (saved.blob) {
+    return saved.blob instanceof File ? saved.blob : new File([saved.blob], saved.name);
+  }
+  if (!saved.handle) return null;
+  try {
+    const handle = saved.handle as FileSystemFileHandle & PermissionedHandle;
+    let permission = (await handle.queryPermission?.({ mode: 'read' })) ?? 'granted';
+    if (permission === 'prompt' && handle.requestPermission) {
+      permission = await handle.requestPermission({ mode: 'read' });
+    }
+    return permission === 'granted' ? await handle.getFile() : null;
+  } catch (error) {
+    console.warn(`Could not reopen ${saved.name}.`, error);
+    return null;
+  }
+}
+
+/**
+ * Handles of dropped files, by file name, where the browser gives them. Items are only readable
+ * during the drop event, so call this before awaiting anything in the handler.
+ */
+export function droppedFileHandles(items: DataTransferItemList): Promise<Map<string, FileSystemFileHandle>> {
+  const pending = Array.from(items)
+    .filter(item => item.kind === 'file')
+    .map(item => (item as DataTransferItem & HandleItem).getAsFileSystemHandle?.().catch(() => null) ?? null);
+  return Promise.all(pending).then(
+    handles =>
+      new Map(
+        handles
+          .filter((handle): handle is FileSystemFileHandle => handle?.kind === 'file')
+          .map(handle => [handle.name, handle])
+      )
+  );
+}
+
+export function canPickFileHandles(): boolean {
+  return typeof window !== 'undefined' && typeof (window as FilePickerWindow).showOpenFilePicker === 'function';
+}
+
+/**
+ * Opens the browser's file picker for the given extensions and returns the picked files with their
+ * handles; an empty list when the user cancels.
+ */
+export async function pickFiles(extensions: string[]): Promise<Array<{ file: File; handle: FileSystemFileHandle }>> {
+  let handles: FileSystemFileHandle[];
+  try {
+    handles = await (window as FilePickerWindow).showOpenFilePicker!({
+      multiple: true,
+      types: [{ description: 'Spreadsheets', accept: { 'application/octet-stream': extensions } }]
+    });
+  } catch (error: any) {
+    if (error?.name === 'AbortError') return [];
+    throw error;
+  }
+  return Promise.all(handles.map(async handle => ({ file: await handle.getFile(), handle })));
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(STORE);
+  };
+  return request(open);
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,62 @@
+import { LocalCleanerClient } from './cleaner-client';
+import { CleanOptions } from './cleaning-pipeline';
+import * as XLSX from 'xlsx';
+import { readBlobBuffer, textBlob } from '../testing/blobs';
+
+describe('Suppression lists', () => {
+  it('should drop numbers found in a suppression file from every export mode', async () => {
+    const cleaner = new LocalCleanerClient();
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+      ['Name', 'Mobile'],
+      ['A', '9818202888'],
+      ['B', '9313123456'],
+      ['C', '+91 9818202888'],
+      ['D', '9000000001']
+    ]), 'Sheet1');
+    cleaner.session.useWorkbook('leads', wb);
+    await cleaner.session.loadSheet('leads', 'Sheet1');
+    const dnd = Object.assign(textBlob('Opt-out numbers\n+91 98182-02888\n'), { name: 'dnd.txt' }) as File;
+
+    const loaded = await cleaner.loadSuppressionFile('dnd', dnd);
+    expect(loaded).toEqual({ entryCount: 1 });
+
+    const clean = (exportMode: CleanOptions['exportMode']) =>
+      cleaner.clean({
+        fileName: 'leads',
+        exportMode,
+        mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+        sources: [
+          {
+            sourceId: 'leads',
+            fileName: 'leads',
+            sheetName: 'Sheet1',
+            headerRowIndex: 0,
+            headers: ['Name', 'Mobile'],
+            selectedColumns: [1],
+            selectedNameColumn: 0
+          }
+        ]
+      });
+    const exported = async (exportMode: CleanOptions['exportMode']) => {
+      const result = await clean(exportMode);
+      const parsed = XLSX.read(await readBlobBuffer(result.blob!), { type: 'array' });
+      return XLSX.utils.sheet_to_json(parsed.Sheets[parsed.SheetNames[0]], { header: 1, defval: '' });
+    };
+
+    const unique = await clean('unique');
+    expect(unique.stats.suppressed).toBe(2);
+    expect(unique.statDownloads.suppressed.map(r => r.row)).toEqual([2, 4]);
+    expect(await exported('unique')).toEqual([['Mobile_Number'], ['+919313123456'], ['+919000000001']]);
+    expect(await exported('keep-all')).toEqual([
+      ['Name', 'Mobile'],
+      ['A', ''],
+      ['B', '+919313123456'],
+      ['C', ''],
+      ['D', '+919000000001']
+    ]);
+
+    await cleaner.removeSuppressionList('dnd');
+    expect((await clean('unique')).stats.suppressed).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+import { streamCsvRecords, yieldToBrowser } from './csv-utils';
+import { assessSheetSize, fileExtension, loadXlsx, readWorkbookFile } from './workbook-utils';
+
+/** Cells with fewer digits than this cannot hold a mobile number and are not kept. */
+const MIN_SUPPRESSION_DIGITS = 7;
+
+export interface SuppressionLoadResult {
+  error?: string;
+  /** Cells that may hold a number; they are normalized with the run's country profile at clean time. */
+  entryCount: number;
+}
+
+/**
+ * Reads every cell of an opt-out / DND file (any sheet, any column) that may contain a mobile number.
+ * Values are kept raw so they go through the same normalization as the data being cleaned.
+ */
+export async function readSuppressionValues(
+  file: File,
+  yieldControl: () => Promise<void> = yieldToBrowser
+): Promise<{ values: any[]; error?: string }> {
+  const ext = fileExtension(file.name);
+  const values: any[] = [];
+  const keep = (cell: any) => {
+    if (typeof cell === 'number') {
+      values.push(cell);
+    } else if (String(cell ?? '').replace(/\D/g, '').length >= MIN_SUPPRESSION_DIGITS) {
+      values.push(String(cell));
+    }
+  };
+
+  if (ext === '.csv' || ext === '.txt' || ext === '.tsv') {
+    await streamCsvRecords(
+      file,
+      ({ fields }) => {
+        for (const cell of fields) keep(cell);
+      },
+      undefined,
+      yieldControl,
+      { delimiter: ext === '.tsv' ? '\t' : undefined }
+    );
+    return { values };
+  }
+
+  const parsed = await readWorkbookFile(file, ext);
+  if (parsed.error || !parsed.workbook) {
+    return { values, error: parsed.error || 'Failed to read suppression file.' };
+  }
+
+  const XLSX = await loadXlsx();
+  for (const sheetName of parsed.workbook.SheetNames) {
+    const sheet = parsed.workbook.Sheets[sheetName];
+    if (!sheet?.['!ref']) continue;
+    const sizeCheck = assessSheetSize(sheet, XLSX);
+    if (sizeCheck.error) return { values: [], error: sizeCheck.error };
+    const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: true });
+    for (const row of rows) {
+      for (const cell of row || []) keep(cell);
+    }
+    await yieldControl();
+  }
+  return { values };
+}
@@ -0,0 +1,36 @@
+import { loadCsvPreview } from './csv-utils';
+import { decodeText, detectEncoding } from './text-encoding';
+
+describe('Text encoding', () => {
+  it('should detect UTF-16, Windows-1252 and ISCII uploads and read them in the encoding chosen', async () => {
+    const utf16le = (text: string, bom = true) => {
+      const bytes = bom ? [0xff, 0xfe] : [];
+      for (const ch of text) bytes.push(ch.charCodeAt(0) & 0xff, ch.charCodeAt(0) >> 8);
+      return new Uint8Array(bytes);
+    };
+    const bytesBlob = (bytes: Uint8Array) =>
+      ({ size: bytes.length, slice: (start = 0, end = bytes.length) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }) }) as unknown as Blob;
+    // "José,9818202888" in Windows-1252, and "राम" (RA, AA sign, MA) in ISCII.
+    const western = new Uint8Array([0x4a, 0x6f, 0x73, 0xe9, 0x2c, 0x39, 0x38, 0x31, 0x38]);
+    const iscii = new Uint8Array([0xcf, 0xda, 0xcc, 0x2c, 0x39, 0x38]);
+
+    expect(detectEncoding(utf16le('Name,Mobile'))).toBe('utf-16le');
+    expect(detectEncoding(utf16le('Name,Mobile', false))).toBe('utf-16le');
+    expect(detectEncoding(new TextEncoder().encode('José,9818202888'))).toBe('utf-8');
+    expect(detectEncoding(western)).toBe('windows-1252');
+    expect(detectEncoding(iscii)).toBe('iscii');
+    expect(decodeText(western).text).toBe('José,9818');
+    expect(decodeText(iscii).text).toBe('राम,98');
+    expect(decodeText(new Uint8Array([0xa1, 0xe9, 0xb3, 0xe8, 0xe8])).text).toBe('ॐक\u094D\u200C');
+
+    const csv = bytesBlob(utf16le('Name;Mobile\r\nJosé;9818202888\r\n'));
+    const preview = await loadCsvPreview(csv, 10, undefined, () => Promise.resolve());
+    expect(preview.encoding).toBe('utf-16le');
+    expect(preview.rows).toEqual([['Name', 'Mobile'], ['José', '9818202888']]);
+
+    // A wrong pick is what the user overrides; the override is used as given.
+    const forced = await loadCsvPreview(bytesBlob(western), 10, undefined, () => Promise.resolve(), 'utf-8');
+    expect(forced.encoding).toBe('utf-8');
+    expect(forced.rows[0][0]).toBe('Jos\uFFFD');
+  });
+});
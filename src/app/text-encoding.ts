@@ -0,0 +1,170 @@
+/** Encodings of CSV and text uploads: what Excel, Tally and older Windows tools write. */
+export type TextEncodingId = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iscii';
+
+export const TEXT_ENCODINGS: Array<{ id: TextEncodingId; label: string }> = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'utf-16le', label: 'UTF-16 LE (Excel "Unicode Text")' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+  { id: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { id: 'iscii', label: 'ISCII (Devanagari)' }
+];
+
+/** Bytes looked at to guess the encoding. */
+export const ENCODING_SAMPLE_BYTES = 64 * 1024;
+
+/** Decodes a file chunk by chunk; `stream: true` keeps a character split across chunks. */
+export interface ChunkDecoder {
+  decode(input: ArrayBuffer | Uint8Array, options?: { stream?: boolean }): string;
+}
+
+export function isTextEncoding(value: unknown): value is TextEncodingId {
+  return TEXT_ENCODINGS.some(encoding => encoding.id === value);
+}
+
+/**
+ * Encoding of a text upload from its byte order mark, or else guessed from its first bytes:
+ * zero bytes in every other position mean UTF-16, valid UTF-8 (or plain ASCII) means UTF-8, runs of
+ * bytes in the ISCII letter range mean ISCII, and anything else is taken as Windows-1252.
+ */
+export function detectEncoding(bytes: Uint8Array): TextEncodingId {
+  const sample = bytes.subarray(0, ENCODING_SAMPLE_BYTES);
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8';
+  if (sample[0] === 0xff && sample[1] === 0xfe) return 'utf-16le';
+  if (sample[0] === 0xfe && sample[1] === 0xff) return 'utf-16be';
+
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs >= 2) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+    // Latin text in UTF-16 has a zero in every other byte; a few misses allow for other scripts.
+    if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+    if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+  }
+
+  if (!sample.some(byte => byte >= 0x80)) return 'utf-8';
+  try {
+    // A character cut off at the end of the sample is not an error in streaming mode.
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    // Not UTF-8; told apart below.
+  }
+
+  // ISCII words are runs of high bytes (letters and vowel signs) and never use 0x80-0xA0; accented
+  // Western letters are single high bytes between ASCII ones.
+  let high = 0;
+  let inRuns = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte < 0x80) continue;
+    if (byte <= 0xa0) return 'windows-1252';
+    high++;
+    if (sample[i - 1] >= 0x80 || sample[i + 1] >= 0x80) inRuns++;
+  }
+  return inRuns > high * 0.6 ? 'iscii' : 'windows-1252';
+}
+
+export function createDecoder(encoding: TextEncodingId): ChunkDecoder {
+  return encoding === 'iscii' ? new IsciiDecoder() : new TextDecoder(encoding);
+}
+
+/** Decodes text that is already in memory, detecting the encoding when none is given. */
+export function decodeText(bytes: Uint8Array, encoding?: TextEncodingId): { text: string; encoding: TextEncodingId } {
+  const used = encoding ?? detectEncoding(bytes);
+  return { text: createDecoder(used).decode(bytes), encoding: used };
+}
+
+/* ================= ISCII ================= */
+
+/** Devanagari of ISCII-91 bytes 0xA1-0xFA; empty where the byte is unassigned or a control code. */
+const ISCII_DEVANAGARI: string[] = [
+  // 0xA1-0xB2: signs and vowels
+  ...'\u0901\u0902\u0903\u0905\u0906\u0907\u0908\u0909\u090A\u090B\u090E\u090F\u0910\u090D\u0912\u0913\u0914\u0911',
+  // 0xB3-0xCD: consonants KA to YA
+  ...Array.from({ length: 27 }, (_, i) => String.fromCharCode(0x0915 + i)),
+  // 0xCE-0xD8: YYA, RA to HA
+  ...'\u095F\u0930\u0931\u0932\u0933\u0934\u0935\u0936\u0937\u0938\u0939',
+  // 0xD9: INV (invisible consonant)
+  '',
+  // 0xDA-0xEA: vowel signs, virama, nukta, danda
+  ...'\u093E\u093F\u0940\u0941\u0942\u0943\u0946\u0947\u0948\u0945\u094A\u094B\u094C\u0949\u094D\u093C\u0964',
+  // 0xEB-0xF0: unassigned, ATR, EXT
+  '', '', '', '', '', '',
+  // 0xF1-0xFA: digits
+  ...Array.from({ length: 10 }, (_, i) => String.fromCharCode(0x0966 + i))
+];
+
+/** Letters written as a byte followed by the nukta (0xE9). */
+const ISCII_NUKTA_FORMS: Record<number, string> = {
+  0xa1: '\u0950',
+  0xa6: '\u090C',
+  0xa7: '\u0961',
+  0xaa: '\u0960',
+  0xdb: '\u0962',
+  0xdc: '\u0963',
+  0xdf: '\u0944',
+  // Virama + nukta is an explicit half form (ZWJ).
+  0xe8: '\u094D\u200D',
+  0xea: '\u093D'
+};
+
+const ISCII_VIRAMA = 0xe8;
+const ISCII_NUKTA = 0xe9;
+const ISCII_ATR = 0xef;
+
+/**
+ * ISCII-91 decoder for Devanagari, which browsers do not ship. Script switches (ATR) are skipped
+ * with their attribute byte, so text in other Indic scripts comes out as Devanagari.
+ */
+class IsciiDecoder implements ChunkDecoder {
+  /** Byte that may combine with the next one, held back until that one is read. */
+  private pending: number | null = null;
+  private skipNext = false;
+
+  decode(input: ArrayBuffer | Uint8Array, options: { stream?: boolean } = {}): string {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    let out = '';
+    for (const byte of bytes) {
+      if (this.skipNext) {
+        this.skipNext = false;
+        continue;
+      }
+      if (this.pending !== null) {
+        const pending = this.pending;
+        this.pending = null;
+        if (byte === ISCII_NUKTA && ISCII_NUKTA_FORMS[pending]) {
+          out += ISCII_NUKTA_FORMS[pending];
+          continue;
+        }
+        if (pending === ISCII_VIRAMA && byte === ISCII_VIRAMA) {
+          // Double virama is an explicit virama (ZWNJ).
+          out += '\u094D\u200C';
+          continue;
+        }
+        out += isciiChar(pending);
+      }
+      if (byte === ISCII_ATR) {
+        this.skipNext = true;
+      } else if (ISCII_NUKTA_FORMS[byte]) {
+        this.pending = byte;
+      } else {
+        out += isciiChar(byte);
+      }
+    }
+    if (!options.stream && this.pending !== null) {
+      out += isciiChar(this.pending);
+      this.pending = null;
+    }
+    return out;
+  }
+}
+
+function isciiChar(byte: number): string {
+  if (byte < 0x80) return String.fromCharCode(byte);
+  if (byte < 0xa1) return '\uFFFD';
+  return ISCII_DEVANAGARI[byte - 0xa1] ?? '\uFFFD';
+}
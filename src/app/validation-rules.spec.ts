@@ -0,0 +1,32 @@
+import { cleanSources } from './cleaning-pipeline';
+import { RECOMMENDED_VALIDATION_RULES } from './validation-rules';
+
+describe('Validation rules', () => {
+  it('should report the rule that rejected each number in the statistics', async () => {
+    const result = await cleanSources(
+      [{ rows: [['Mobile'], ['9818202888'], ['9876598765'], ['9999999999']] }],
+      {
+        fileName: 'leads',
+        exportMode: 'unique',
+        mobile: { countryProfile: 'IN', multiCountryFallback: 'IN', rules: RECOMMENDED_VALIDATION_RULES },
+        sources: [
+          {
+            sourceId: 'leads',
+            fileName: 'leads',
+            sheetName: 'Sheet1',
+            headerRowIndex: 0,
+            headers: ['Mobile'],
+            selectedColumns: [0],
+            selectedNameColumn: null
+          }
+        ]
+      },
+      { yieldControl: () => Promise.resolve() }
+    );
+    expect(result.stats.valid).toBe(1);
+    expect(result.statDownloads.invalidPattern.map(r => r.rule)).toEqual([
+      'Repeated halves',
+      'Built-in pattern ^(\\d)\\1+$'
+    ]);
+  });
+});
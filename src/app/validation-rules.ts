@@ -0,0 +1,87 @@
+import type { MobileMatch } from './phone-profiles';
+
+/**
+ * Extra checks applied to numbers that already pass the country profile.
+ * Plain data so it can be sent to the cleaner worker and saved in local storage.
+ */
+export interface ValidationRules {
+  /** Regular expressions tested against the national number, e.g. `^98765`. */
+  denyPatterns: string[];
+  /** Reject numbers with the same digit this many times in a row (0 turns the check off). */
+  maxRepeatedDigits: number;
+  /** Reject numbers made of the same block twice, e.g. 9876598765. */
+  rejectRepeatedHalves: boolean;
+  /** Numbers must start with one of these national prefixes (or `+` E.164 prefixes); empty allows all. */
+  allowPrefixes: string[];
+  /** Placeholder and test numbers that are always rejected, in any format. */
+  blocklist: string[];
+}
+
+export const EMPTY_VALIDATION_RULES: ValidationRules = {
+  denyPatterns: [],
+  maxRepeatedDigits: 0,
+  rejectRepeatedHalves: false,
+  allowPrefixes: [],
+  blocklist: []
+};
+
+/** Catches the junk the built-in patterns miss: 9999900000, 9876598765 and friends. */
+export const RECOMMENDED_VALIDATION_RULES: ValidationRules = {
+  denyPatterns: [],
+  maxRepeatedDigits: 5,
+  rejectRepeatedHalves: true,
+  allowPrefixes: [],
+  blocklist: []
+};
+
+/** Problems that would make the rules unusable, e.g. a deny pattern that is not a valid regex. */
+export function validateRules(rules: ValidationRules): string[] {
+  const problems: string[] = [];
+  for (const pattern of rules.denyPatterns) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      problems.push(`Deny pattern "${pattern}" is not a valid regular expression.`);
+    }
+  }
+  if (!Number.isInteger(rules.maxRepeatedDigits) || rules.maxRepeatedDigits < 0) {
+    problems.push('Repeated digit limit must be a whole number (0 to turn it off).');
+  }
+  return problems;
+}
+
+/** Returns a checker that names the first rule rejecting a profile-valid number, or null. */
+export function compileRules(rules: ValidationRules): (match: MobileMatch) => string | null {
+  const denyPatterns = rules.denyPatterns.flatMap(source => {
+    try {
+      return [{ source, regex: new RegExp(source) }];
+    } catch {
+      return [];
+    }
+  });
+  const repeatRun =
+    rules.maxRepeatedDigits > 1 ? new RegExp(`(\\d)\\1{${rules.maxRepeatedDigits - 1}}`) : null;
+  const blocklist = new Set(rules.blocklist.map(entry => entry.replace(/\D/g, '')).filter(Boolean));
+
+  return ({ national, e164 }) => {
+    const international = e164.slice(1);
+    if (blocklist.has(national) || blocklist.has(international) || blocklist.has(`0${national}`)) {
+      return 'Blocklisted number';
+    }
+    if (
+      rules.allowPrefixes.length &&
+      !rules.allowPrefixes.some(prefix => (prefix.startsWith('+') ? e164 : national).startsWith(prefix))
+    ) {
+      return 'Not an allowed prefix';
+    }
+    if (repeatRun?.test(national)) {
+      return `Same digit ${rules.maxRepeatedDigits}+ times in a row`;
+    }
+    if (rules.rejectRepeatedHalves && national.length % 2 === 0) {
+      const half = national.length / 2;
+      if (national.slice(0, half) === national.slice(half)) return 'Repeated halves';
+    }
+    const denied = denyPatterns.find(({ regex }) => regex.test(national));
+    return denied ? `Deny pattern ${denied.source}` : null;
+  };
+}
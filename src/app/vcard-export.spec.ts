@@ -0,0 +1,47 @@
+import { CleanOptions, cleanSources } from './cleaning-pipeline';
+import { loadJsZip } from './workbook-utils';
+import { readBlobBuffer, readBlobText, textBlob } from '../testing/blobs';
+
+describe('vCard export', () => {
+  it('should export mobile-name results as vCard contacts and split large lists into a ZIP', async () => {
+    const csv = textBlob('Name,Mobile\nAsha; Rao,9818202888\n,9820123456\nRavi,9845123456\n');
+    const options: CleanOptions = {
+      fileName: 'leads',
+      exportMode: 'mobile-name',
+      mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+      sources: [
+        {
+          sourceId: 'leads',
+          fileName: 'leads',
+          sheetName: 'CSV',
+          headerRowIndex: 0,
+          headers: ['Name', 'Mobile'],
+          selectedColumns: [1],
+          selectedNameColumn: 0
+        }
+      ],
+      vcard: { version: '3.0', namePrefix: 'Diwali', nameSuffix: '' }
+    };
+    const yieldControl = () => Promise.resolve();
+
+    const single = await cleanSources([{ csv }], options, { yieldControl });
+    expect(single.format).toBe('vcf');
+    expect(single.fileName).toBe('(3)-leads.vcf');
+    const text = await readBlobText(single.blob!);
+    expect(text.match(/BEGIN:VCARD/g)?.length).toBe(3);
+    expect(text).toContain('FN:Diwali Asha\\; Rao\r\nN:;Diwali Asha\\; Rao;;;\r\nTEL;TYPE=CELL:+919818202888\r\n');
+    expect(text).toContain('FN:Diwali +919820123456\r\n');
+
+    const zipped = await cleanSources(
+      [{ csv }],
+      { ...options, vcard: { version: '4.0', namePrefix: '', nameSuffix: '', contactsPerFile: 2 } },
+      { yieldControl }
+    );
+    expect(zipped.format).toBe('zip');
+    expect(zipped.fileCount).toBe(2);
+    const JSZipLib = await loadJsZip();
+    const zip = await JSZipLib.loadAsync(await readBlobBuffer(zipped.blob!));
+    expect(Object.keys(zip.files)).toEqual(['leads_part_1.vcf', 'leads_part_2.vcf']);
+    expect(await zip.file('leads_part_2.vcf')!.async('string')).toContain('TEL;VALUE=uri;TYPE=cell:tel:+919845123456');
+  });
+});
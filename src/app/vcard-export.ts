@@ -0,0 +1,85 @@
+import { loadJsZip } from './workbook-utils';
+
+export const VCARD_MIME = 'text/vcard;charset=utf-8';
+/** Larger lists are split into several .vcf files so phone contact importers do not choke. */
+export const VCARD_CONTACTS_PER_FILE = 5000;
+
+export interface VCardOptions {
+  version: '3.0' | '4.0';
+  /** Added before / after every contact name, e.g. a campaign tag. */
+  namePrefix: string;
+  nameSuffix: string;
+  contactsPerFile?: number;
+}
+
+export interface VCardContact {
+  name: any;
+  /** Cleaned E.164 number. */
+  number: string;
+}
+
+export interface VCardExport {
+  blob: Blob;
+  fileName: string;
+  format: 'vcf' | 'zip';
+  fileCount: number;
+}
+
+/** One contact card; contacts without a name are saved under their number. */
+export function buildVCard(contact: VCardContact, options: VCardOptions): string {
+  const name = String(contact.name ?? '').trim();
+  const label = [options.namePrefix.trim(), name || contact.number, options.nameSuffix.trim()]
+    .filter(Boolean)
+    .join(' ');
+  const fullName = escapeVCardText(label);
+  const tel =
+    options.version === '4.0'
+      ? `TEL;VALUE=uri;TYPE=cell:tel:${contact.number}`
+      : `TEL;TYPE=CELL:${contact.number}`;
+  return ['BEGIN:VCARD', `VERSION:${options.version}`, `FN:${fullName}`, `N:;${fullName};;;`, tel, 'END:VCARD']
+    .map(line => `${line}\r\n`)
+    .join('');
+}
+
+/**
+ * Writes the contacts as one .vcf file, or as a ZIP of numbered .vcf files when there are more than
+ * `contactsPerFile` of them.
+ */
+export async function buildVCardExport(
+  contacts: VCardContact[],
+  baseName: string,
+  options: VCardOptions
+): Promise<VCardExport> {
+  const perFile = Math.max(1, options.contactsPerFile ?? VCARD_CONTACTS_PER_FILE);
+  const name = `(${contacts.length})-${baseName}`;
+  if (contacts.length <= perFile) {
+    const text = contacts.map(contact => buildVCard(contact, options)).join('');
+    return { blob: new Blob([text], { type: VCARD_MIME }), fileName: `${name}.vcf`, format: 'vcf', fileCount: 1 };
+  }
+
+  const JSZipLib = await loadJsZip();
+  const zip = new JSZipLib();
+  const fileCount = Math.ceil(contacts.length / perFile);
+  const digits = String(fileCount).length;
+  for (let part = 0; part < fileCount; part++) {
+    const text = contacts
+      .slice(part * perFile, (part + 1) * perFile)
+      .map(contact => buildVCard(contact, options))
+      .join('');
+    zip.file(`${baseName}_part_${String(part + 1).padStart(digits, '0')}.vcf`, text);
+  }
+  const data = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+  return {
+    blob: new Blob([data], { type: 'application/zip' }),
+    fileName: `${name}_vcf.zip`,
+    format: 'zip',
+    fileCount
+  };
+}
+
+function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
@@ -0,0 +1,208 @@
+import type { WorkBook, WorkSheet } from 'xlsx';
+import type JSZip from 'jszip';
+import { CsvProblemLog, parseCsvText } from './csv-utils';
+import { TextEncodingId, decodeText } from './text-encoding';
+
+export const MAX_SHEET_ROWS = 2000000;
+export const MAX_SHEET_COLUMNS = 500;
+export const MAX_SHEET_CELLS = 50000000;
+export const LARGE_SHEET_WARNING_ROWS = 250000;
+
+let xlsxModule: typeof import('xlsx') | null = null;
+let jsZipModule: typeof JSZip | null = null;
+const DEBUG = false;
+
+export async function loadXlsx(): Promise<typeof import('xlsx')> {
+  if (!xlsxModule) {
+    xlsxModule = await import('xlsx');
+  }
+  return xlsxModule;
+}
+
+export async function loadJsZip(): Promise<typeof JSZip> {
+  if (!jsZipModule) {
+    const module = await import('jszip');
+    jsZipModule = module.default;
+  }
+  return jsZipModule;
+}
+
+/** Blob content to add to a JSZip archive: JSZip reads Blobs with FileReader, which Node lacks. */
+export function zipInput(blob: Blob): Blob | Promise<ArrayBuffer> {
+  return typeof FileReader === 'undefined' ? blob.arrayBuffer() : blob;
+}
+
+export function fileExtension(name: string): string {
+  return (name.match(/\.[^/.]+$/) || [''])[0].toLowerCase();
+}
+
+/**
+ * Parses any supported non-CSV upload into a workbook.
+ * Returns `repaired` when the ZIP container had to be rebuilt and `warning` from the XLSX preflight.
+ * TSV and TXT files are read in `encoding`, or the detected one, which is returned.
+ */
+export async function readWorkbookFile(
+  file: Blob,
+  ext: string,
+  encoding?: TextEncodingId
+): Promise<{ workbook?: WorkBook; error?: string; warning?: string; repaired?: boolean; encoding?: TextEncodingId }> {
+  const XLSX = await loadXlsx();
+
+  // Text-based formats: TSV, TXT, XML
+  if (ext === '.tsv' || ext === '.txt') {
+    const decoded = decodeText(new Uint8Array(await file.arrayBuffer()), encoding);
+    const text = decoded.text;
+    // Detect delimiter for .txt (prefer tab for .tsv)
+    const { records } = parseCsvText(text, ext === '.tsv' ? '\t' : '');
+    const problems = new CsvProblemLog();
+    const rows: string[][] = [];
+    for (const record of records) {
+      if (record.fields.length === 1 && !record.fields[0]) continue;
+      problems.add(record);
+      rows.push(record.fields);
+    }
+    const ws = XLSX.utils.aoa_to_sheet(rows);
+    return {
+      workbook: { SheetNames: ['Sheet1'], Sheets: { Sheet1: ws } } as WorkBook,
+      warning: problems.describe(),
+      encoding: decoded.encoding
+    };
+  }
+
+  if (ext === '.xml') {
+    const text = await file.text();
+    return { workbook: XLSX.read(text, { type: 'string', cellDates: true, dense: true }) };
+  }
+
+  // Binary formats (.xls, .xlsx, .xlsm, .xlsb, .ods)
+  let warning: string | undefined;
+  if (ext === '.xlsx') {
+    const preflight = await preflightXlsxComplexity(file);
+    if (preflight.error) return { error: preflight.error };
+    warning = preflight.warning;
+  }
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  // XLSX library does not execute macros - reading macro-enabled files is safe.
+  try {
+    return { workbook: XLSX.read(data, { type: 'array', cellDates: true, dense: true }), warning };
+  } catch (binaryReadError: any) {
+    const message = String(binaryReadError?.message || '');
+    const canRepairZip =
+      ext === '.xlsx' &&
+      /bad compressed size|invalid zip|end of data|corrupt|crc/i.test(message);
+    if (!canRepairZip) throw binaryReadError;
+
+    if (DEBUG) console.warn('Primary XLSX parse failed. Attempting ZIP repair...', message);
+    const repairedData = await repairZipContainer(data);
+    return {
+      workbook: XLSX.read(repairedData, { type: 'array', cellDates: true, dense: true }),
+      warning,
+      repaired: true
+    };
+  }
+}
+
+export function assessSheetSize(sheet: WorkSheet, xlsx: typeof import('xlsx')): { error?: string; warning?: string } {
+  const ref = sheet['!ref'];
+  if (!ref) {
+    return { error: 'Selected sheet is empty' };
+  }
+
+  const range = xlsx.utils.decode_range(ref);
+  const rowCount = range.e.r - range.s.r + 1;
+  const colCount = range.e.c - range.s.c + 1;
+  const estimatedCells = rowCount * colCount;
+
+  if (rowCount > MAX_SHEET_ROWS) {
+    return { error: `Sheet has ${rowCount} rows. Maximum supported rows are ${MAX_SHEET_ROWS}.` };
+  }
+
+  if (colCount > MAX_SHEET_COLUMNS) {
+    return { error: `Sheet has ${colCount} columns. Maximum supported columns are ${MAX_SHEET_COLUMNS}.` };
+  }
+
+  if (estimatedCells > MAX_SHEET_CELLS) {
+    return { error: `Sheet is too large (${estimatedCells} cells). Maximum supported cells are ${MAX_SHEET_CELLS}.` };
+  }
+
+  if (rowCount >= LARGE_SHEET_WARNING_ROWS) {
+    return { warning: 'Large sheet detected. Processing may take longer.' };
+  }
+
+  return {};
+}
+
+/**
+ * Guards workbooks that are parsed whole. Uploads with a worksheet above `STREAMED_XLSX_SHEET_XML_BYTES`
+ * (120MB) are streamed by `openLargeXlsx` and never get here, so this only rejects XLSX files read whole
+ * anyway: suppression lists, and uploads the streaming reader could not open.
+ */
+export async function preflightXlsxComplexity(file: Blob): Promise<{ error?: string; warning?: string }> {
+  const maxSheetXmlSize = await largestXlsxSheetXml(file);
+  // If preflight fails, continue with normal parse path.
+  if (!maxSheetXmlSize) return {};
+
+  const TOO_LARGE_XML = 250 * 1024 * 1024; // 250MB uncompressed worksheet XML
+  const LARGE_XML_WARNING = 120 * 1024 * 1024; // 120MB warning
+
+  if (maxSheetXmlSize > TOO_LARGE_XML) {
+    return {
+      error: 'This XLSX is too complex for browser memory. Please save/export it as CSV and upload CSV, or split the workbook into smaller files.'
+    };
+  }
+  if (maxSheetXmlSize > LARGE_XML_WARNING) {
+    return {
+      warning: 'Large XLSX detected. Processing may be slow; CSV format is recommended for best performance.'
+    };
+  }
+  return {};
+}
+
+/**
+ * Uncompressed size of the largest worksheet XML of an XLSX, from the ZIP central directory at the
+ * end of the file, so nothing is loaded or inflated. Null when the file has no readable directory.
+ */
+export async function largestXlsxSheetXml(file: Blob): Promise<number | null> {
+  const EOCD_BYTES = 22;
+  const MAX_COMMENT_BYTES = 0xffff;
+  try {
+    const tailStart = Math.max(0, file.size - EOCD_BYTES - MAX_COMMENT_BYTES);
+    const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+    let eocd = tail.byteLength - EOCD_BYTES;
+    while (eocd >= 0 && tail.getUint32(eocd, true) !== 0x06054b50) eocd--;
+    if (eocd < 0) return null;
+
+    const directorySize = tail.getUint32(eocd + 12, true);
+    const directoryOffset = tail.getUint32(eocd + 16, true);
+    // ZIP64 archives keep the directory position in another record; leave those to JSZip.
+    if (directoryOffset === 0xffffffff || directoryOffset + directorySize > file.size) return null;
+
+    const directory = new DataView(await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+    const names = new TextDecoder();
+    let largest = 0;
+    for (let pos = 0; pos + 46 <= directory.byteLength && directory.getUint32(pos, true) === 0x02014b50; ) {
+      const size = directory.getUint32(pos + 24, true);
+      const nameLength = directory.getUint16(pos + 28, true);
+      const name = names.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength));
+      if (/^xl\/worksheets\/[^/]+\.xml$/i.test(name)) {
+        largest = Math.max(largest, size === 0xffffffff ? Infinity : size);
+      }
+      pos += 46 + nameLength + directory.getUint16(pos + 30, true) + directory.getUint16(pos + 32, true);
+    }
+    return largest;
+  } catch {
+    return null;
+  }
+}
+
+export async function repairZipContainer(data: Uint8Array): Promise<Uint8Array> {
+  const JSZipLib = await loadJsZip();
+  const zip = await JSZipLib.loadAsync(data);
+  const repaired = await zip.generateAsync({
+    type: 'uint8array',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 }
+  });
+  return repaired;
+}
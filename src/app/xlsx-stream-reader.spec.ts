@@ -0,0 +1,90 @@
+import { CleanOptions, cleanSources } from './cleaning-pipeline';
+import { largestXlsxSheetXml, loadJsZip } from './workbook-utils';
+import { XlsxStreamReader, openLargeXlsx } from './xlsx-stream-reader';
+import * as XLSX from 'xlsx';
+import { readBlobText, textBlob } from '../testing/blobs';
+
+describe('XlsxStreamReader', () => {
+  it('should stream rows of a large XLSX as the workbook parser reads them and clean them the same way', async () => {
+    const wb = XLSX.utils.book_new();
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Leads & <Partners>'],
+      [],
+      ['Name', 'Mobile', 'Joined', 'Active'],
+      ['A', 9818202888, new Date(2024, 0, 15), true],
+      ['B', '+91 98182 02888', '', false],
+      ['C', '', '', ''],
+      ['D', 9313123456]
+    ], { cellDates: true });
+    sheet['C6'] = { t: 's', v: 'only column C' };
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['x']]), 'Cover');
+    XLSX.utils.book_append_sheet(wb, sheet, 'Leads');
+    const bytes: ArrayBuffer = XLSX.write(wb, { type: 'array', bookType: 'xlsx', bookSST: true, cellDates: true });
+    const file = { size: bytes.byteLength, arrayBuffer: async () => bytes } as unknown as Blob;
+
+    const parsed = XLSX.read(new Uint8Array(bytes), { type: 'array', cellDates: true, dense: true });
+    const expected: any[][] = XLSX.utils.sheet_to_json(parsed.Sheets['Leads'], { header: 1, defval: '', raw: true });
+    const reader = await XlsxStreamReader.open(file);
+    const streamed: any[][] = [];
+    const { rowCount } = await reader.streamRows('Leads', row => streamed.push(row) > 0);
+
+    expect(reader.sheetNames).toEqual(['Cover', 'Leads']);
+    expect(rowCount).toBe(expected.length);
+    expect(streamed.map(row => row.map(cell => (cell instanceof Date ? cell.getTime() : cell)))).toEqual(
+      expected.map(row => row.map(cell => (cell instanceof Date ? cell.getTime() : cell)))
+    );
+    expect(streamed[0][0]).toBe('Leads & <Partners>');
+
+    // Stopping early still reports the row count the sheet's dimension records.
+    const first: any[][] = [];
+    expect((await reader.streamRows('Leads', row => first.push(row) < 2)).rowCount).toBe(7);
+    expect(first.length).toBe(2);
+
+    const options: CleanOptions = {
+      fileName: 'leads',
+      exportMode: 'full',
+      outputFormat: 'csv',
+      mobile: { countryProfile: 'IN', multiCountryFallback: 'IN' },
+      sources: [
+        {
+          sourceId: 'leads',
+          fileName: 'leads',
+          sheetName: 'Leads',
+          headerRowIndex: 2,
+          headers: ['Name', 'Mobile', 'Joined', 'Active'],
+          selectedColumns: [1],
+          selectedNameColumn: 0
+        }
+      ]
+    };
+    const yieldControl = () => Promise.resolve();
+    const fromRows = await cleanSources([{ rows: expected }], options, { yieldControl });
+    const fromXlsx = await cleanSources([{ xlsx: reader, sheetName: 'Leads' }], options, { yieldControl });
+
+    expect(fromXlsx.stats).toEqual(fromRows.stats);
+    expect(fromXlsx.exportRowCount).toBe(2);
+    expect(await readBlobText(fromXlsx.blob!)).toBe(await readBlobText(fromRows.blob!));
+  });
+
+  it('should size worksheets from the ZIP directory and leave small workbooks unloaded', async () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['x']]), 'Cover');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['Mobile'], ...Array(500).fill(['9818202888'])]), 'Leads');
+    const bytes = new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+    const arrayBuffer = vi.fn(async () => bytes.buffer);
+    const file = {
+      size: bytes.length,
+      slice: (start = 0, end = bytes.length) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+      arrayBuffer
+    } as unknown as Blob;
+
+    const JSZipLib = await loadJsZip();
+    const zip = await JSZipLib.loadAsync(bytes);
+    const leadsXml = (await zip.file('xl/worksheets/sheet2.xml')!.async('uint8array')).length;
+
+    expect(await largestXlsxSheetXml(file)).toBe(leadsXml);
+    expect(await openLargeXlsx(file)).toBeNull();
+    expect(arrayBuffer).not.toHaveBeenCalled();
+    expect(await largestXlsxSheetXml(textBlob('Name,Mobile'))).toBeNull();
+  });
+});
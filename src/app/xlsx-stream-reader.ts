@@ -0,0 +1,559 @@
+import type JSZip from 'jszip';
+import { largestXlsxSheetXml, loadJsZip, loadXlsx } from './workbook-utils';
+
+/** XLSX uploads larger than this are streamed instead of parsed into a workbook. */
+export const STREAMED_XLSX_FILE_BYTES = 80 * 1024 * 1024;
+/** ...as are workbooks with a worksheet larger than this once uncompressed. */
+export const STREAMED_XLSX_SHEET_XML_BYTES = 120 * 1024 * 1024;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OFFICE_DOCUMENT = /\/officeDocument$/;
+
+export interface XlsxStreamHooks {
+  /** Percent of the sheet XML read so far. */
+  onProgress?: (percent: number) => void;
+  yieldControl?: () => Promise<void>;
+}
+
+/** JSZip's chunked reader of one entry; public in JSZip but missing from its typings. */
+interface StreamableEntry {
+  internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>;
+  _data?: { uncompressedSize?: number };
+}
+
+interface XmlHandlers {
+  open(name: string, attrs: string, selfClosing: boolean): void;
+  close(name: string): void;
+  /** Text between tags, still XML-escaped. */
+  text(raw: string): void;
+}
+
+/**
+ * Reads the worksheets of an XLSX without building a workbook: sheet XML is inflated and scanned
+ * chunk by chunk and handed on row by row, so only the shared strings are held in memory. Rows
+ * come out as `sheet_to_json(..., { header: 1, defval: '', raw: true })` gives them, dates included.
+ */
+export class XlsxStreamReader {
+  private strings: Promise<string[]> | null = null;
+  private dateStyles: Promise<boolean[]> | null = null;
+
+  private constructor(
+    private readonly zip: JSZip,
+    private readonly sheets: Array<{ name: string; path: string }>,
+    private readonly workbookDir: string,
+    private readonly date1904: boolean
+  ) {}
+
+  static async open(file: Blob): Promise<XlsxStreamReader> {
+    const JSZipLib = await loadJsZip();
+    const zip = await JSZipLib.loadAsync(await file.arrayBuffer());
+
+    const rootRels = relationships(await readText(zip, '_rels/.rels'), '');
+    const workbookPath = rootRels.find(rel => OFFICE_DOCUMENT.test(rel.type))?.target ?? 'xl/workbook.xml';
+    const workbookXml = await readText(zip, workbookPath);
+    if (!workbookXml) throw new Error(`Not an XLSX workbook: ${workbookPath} is missing`);
+    const workbookDir = workbookPath.replace(/[^/]*$/, '');
+    const rels = relationships(
+      await readText(zip, `${workbookDir}_rels/${workbookPath.slice(workbookDir.length)}.rels`),
+      workbookDir
+    );
+
+    const sheets: Array<{ name: string; path: string }> = [];
+    let date1904 = false;
+    scanXml(workbookXml, {
+      open(name, attrs) {
+        if (name === 'workbookPr') {
+          date1904 = /^(1|true)$/.test(attributes(attrs)['date1904'] ?? '');
+        } else if (name === 'sheet') {
+          const values = attributes(attrs);
+          const id = Object.entries(values).find(([key]) => key === 'id' || key.endsWith(':id'))?.[1];
+          const path = rels.find(rel => rel.id === id)?.target;
+          if (values['name'] && path && zip.file(path)) sheets.push({ name: values['name'], path });
+        }
+      },
+      close() {},
+      text() {}
+    });
+    return new XlsxStreamReader(zip, sheets, workbookDir, date1904);
+  }
+
+  get sheetNames(): string[] {
+    return this.sheets.map(sheet => sheet.name);
+  }
+
+  /** Uncompressed size of the largest worksheet XML, or 0 when the ZIP does not record it. */
+  get largestSheetXml(): number {
+    return Math.max(0, ...this.sheets.map(sheet => {
+      const size = Number((this.zip.file(sheet.path) as unknown as StreamableEntry)?._data?.uncompressedSize);
+      return Number.isFinite(size) ? size : 0;
+    }));
+  }
+
+  /**
+   * Streams the rows of a sheet from its first used row; `onRow` returns false to stop early. The
+   * row count is that of the whole sheet when it was read to the end, else the one its dimension
+   * records, or null when it records none.
+   */
+  async streamRows(
+    sheetName: string,
+    onRow: (row: any[], rowIndex: number) => boolean,
+    hooks: XlsxStreamHooks = {}
+  ): Promise<{ rowCount: number | null }> {
+    const sheet = this.sheets.find(s => s.name === sheetName);
+    if (!sheet) throw new Error(`Sheet "${sheetName}" not found`);
+    const [strings, dateStyles] = await Promise.all([this.sharedStrings(), this.cellDateStyles()]);
+
+    const parser = new SheetParser(strings, dateStyles, this.date1904, onRow);
+    await scanEntry(this.zip.file(sheet.path)!, parser, hooks, () => parser.stopped);
+    return { rowCount: parser.stopped ? parser.dimensionRows : parser.rowCount };
+  }
+
+  private sharedStrings(): Promise<string[]> {
+    if (!this.strings) {
+      const entry = this.zip.file(`${this.workbookDir}sharedStrings.xml`);
+      const parser = new SharedStringParser();
+      this.strings = entry ? scanEntry(entry, parser, {}, () => false).then(() => parser.strings) : Promise.resolve([]);
+    }
+    return this.strings;
+  }
+
+  /** Whether each cell style (the `s` of a cell) has a date number format. */
+  private cellDateStyles(): Promise<boolean[]> {
+    if (!this.dateStyles) {
+      this.dateStyles = Promise.all([loadXlsx(), readText(this.zip, `${this.workbookDir}styles.xml`)]).then(
+        ([XLSX, xml]) => {
+          const formats: Record<string, string> = { ...XLSX.SSF.get_table() };
+          const styles: boolean[] = [];
+          let inCellXfs = false;
+          scanXml(xml ?? '', {
+            open(name, attrs, selfClosing) {
+              const values = attributes(attrs);
+              if (name === 'numFmt') formats[values['numFmtId']] = values['formatCode'] ?? '';
+              else if (name === 'cellXfs') inCellXfs = !selfClosing;
+              else if (name === 'xf' && inCellXfs) styles.push(!!XLSX.SSF.is_date(formats[values['numFmtId'] ?? '0'] ?? ''));
+            },
+            close(name) {
+              if (name === 'cellXfs') inCellXfs = false;
+            },
+            text() {}
+          });
+          return styles;
+        }
+      );
+    }
+    return this.dateStyles;
+  }
+}
+
+/**
+ * Opens an XLSX for streaming when it is too large to parse whole: above `STREAMED_XLSX_FILE_BYTES`
+ * or with a worksheet above `STREAMED_XLSX_SHEET_XML_BYTES`. Null for smaller files, and for files
+ * the streaming reader cannot open, which the workbook parser (and its ZIP repair) then reads.
+ * Smaller files are told apart by their ZIP directory alone, without loading them.
+ */
+export async function openLargeXlsx(file: Blob): Promise<XlsxStreamReader | null> {
+  try {
+    if (file.size <= STREAMED_XLSX_FILE_BYTES) {
+      const sheetXml = await largestXlsxSheetXml(file);
+      if (sheetXml !== null && sheetXml <= STREAMED_XLSX_SHEET_XML_BYTES) return null;
+    }
+    const reader = await XlsxStreamReader.open(file);
+    const large = file.size > STREAMED_XLSX_FILE_BYTES || reader.largestSheetXml > STREAMED_XLSX_SHEET_XML_BYTES;
+    return large && reader.sheetNames.length ? reader : null;
+  } catch (error) {
+    console.warn('Streaming XLSX reader could not open the file.', error);
+    return null;
+  }
+}
+
+/* ================= SHEET XML ================= */
+
+/** Turns `<row>` and `<c>` elements into rows of values, filling skipped rows and cells. */
+class SheetParser implements XmlHandlers {
+  stopped = false;
+  rowCount = 0;
+  dimensionRows: number | null = null;
+
+  private firstRow: number | null = null;
+  private firstCol = 0;
+  private width = 0;
+  private cells: any[] | null = null;
+  private col = -1;
+  private type = 'n';
+  private style = 0;
+  private value: string | null = null;
+  private inline = '';
+  private inInline = false;
+  private inPhonetic = false;
+  private capture: string | null = null;
+
+  constructor(
+    private readonly strings: string[],
+    private readonly dateStyles: boolean[],
+    private readonly date1904: boolean,
+    private readonly onRow: (row: any[], rowIndex: number) => boolean
+  ) {}
+
+  open(name: string, attrs: string, selfClosing: boolean) {
+    if (this.stopped) return;
+    switch (name) {
+      case 'dimension': {
+        const [start, end = start] = (attributes(attrs)['ref'] ?? '').split(':').map(cellAddress);
+        if (start && end && this.firstRow === null) {
+          this.firstRow = start.row;
+          this.firstCol = start.col;
+          this.width = end.col - start.col + 1;
+          this.dimensionRows = end.row - start.row + 1;
+        }
+        break;
+      }
+      case 'row': {
+        const r = Number(attributes(attrs)['r']);
+        const index = Number.isInteger(r) && r > 0 ? r - 1 : this.nextRow();
+        if (this.firstRow === null) this.firstRow = index;
+        // Rows left out of the XML are blank rows, as `sheet_to_json` gives them.
+        for (let blank = this.nextRow(); blank < index && !this.stopped; blank++) this.emit([]);
+        this.cells = [];
+        this.col = this.firstCol - 1;
+        if (selfClosing) this.endRow();
+        break;
+      }
+      case 'c': {
+        const values = attributes(attrs);
+        this.col = cellAddress(values['r'] ?? '')?.col ?? this.col + 1;
+        this.type = values['t'] ?? 'n';
+        this.style = Number(values['s'] ?? 0);
+        this.value = null;
+        this.inline = '';
+        break;
+      }
+      case 'v':
+        if (!selfClosing) this.capture = '';
+        break;
+      case 'is':
+        this.inInline = !selfClosing;
+        break;
+      case 'rPh':
+        this.inPhonetic = !selfClosing;
+        break;
+      case 't':
+        if (this.inInline && !this.inPhonetic && !selfClosing) this.capture = '';
+        break;
+    }
+  }
+
+  close(name: string) {
+    if (this.stopped) return;
+    switch (name) {
+      case 'v':
+        this.value = this.capture;
+        this.capture = null;
+        break;
+      case 't':
+        if (this.capture !== null) this.inline += this.capture;
+        this.capture = null;
+        break;
+      case 'rPh':
+        this.inPhonetic = false;
+        break;
+      case 'is':
+        this.inInline = false;
+        this.value = this.inline;
+        break;
+      case 'c':
+        if (this.cells && this.value !== null && this.col >= this.firstCol) {
+          this.cells[this.col - this.firstCol] = this.cellValue(this.value);
+        }
+        break;
+      case 'row':
+        this.endRow();
+        break;
+    }
+  }
+
+  text(raw: string) {
+    if (this.capture !== null) this.capture += unescapeXml(raw);
+  }
+
+  private nextRow(): number {
+    return this.firstRow === null ? 0 : this.firstRow + this.rowCount;
+  }
+
+  private endRow() {
+    if (!this.cells) return;
+    // Rows with cells are as wide as the sheet; rows without stay empty.
+    if (this.cells.length && this.cells.length < this.width) this.cells.length = this.width;
+    const row = Array.from(this.cells, cell => cell ?? '');
+    this.cells = null;
+    this.emit(row);
+  }
+
+  private emit(row: any[]) {
+    const index = this.rowCount++;
+    if (!this.onRow(row, index)) this.stopped = true;
+  }
+
+  /** Cell value as the workbook parser gives it with `cellDates` and raw values. */
+  private cellValue(value: string): any {
+    switch (this.type) {
+      case 's':
+        return this.strings[Number(value)] ?? '';
+      case 'str':
+      case 'inlineStr':
+        return value;
+      case 'b':
+        return value === '1' || value === 'true';
+      case 'e':
+        return '';
+      case 'd':
+        return new Date(value);
+      default: {
+        if (value === '') return '';
+        const number = Number(value);
+        return this.dateStyles[this.style] ? excelDate(number, this.date1904) : number;
+      }
+    }
+  }
+}
+
+/** Text of each `<si>` in sharedStrings.xml, rich-text runs joined and phonetic hints left out. */
+class SharedStringParser implements XmlHandlers {
+  readonly strings: string[] = [];
+  private current = '';
+  private inPhonetic = false;
+  private capture: string | null = null;
+
+  open(name: string, _attrs: string, selfClosing: boolean) {
+    if (name === 'si') this.current = '';
+    else if (name === 'rPh') this.inPhonetic = !selfClosing;
+    else if (name === 't' && !this.inPhonetic && !selfClosing) this.capture = '';
+    if (name === 'si' && selfClosing) this.strings.push('');
+  }
+
+  close(name: string) {
+    if (name === 't') {
+      if (this.capture !== null) this.current += this.capture;
+      this.capture = null;
+    } else if (name === 'rPh') {
+      this.inPhonetic = false;
+    } else if (name === 'si') {
+      this.strings.push(this.current);
+    }
+  }
+
+  text(raw: string) {
+    if (this.capture !== null) this.capture += unescapeXml(raw);
+  }
+}
+
+/* ================= XML SCANNING ================= */
+
+/**
+ * Minimal pull scanner for the XML of a workbook: element names lose their namespace prefix,
+ * attributes are passed on unparsed, and comments, processing instructions and declarations are
+ * skipped. Text is only handed on once the tag after it arrives, so no value is split.
+ */
+class XmlScanner {
+  private rest = '';
+
+  constructor(private readonly handlers: XmlHandlers) {}
+
+  push(chunk: string, final = false) {
+    const text = this.rest + chunk;
+    let pos = 0;
+    while (pos < text.length) {
+      const lt = text.indexOf('<', pos);
+      if (lt === -1) break;
+      // Wait for enough characters to tell a comment from an element.
+      if (!final && text.length - lt < 4) break;
+
+      let end: number;
+      if (text.startsWith('<!--', lt)) {
+        end = text.indexOf('-->', lt + 4);
+        if (end !== -1) end += 2;
+      } else {
+        end = text.indexOf('>', lt);
+        // A '>' inside a quoted attribute value does not end the tag.
+        while (end !== -1 && quotesOpen(text, lt, end)) end = text.indexOf('>', end + 1);
+      }
+      if (end === -1) break;
+
+      if (lt > pos) this.handlers.text(text.slice(pos, lt));
+      this.tag(text.slice(lt + 1, end));
+      pos = end + 1;
+    }
+    this.rest = text.slice(pos);
+  }
+
+  end() {
+    this.push('', true);
+    this.rest = '';
+  }
+
+  private tag(inner: string) {
+    const first = inner[0];
+    if (first === '?' || first === '!') return;
+    if (first === '/') {
+      this.handlers.close(localName(inner.slice(1).trim()));
+      return;
+    }
+    const selfClosing = inner.endsWith('/');
+    const body = selfClosing ? inner.slice(0, -1) : inner;
+    const nameEnd = body.search(/\s/);
+    const name = nameEnd === -1 ? body : body.slice(0, nameEnd);
+    this.handlers.open(localName(name), nameEnd === -1 ? '' : body.slice(nameEnd), selfClosing);
+  }
+}
+
+function scanXml(xml: string, handlers: XmlHandlers) {
+  const scanner = new XmlScanner(handlers);
+  scanner.push(xml);
+  scanner.end();
+}
+
+/**
+ * Inflates one ZIP entry chunk by chunk into the scanner. Pauses the inflation to yield between
+ * time slices, and stops early once `stopped` says so.
+ */
+function scanEntry(
+  entry: JSZip.JSZipObject,
+  handlers: XmlHandlers,
+  hooks: XlsxStreamHooks,
+  stopped: () => boolean
+): Promise<void> {
+  const scanner = new XmlScanner(handlers);
+  const decoder = new TextDecoder('utf-8');
+  const stream = (entry as unknown as StreamableEntry).internalStream('uint8array');
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let sliceStartMs = Date.now();
+    const settle = (error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      stream.pause();
+      if (error) reject(error);
+      else resolve();
+    };
+
+    stream
+      .on('data', (chunk, metadata) => {
+        if (settled) return;
+        try {
+          scanner.push(decoder.decode(chunk, { stream: true }));
+        } catch (error) {
+          settle(error);
+          return;
+        }
+        if (stopped()) {
+          settle();
+          return;
+        }
+        hooks.onProgress?.(metadata.percent);
+        if (hooks.yieldControl && Date.now() - sliceStartMs >= 20) {
+          stream.pause();
+          hooks.yieldControl().then(() => {
+            sliceStartMs = Date.now();
+            if (!settled) stream.resume();
+          }, settle);
+        }
+      })
+      .on('error', error => settle(error))
+      .on('end', () => {
+        if (settled) return;
+        try {
+          scanner.push(decoder.decode());
+          scanner.end();
+          settle();
+        } catch (error) {
+          settle(error);
+        }
+      })
+      .resume();
+  });
+}
+
+async function readText(zip: JSZip, path: string): Promise<string | null> {
+  return (await zip.file(path)?.async('string')) ?? null;
+}
+
+/** Relationships of a part; targets are resolved against `baseDir` to paths in the ZIP. */
+function relationships(xml: string | null, baseDir: string): Array<{ id: string; type: string; target: string }> {
+  const rels: Array<{ id: string; type: string; target: string }> = [];
+  scanXml(xml ?? '', {
+    open(name, attrs) {
+      if (name !== 'Relationship') return;
+      const values = attributes(attrs);
+      const target = values['Target'] ?? '';
+      if (values['TargetMode'] === 'External' || !target) return;
+      rels.push({ id: values['Id'] ?? '', type: values['Type'] ?? '', target: resolvePath(baseDir, target) });
+    },
+    close() {},
+    text() {}
+  });
+  return rels;
+}
+
+function resolvePath(baseDir: string, target: string): string {
+  const parts = (target.startsWith('/') ? target.slice(1) : baseDir + target).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.' && part !== '') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+function attributes(attrs: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(attrs))) values[match[1]] = unescapeXml(match[2] ?? match[3]);
+  return values;
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function quotesOpen(text: string, start: number, end: number): boolean {
+  let quotes = 0;
+  for (let i = text.indexOf('"', start); i !== -1 && i < end; i = text.indexOf('"', i + 1)) quotes++;
+  return quotes % 2 === 1;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** XML entities and the `_xHHHH_` escapes Excel writes for control characters. */
+function unescapeXml(text: string): string {
+  if (!text.includes('&') && !text.includes('_x')) return text;
+  return text
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) =>
+      entity[0] === '#'
+        ? String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)))
+        : XML_ENTITIES[entity]
+    );
+}
+
+/** Zero-based row and column of an A1 reference. */
+function cellAddress(ref: string): { row: number; col: number } | null {
+  const match = /^\$?([A-Za-z]{1,3})\$?(\d+)$/.exec(ref);
+  if (!match) return null;
+  let col = 0;
+  for (const letter of match[1].toUpperCase()) col = col * 26 + letter.charCodeAt(0) - 64;
+  return { row: Number(match[2]) - 1, col: col - 1 };
+}
+
+/** Local date of an Excel serial date, the way the xlsx library converts them with `cellDates`. */
+function excelDate(serial: number, date1904: boolean): Date {
+  const now = new Date();
+  const base = new Date(1899, 11, 30);
+  const epoch = base.getTime() + (now.getTimezoneOffset() - base.getTimezoneOffset()) * 60000;
+  const date = new Date((serial + (date1904 ? 1462 : 0)) * DAY_MS + epoch);
+  if (date.getTimezoneOffset() !== now.getTimezoneOffset()) {
+    date.setTime(date.getTime() + (date.getTimezoneOffset() - now.getTimezoneOffset()) * 60000);
+  }
+  return date;
+}
@@ -0,0 +1,60 @@
+import { XlsxStreamWriter } from './xlsx-writer';
+import * as XLSX from 'xlsx';
+import { readBlobBuffer } from '../testing/blobs';
+
+/** Just enough of the origin private file system for spilled sheets. */
+class FakeFileHandle {
+  data = new Uint8Array(0);
+
+  async createSyncAccessHandle() {
+    return {
+      write: (bytes: Uint8Array, { at }: { at: number }) => {
+        const grown = new Uint8Array(Math.max(this.data.length, at + bytes.length));
+        grown.set(this.data);
+        grown.set(bytes, at);
+        this.data = grown;
+        return bytes.length;
+      },
+      flush() {},
+      close() {}
+    };
+  }
+
+  async getFile() {
+    return new Blob([this.data]);
+  }
+}
+
+describe('XlsxStreamWriter', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('should spill long sheets to temporary files and remove them once the workbook is built', async () => {
+    const files = new Map<string, FakeFileHandle>();
+    const spilled: FakeFileHandle[] = [];
+    const root = {
+      getFileHandle: async (name: string) => {
+        spilled.push(new FakeFileHandle());
+        files.set(name, spilled[spilled.length - 1]);
+        return spilled[spilled.length - 1];
+      },
+      removeEntry: async (name: string) => void files.delete(name)
+    };
+    vi.stubGlobal('FileSystemFileHandle', FakeFileHandle);
+    vi.stubGlobal('navigator', { storage: { getDirectory: async () => root } });
+
+    const rows = 45000;
+    const workbook = new XlsxStreamWriter(false, true);
+    const sheet = workbook.addSheet('Valid Numbers', ['Row', 'Column', 'Original_Value', 'Cleaned_Number']);
+    for (let row = 2; row <= rows + 1; row++) sheet.write([row, 'Mobile', '98182 02888', '+919818202888']);
+
+    const blob = await workbook.toBlob();
+
+    expect(spilled.length).toBe(1);
+    expect(spilled[0].data.length).toBeGreaterThan(0);
+    expect(files.size).toBe(0);
+    const parsed = XLSX.read(await readBlobBuffer(blob), { type: 'array' });
+    const written = XLSX.utils.sheet_to_json<any[]>(parsed.Sheets['Valid Numbers'], { header: 1 });
+    expect(written.length).toBe(rows + 1);
+    expect(written[rows]).toEqual([rows + 1, 'Mobile', '98182 02888', '+919818202888']);
+  });
+});
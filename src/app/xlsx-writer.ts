@@ -0,0 +1,350 @@
+import { sanitizeForExcelCell } from './csv-utils';
+import { loadJsZip, zipInput } from './workbook-utils';
+
+/** Excel's row limit per worksheet; longer sheets continue on "Name (2)", "Name (3)", ... */
+export const XLSX_MAX_ROWS = 1048576;
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const FLUSH_CHARS = 2 * 1024 * 1024;
+/** Sheet XML a page keeps as in-memory Blob parts before a spilling writer moves the rest to disk. */
+const SPILL_CHARS = 8 * 1024 * 1024;
+
+/** A row kept as values because a duplicate strategy may still change it. */
+interface PendingRow {
+  rowNumber: number;
+  cells: any[];
+}
+
+interface SheetPart {
+  name: string;
+  parts: Array<Blob | PendingRow | SpillFile>;
+  rows: number;
+  chars: number;
+}
+
+/** The part of OPFS's synchronous file handle a spill file uses; missing from the DOM typings. */
+interface SyncAccessHandle {
+  write(data: Uint8Array, options: { at: number }): number;
+  flush(): void;
+  close(): void;
+}
+
+let spillFiles = 0;
+
+/**
+ * Temporary file in the origin private file system (OPFS) that sheet XML is appended to, so that
+ * long sheets are held on disk rather than by the tab. Writes queue behind opening the file.
+ * Synchronous access handles only exist in dedicated workers; see `supported()`.
+ */
+class SpillFile {
+  private readonly name = `xlsx-part-${Date.now()}-${++spillFiles}.xml`;
+  private readonly opened: Promise<{
+    root: FileSystemDirectoryHandle;
+    handle: FileSystemFileHandle;
+    access: SyncAccessHandle;
+  }>;
+  private writing: Promise<void>;
+  private size = 0;
+  private closed = false;
+
+  constructor() {
+    this.opened = navigator.storage.getDirectory().then(async root => {
+      const handle = await root.getFileHandle(this.name, { create: true });
+      const access = await (
+        handle as unknown as { createSyncAccessHandle(): Promise<SyncAccessHandle> }
+      ).createSyncAccessHandle();
+      return { root, handle, access };
+    });
+    this.writing = this.opened.then(() => undefined);
+  }
+
+  static supported(): boolean {
+    return (
+      typeof FileSystemFileHandle !== 'undefined' &&
+      'createSyncAccessHandle' in FileSystemFileHandle.prototype &&
+      typeof navigator.storage?.getDirectory === 'function'
+    );
+  }
+
+  append(text: string) {
+    const bytes = new TextEncoder().encode(text);
+    this.writing = this.writing.then(async () => {
+      const { access } = await this.opened;
+      this.size += access.write(bytes, { at: this.size });
+    });
+  }
+
+  /** The written file, read back from disk as the workbook is zipped. */
+  async close(): Promise<File> {
+    await this.writing;
+    const { handle, access } = await this.opened;
+    access.flush();
+    access.close();
+    this.closed = true;
+    return handle.getFile();
+  }
+
+  async remove() {
+    const { root, access } = await this.opened;
+    await this.writing.catch(() => undefined);
+    if (!this.closed) access.close();
+    this.closed = true;
+    await root.removeEntry(this.name);
+  }
+}
+
+/**
+ * One logical sheet of a streamed workbook. Rows are turned into sheet XML as they arrive and kept
+ * as Blob parts, so no worksheet object is ever built in memory and the browser may move large
+ * sheets out of the JS heap. With `spill`, XML past `SPILL_CHARS` per page goes to OPFS files instead.
+ */
+export class XlsxSheetWriter {
+  private readonly pages: SheetPart[] = [];
+  private buffer = '';
+  private dataRows = 0;
+
+  constructor(
+    private readonly baseName: string,
+    private readonly header: any[],
+    private readonly sheetName: (base: string, page: number) => string,
+    private readonly spill = false
+  ) {
+    this.startPage();
+  }
+
+  get count() {
+    return this.dataRows;
+  }
+
+  write(row: any[], pending = false) {
+    let page = this.pages[this.pages.length - 1];
+    if (page.rows >= XLSX_MAX_ROWS) page = this.startPage();
+    page.rows++;
+    this.dataRows++;
+    if (pending) {
+      this.flush();
+      page.parts.push({ rowNumber: page.rows, cells: row });
+      return;
+    }
+    this.buffer += rowXml(page.rows, row);
+    if (this.buffer.length >= FLUSH_CHARS) this.flush();
+  }
+
+  /** Sheet XML of every page, in order. */
+  async finish(): Promise<Array<{ name: string; xml: Blob }>> {
+    this.flush();
+    return Promise.all(
+      this.pages.map(async page => {
+        const parts = await Promise.all(page.parts.map(part => (part instanceof SpillFile ? part.close() : part)));
+        return {
+          name: page.name,
+          xml: new Blob([
+            `${XML_HEAD}<worksheet xmlns="${MAIN_NS}"><sheetData>`,
+            ...parts.map(part => (part instanceof Blob ? part : rowXml(part.rowNumber, part.cells))),
+            '</sheetData></worksheet>'
+          ])
+        };
+      })
+    );
+  }
+
+  /** Deletes the spill files once the workbook no longer reads them. */
+  async discard() {
+    const files = this.pages.flatMap(page => page.parts.filter(part => part instanceof SpillFile));
+    await Promise.all(files.map(file => file.remove()));
+  }
+
+  private startPage(): SheetPart {
+    this.flush();
+    const name = this.sheetName(this.baseName, this.pages.length + 1);
+    const page: SheetPart = { name, parts: [], rows: 1, chars: 0 };
+    this.pages.push(page);
+    this.buffer = rowXml(1, this.header);
+    return page;
+  }
+
+  private flush() {
+    if (!this.buffer) return;
+    const page = this.pages[this.pages.length - 1];
+    const last = page.parts[page.parts.length - 1];
+    if (last instanceof SpillFile) {
+      last.append(this.buffer);
+    } else if (this.spill && page.chars >= SPILL_CHARS) {
+      const file = new SpillFile();
+      file.append(this.buffer);
+      page.parts.push(file);
+    } else {
+      page.parts.push(new Blob([this.buffer]));
+    }
+    page.chars += this.buffer.length;
+    this.buffer = '';
+  }
+}
+
+/**
+ * Minimal XLSX writer: inline-string cells, no shared strings or styles beyond the default, so
+ * memory grows with the sheet XML text rather than with a SheetJS workbook.
+ */
+export class XlsxStreamWriter {
+  private readonly sheets: XlsxSheetWriter[] = [];
+  private readonly usedNames = new Set<string>();
+
+  /**
+   * @param keepEmptySheets Write sheets that only have their header row.
+   * @param spillToDisk Move long sheets to temporary OPFS files where the runtime has them (dedicated
+   * workers); elsewhere they stay in Blob parts.
+   */
+  constructor(
+    private readonly keepEmptySheets = false,
+    private readonly spillToDisk = false
+  ) {}
+
+  addSheet(name: string, header: any[]): XlsxSheetWriter {
+    const spill = this.spillToDisk && SpillFile.supported();
+    const sheet = new XlsxSheetWriter(name, header, (base, page) => this.uniqueName(base, page), spill);
+    this.sheets.push(sheet);
+    return sheet;
+  }
+
+  /** Builds the workbook; sheets without data rows are left out unless `keepEmptySheets` is set. */
+  async toBlob(): Promise<Blob> {
+    try {
+      return await this.zip();
+    } finally {
+      await Promise.all(this.sheets.map(sheet => sheet.discard())).catch(error =>
+        console.warn('Temporary sheet files could not be removed.', error)
+      );
+    }
+  }
+
+  private async zip(): Promise<Blob> {
+    const sheets = this.sheets.filter(sheet => this.keepEmptySheets || sheet.count > 0);
+    const pages = (await Promise.all(sheets.map(sheet => sheet.finish()))).flat();
+    if (!pages.length) throw new Error('Workbook has no rows');
+
+    const JSZipLib = await loadJsZip();
+    const zip = new JSZipLib();
+    zip.file('[Content_Types].xml', contentTypesXml(pages.length));
+    zip.file(
+      '_rels/.rels',
+      `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    );
+    zip.file(
+      'xl/workbook.xml',
+      `${XML_HEAD}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+        pages
+          .map((page, idx) => `<sheet name="${escapeXml(page.name)}" sheetId="${idx + 1}" r:id="rId${idx + 1}"/>`)
+          .join('') +
+        '</sheets></workbook>'
+    );
+    zip.file('xl/_rels/workbook.xml.rels', workbookRelsXml(pages.length));
+    zip.file('xl/styles.xml', STYLES_XML);
+    pages.forEach((page, idx) => zip.file(`xl/worksheets/sheet${idx + 1}.xml`, zipInput(page.xml)));
+
+    return zip.generateAsync({
+      type: 'blob',
+      mimeType: XLSX_MIME,
+      compression: 'DEFLATE',
+      streamFiles: true
+    });
+  }
+
+  private uniqueName(base: string, page: number): string {
+    const clean = base.replace(/[\[\]:*?/\\]/g, '_').trim().slice(0, 31) || 'Sheet';
+    let name = page > 1 ? withSuffix(clean, page) : clean;
+    for (let n = page + 1; this.usedNames.has(name.toLowerCase()); n++) name = withSuffix(clean, n);
+    this.usedNames.add(name.toLowerCase());
+    return name;
+  }
+}
+
+function withSuffix(base: string, n: number): string {
+  const suffix = ` (${n})`;
+  return base.slice(0, 31 - suffix.length) + suffix;
+}
+
+const columnNames: string[] = [];
+
+function columnName(index: number): string {
+  if (!columnNames[index]) {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    columnNames[index] = name;
+  }
+  return columnNames[index];
+}
+
+function rowXml(rowNumber: number, row: any[]): string {
+  let xml = `<row r="${rowNumber}">`;
+  row.forEach((value, col) => {
+    const cell = sanitizeForExcelCell(value);
+    if (cell === null || cell === '') return;
+    const ref = `${columnName(col)}${rowNumber}`;
+    if (typeof cell === 'number' && Number.isFinite(cell)) {
+      xml += `<c r="${ref}"><v>${cell}</v></c>`;
+    } else if (typeof cell === 'boolean') {
+      xml += `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+    } else {
+      const text = cell instanceof Date ? cell.toISOString() : String(cell);
+      xml += `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    }
+  });
+  return `${xml}</row>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function contentTypesXml(sheetCount: number): string {
+  const sheets = Array.from(
+    { length: sheetCount },
+    (_, idx) =>
+      `<Override PartName="/xl/worksheets/sheet${idx + 1}.xml" ` +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  ).join('');
+  return (
+    `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    `${sheets}</Types>`
+  );
+}
+
+function workbookRelsXml(sheetCount: number): string {
+  const sheets = Array.from(
+    { length: sheetCount },
+    (_, idx) =>
+      `<Relationship Id="rId${idx + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${idx + 1}.xml"/>`
+  ).join('');
+  return (
+    `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets}` +
+    `<Relationship Id="rId${sheetCount + 1}" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`
+  );
+}
+
+const STYLES_XML =
+  `${XML_HEAD}<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/></cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
@@ -0,0 +1,40 @@
+// @vitest-environment node
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { expandInputs } from './glob';
+
+describe('expandInputs', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'glob-'));
+    for (const file of ['a.csv', 'b.csv', 'c.xlsx', 'reports/2024/jan.xlsx', 'reports/feb.xlsx', '.hidden/d.csv']) {
+      await mkdir(path.join(dir, path.dirname(file)), { recursive: true });
+      await writeFile(path.join(dir, file), '');
+    }
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('should expand *, ?, [abc] and ** and keep arguments without glob characters as given', async () => {
+    const at = (file: string) => path.join(dir, file);
+    expect(await expandInputs([at('*.csv'), at('?.xlsx'), at('[ac].*'), at('a.csv'), at('missing.csv')])).toEqual({
+      files: [at('a.csv'), at('b.csv'), at('c.xlsx'), at('missing.csv')],
+      unmatched: []
+    });
+    expect((await expandInputs([at('**/*.xlsx')])).files).toEqual([
+      at('c.xlsx'),
+      at('reports/2024/jan.xlsx'),
+      at('reports/feb.xlsx')
+    ]);
+  });
+
+  it('should list every pattern that matches no file', async () => {
+    const at = (file: string) => path.join(dir, file);
+    expect(await expandInputs([at('a.csv'), at('reports/*.xslx'), at('*.csv'), at('[xyz].csv')])).toEqual({
+      files: [at('a.csv'), at('b.csv')],
+      unmatched: [at('reports/*.xslx'), at('[xyz].csv')]
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { readdir } from 'node:fs/promises';
+import * as path from 'node:path';
+
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Expands `*`, `?`, `[abc]` and `**` in input arguments, for shells (and npm scripts) that pass
+ * patterns through unexpanded. Arguments without glob characters are kept as given; patterns that
+ * match no file are listed in `unmatched`.
+ */
+export async function expandInputs(patterns: string[]): Promise<{ files: string[]; unmatched: string[] }> {
+  const files: string[] = [];
+  const unmatched: string[] = [];
+  for (const pattern of patterns) {
+    if (!GLOB_CHARS.test(pattern)) {
+      files.push(pattern);
+      continue;
+    }
+    const segments = pattern.split(/[\\/]/);
+    const first = segments.findIndex(segment => GLOB_CHARS.test(segment));
+    const base = segments.slice(0, first).join('/') || (pattern.startsWith('/') ? '/' : '.');
+    const matches = await walk(base, segments.slice(first));
+    if (!matches.length) unmatched.push(pattern);
+    files.push(...matches.sort());
+  }
+  return { files: [...new Set(files)], unmatched };
+}
+
+async function walk(dir: string, segments: string[]): Promise<string[]> {
+  const [segment, ...rest] = segments;
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const matches: string[] = [];
+  if (segment === '**') {
+    // `**` matches no directory at all as well as any depth of them.
+    matches.push(...(await walk(dir, rest)));
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.')) {
+        matches.push(...(await walk(path.join(dir, entry.name), segments)));
+      }
+    }
+    return matches;
+  }
+
+  const regex = segmentRegex(segment);
+  for (const entry of entries) {
+    if (!regex.test(entry.name) || (entry.name.startsWith('.') && !segment.startsWith('.'))) continue;
+    const full = path.join(dir, entry.name);
+    if (!rest.length) {
+      if (entry.isFile()) matches.push(full);
+    } else if (entry.isDirectory()) {
+      matches.push(...(await walk(full, rest)));
+    }
+  }
+  return matches;
+}
+
+function segmentRegex(segment: string): RegExp {
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    const close = char === '[' ? segment.indexOf(']', i + 1) : -1;
+    if (char === '*') source += '[^/]*';
+    else if (char === '?') source += '[^/]';
+    else if (close > i + 1) {
+      source += `[${segment.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      i = close;
+    } else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+}
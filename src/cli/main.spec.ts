@@ -0,0 +1,81 @@
+// @vitest-environment node
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { main } from './main';
+import { EXIT } from './spreadsheet';
+
+describe('excel-mobile-cleaner', () => {
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'cli-'));
+    stdout = '';
+    stderr = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => ((stdout += chunk), true));
+    vi.spyOn(process.stderr, 'write').mockImplementation(chunk => ((stderr += chunk), true));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const at = (file: string) => path.join(dir, file);
+
+  it('should clean every matching file and print a JSON summary of each', async () => {
+    await writeFile(at('north.csv'), 'Name,Mobile\nA,9818202888\nB,98182 02888\nC,9313123456\nD,9845123456\nE,12345\n');
+    await writeFile(at('south.csv'), 'Phone,City\n9000000001,Pune\n9000000002,Delhi\n9000000003,Agra\n');
+
+    const exitCode = await main([at('*.csv'), '-m', 'unique', '-f', 'csv', '-o', at('out')]);
+
+    expect(exitCode).toBe(EXIT.ok);
+    const summary = JSON.parse(stdout);
+    expect(summary.exitCode).toBe(EXIT.ok);
+    expect(
+      summary.files.map((file: any) => [file.input, file.exitCode, file.mobileColumns, file.exportRowCount])
+    ).toEqual([
+      [at('north.csv'), EXIT.ok, ['Mobile'], 3],
+      [at('south.csv'), EXIT.ok, ['Phone'], 3]
+    ]);
+    expect(summary.files[0]).toEqual(
+      expect.objectContaining({ sheet: 'CSV', headerRow: 1, nameColumn: 'Name', output: expect.any(String) })
+    );
+    expect(summary.files[0].stats).toEqual(
+      expect.objectContaining({ total: 5, valid: 3, duplicates: 1, invalidLength: 1 })
+    );
+    expect(await readFile(summary.files[0].output, 'utf8')).toContain('+919818202888');
+  });
+
+  it('should exit with the usage code for bad arguments and patterns that match nothing', async () => {
+    await writeFile(at('a.csv'), 'Mobile\n9818202888\n');
+
+    expect(await main([])).toBe(EXIT.usage);
+    expect(await main([at('a.csv'), '--mode', 'everything'])).toBe(EXIT.usage);
+    expect(await main([at('a.csv'), at('reports/*.xslx')])).toBe(EXIT.usage);
+    expect(stderr).toContain(`No files match ${at('reports/*.xslx')}.`);
+    expect(stdout).toBe('');
+  });
+
+  it('should exit with the code of the first file that failed', async () => {
+    await writeFile(at('a.csv'), 'Mobile\n9818202888\n9313123456\n9845123456\n');
+    await writeFile(at('b.csv'), '\n\n');
+
+    expect(await main([at('a.csv'), at('b.csv'), '-o', at('out')])).toBe(EXIT.emptySheet);
+    expect(JSON.parse(stdout).files.map((file: any) => [file.exitCode, file.error])).toEqual([
+      [EXIT.ok, undefined],
+      [EXIT.emptySheet, 'CSV file is empty']
+    ]);
+
+    stdout = '';
+    expect(await main([at('missing.csv')])).toBe(EXIT.failed);
+    expect(JSON.parse(stdout)).toEqual({
+      exitCode: EXIT.failed,
+      files: [
+        { input: at('missing.csv'), exitCode: EXIT.failed, error: expect.stringContaining('Failed to read the file') }
+      ]
+    });
+  });
+});
@@ -0,0 +1,318 @@
+#!/usr/bin/env node
+/**
+ * excel-mobile-cleaner: cleans spreadsheets from the command line with the same rules as the web app
+ * and prints a JSON summary of every file to stdout. Build with `npm run build:cli`.
+ */
+
+import { openAsBlob } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+import { MobileCleanerOptions } from '../app/mobile-cleaner';
+import { COUNTRY_CODES, CountryCode, CountryProfileId } from '../app/phone-profiles';
+import { TEXT_ENCODINGS, TextEncodingId, isTextEncoding } from '../app/text-encoding';
+import { EMPTY_VALIDATION_RULES, ValidationRules, validateRules } from '../app/validation-rules';
+import { CleaningStats, DuplicateStrategy, ExportMode } from '../app/cleaning-pipeline';
+import { expandInputs } from './glob';
+import { serve } from './server';
+import {
+  DUPLICATE_STRATEGIES,
+  EXIT,
+  EXPORT_MODES,
+  Failure,
+  LoadedSpreadsheet,
+  cleanFailureCode,
+  cleanSpreadsheet,
+  columnLabel,
+  exportBaseName,
+  isFailure,
+  loadSpreadsheet,
+  mapColumns
+} from './spreadsheet';
+
+const USAGE = `Usage: excel-mobile-cleaner [options] <file or glob>...
+       excel-mobile-cleaner serve [--port 8080] [--host 127.0.0.1]
+
+Cleans the mobile numbers of each spreadsheet (.xls, .xlsx, .xlsm, .xlsb, .ods, .csv, .tsv, .txt,
+.xml) and writes the export next to it. A JSON summary of every file is printed to stdout.
+
+Options:
+  -s, --sheet <name|n>        Sheet to clean, by name or 1-based number (default: first sheet)
+  -e, --encoding <name>       Encoding of CSV/TSV/TXT files: ${TEXT_ENCODINGS.map(e => e.id).join(', ')}
+                              or auto (default: auto, detected per file)
+  -H, --header-row <n|auto>   1-based header row, or auto to detect it (default: auto)
+  -c, --columns <list>        Mobile columns, comma-separated header names or 1-based numbers
+                              (default: detected)
+  -n, --name-column <name|n>  Name column for mobile-name exports (default: detected)
+  -m, --mode <mode>           full, unique, mobile-name or keep-all (default: full)
+  -f, --format <type>         xlsx or csv (default: xlsx)
+      --country <code>        Country profile: ${COUNTRY_CODES.join(', ')} or multi (default: IN)
+      --fallback <code>       Country of numbers without a prefix in multi mode (default: IN)
+      --duplicates <rule>     Row kept for a repeated number: first, last, mostComplete or merge
+      --rules <file.json>     Validation rules, as saved by the web app
+      --audit                 Also write an audit workbook with every statistics row
+  -o, --out-dir <dir>         Write exports here instead of next to each input
+  -h, --help                  Show this help
+
+serve runs the cleaner as a local HTTP service instead; see excel-mobile-cleaner serve --help.
+
+Exit codes: 0 done, 1 failed, 2 bad arguments, 3 no valid numbers, 4 empty sheet, 5 sheet too large.
+`;
+
+interface CliOptions {
+  sheet?: string;
+  encoding?: TextEncodingId;
+  headerRow: number | 'auto';
+  columns?: string[];
+  nameColumn?: string;
+  exportMode: ExportMode;
+  outputFormat: 'xlsx' | 'csv';
+  mobile: MobileCleanerOptions;
+  duplicates?: DuplicateStrategy;
+  audit: boolean;
+  outDir?: string;
+}
+
+export interface FileReport {
+  input: string;
+  exitCode: number;
+  error?: string;
+  warning?: string;
+  sheet?: string;
+  encoding?: TextEncodingId;
+  /** 1-based, like the row numbers of the statistics. */
+  headerRow?: number;
+  mobileColumns?: string[];
+  nameColumn?: string | null;
+  output?: string;
+  audit?: string;
+  exportRowCount?: number;
+  stats?: CleaningStats;
+  circleCounts?: Record<string, number>;
+}
+
+class UsageError extends Error {}
+
+/** Runs the command and returns its exit code. */
+export async function main(argv: string[]): Promise<number> {
+  if (argv[0] === 'serve') return serve(argv.slice(1));
+
+  let options: CliOptions;
+  let inputs: string[];
+  try {
+    const parsed = await parseOptions(argv);
+    if (!parsed) {
+      process.stdout.write(USAGE);
+      return EXIT.ok;
+    }
+    options = parsed.options;
+    const expanded = await expandInputs(parsed.inputs);
+    if (expanded.unmatched.length) throw new UsageError(`No files match ${expanded.unmatched.join(', ')}.`);
+    inputs = expanded.files;
+  } catch (error: any) {
+    process.stderr.write(`${error?.message || error}\n\n${USAGE}`);
+    return EXIT.usage;
+  }
+
+  const files: FileReport[] = [];
+  for (const input of inputs) {
+    const report = await cleanFile(input, options);
+    process.stderr.write(
+      report.error
+        ? `${input}: ${report.error}\n`
+        : `${input}: ${report.exportRowCount} rows written to ${report.output}\n`
+    );
+    files.push(report);
+  }
+
+  const exitCode = files.find(file => file.exitCode !== EXIT.ok)?.exitCode ?? EXIT.ok;
+  process.stdout.write(`${JSON.stringify({ exitCode, files }, null, 2)}\n`);
+  return exitCode;
+}
+
+async function parseOptions(argv: string[]): Promise<{ options: CliOptions; inputs: string[] } | null> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        sheet: { type: 'string', short: 's' },
+        encoding: { type: 'string', short: 'e', default: 'auto' },
+        'header-row': { type: 'string', short: 'H', default: 'auto' },
+        columns: { type: 'string', short: 'c' },
+        'name-column': { type: 'string', short: 'n' },
+        mode: { type: 'string', short: 'm', default: 'full' },
+        format: { type: 'string', short: 'f', default: 'xlsx' },
+        country: { type: 'string', default: 'IN' },
+        fallback: { type: 'string', default: 'IN' },
+        duplicates: { type: 'string' },
+        rules: { type: 'string' },
+        audit: { type: 'boolean', default: false },
+        'out-dir': { type: 'string', short: 'o' },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (error: any) {
+    throw new UsageError(error?.message || String(error));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+  if (!positionals.length) throw new UsageError('Give at least one input file.');
+
+  const headerRow = values['header-row'] === 'auto' ? 'auto' : Number(values['header-row']);
+  if (headerRow !== 'auto' && !(Number.isInteger(headerRow) && headerRow >= 1)) {
+    throw new UsageError('--header-row must be a row number from 1, or auto.');
+  }
+  const encoding = values.encoding.toLowerCase();
+  if (encoding !== 'auto' && !isTextEncoding(encoding)) {
+    throw new UsageError(`--encoding must be auto or one of ${TEXT_ENCODINGS.map(e => e.id).join(', ')}.`);
+  }
+  const exportMode = values.mode as ExportMode;
+  if (!EXPORT_MODES.includes(exportMode)) {
+    throw new UsageError(`--mode must be one of ${EXPORT_MODES.join(', ')}.`);
+  }
+  if (values.format !== 'xlsx' && values.format !== 'csv') {
+    throw new UsageError('--format must be xlsx or csv.');
+  }
+  const country = values.country.toUpperCase();
+  const countryProfile = (country === 'MULTI' ? 'multi' : country) as CountryProfileId;
+  if (countryProfile !== 'multi' && !COUNTRY_CODES.includes(countryProfile)) {
+    throw new UsageError(`--country must be one of ${COUNTRY_CODES.join(', ')} or multi.`);
+  }
+  const fallback = values.fallback.toUpperCase() as CountryCode;
+  if (!COUNTRY_CODES.includes(fallback)) {
+    throw new UsageError(`--fallback must be one of ${COUNTRY_CODES.join(', ')}.`);
+  }
+  const duplicates = values.duplicates as DuplicateStrategy | undefined;
+  if (duplicates && !DUPLICATE_STRATEGIES.includes(duplicates)) {
+    throw new UsageError(`--duplicates must be one of ${DUPLICATE_STRATEGIES.join(', ')}.`);
+  }
+
+  return {
+    inputs: positionals,
+    options: {
+      sheet: values.sheet,
+      encoding: encoding === 'auto' ? undefined : encoding,
+      headerRow,
+      columns: values.columns
+        ?.split(',')
+        .map(column => column.trim())
+        .filter(Boolean),
+      nameColumn: values['name-column'],
+      exportMode,
+      outputFormat: values.format,
+      mobile: {
+        countryProfile,
+        multiCountryFallback: fallback,
+        rules: values.rules ? await readRules(values.rules) : undefined
+      },
+      duplicates,
+      audit: values.audit,
+      outDir: values['out-dir']
+    }
+  };
+}
+
+async function readRules(file: string): Promise<ValidationRules> {
+  let rules: ValidationRules;
+  try {
+    rules = { ...EMPTY_VALIDATION_RULES, ...JSON.parse(await readFile(file, 'utf8')) };
+  } catch (error: any) {
+    throw new UsageError(`Could not read the rules in ${file}: ${error?.message || error}`);
+  }
+  const problems = validateRules(rules);
+  if (problems.length) throw new UsageError(problems.join(' '));
+  return rules;
+}
+
+/* ================= ONE FILE ================= */
+
+async function cleanFile(file: string, options: CliOptions): Promise<FileReport> {
+  const fail = (failure: Failure): FileReport => ({ input: file, ...failure });
+
+  let loaded: LoadedSpreadsheet | Failure;
+  try {
+    loaded = await loadSpreadsheet(await openAsBlob(file), file, options.sheet, options.encoding);
+  } catch (error: any) {
+    return fail({ exitCode: EXIT.failed, error: `Failed to read the file: ${error?.message || error}` });
+  }
+  if (isFailure(loaded)) return fail(loaded);
+
+  const mapping = mapColumns(loaded.rows, options.mobile, {
+    headerRowIndex: options.headerRow === 'auto' ? undefined : options.headerRow - 1,
+    columns: options.columns && (headers => options.columns!.map(column => columnIndex(headers, column))),
+    nameColumn: options.nameColumn ? headers => columnIndex(headers, options.nameColumn!) : undefined,
+    allowNoColumns: options.exportMode === 'keep-all'
+  });
+  if (isFailure(mapping)) {
+    return fail(
+      mapping.exitCode === EXIT.noValidNumbers ? { ...mapping, error: `${mapping.error} Pass --columns.` } : mapping
+    );
+  }
+
+  const baseName = exportBaseName(file);
+  const result = await cleanSpreadsheet(loaded, mapping, {
+    fileName: baseName,
+    exportMode: options.exportMode,
+    mobile: options.mobile,
+    outputFormat: options.outputFormat,
+    duplicates: options.duplicates,
+    audit: options.audit
+  });
+
+  const { headers, selectedNameColumn } = mapping;
+  const report: FileReport = {
+    input: file,
+    exitCode: EXIT.ok,
+    warning: [loaded.warning, result.warning].filter(Boolean).join(' ') || undefined,
+    sheet: loaded.sheetName,
+    encoding: loaded.encoding,
+    headerRow: mapping.headerRowIndex + 1,
+    mobileColumns: mapping.selectedColumns.map(col => columnLabel(headers, col)),
+    nameColumn: selectedNameColumn === null ? null : columnLabel(headers, selectedNameColumn),
+    exportRowCount: result.exportRowCount,
+    stats: result.stats,
+    circleCounts: result.circleCounts
+  };
+  if (result.error || !result.blob || !result.fileName) {
+    return { ...report, exitCode: cleanFailureCode(result), error: result.error || 'Failed to build the export.' };
+  }
+
+  try {
+    const outDir = options.outDir ?? path.dirname(file);
+    await mkdir(outDir, { recursive: true });
+    report.output = path.join(outDir, result.fileName);
+    await writeFile(report.output, new Uint8Array(await result.blob.arrayBuffer()));
+    if (result.audit) {
+      report.audit = path.join(outDir, `audit_${baseName}.xlsx`);
+      await writeFile(report.audit, new Uint8Array(await result.audit.arrayBuffer()));
+    }
+  } catch (error: any) {
+    return { ...report, exitCode: EXIT.failed, error: `Failed to write the export: ${error?.message || error}` };
+  }
+  return report;
+}
+
+/** 1-based column number or header text (ignoring case). */
+function columnIndex(headers: string[], column: string): number {
+  if (/^\d+$/.test(column)) {
+    const idx = Number(column) - 1;
+    if (idx < 0 || idx >= headers.length) throw new Error(`Column ${column} is not in the header row`);
+    return idx;
+  }
+  const wanted = column.toLowerCase();
+  const idx = headers.findIndex(header => header.toLowerCase() === wanted);
+  if (idx === -1) throw new Error(`Column "${column}" is not in the header row`);
+  return idx;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    code => (process.exitCode = code),
+    error => {
+      console.error(error);
+      process.exitCode = EXIT.failed;
+    }
+  );
+}
@@ -0,0 +1,204 @@
+// @vitest-environment node
+import { AddressInfo } from 'node:net';
+import { Server, request } from 'node:http';
+import * as XLSX from 'xlsx';
+import { createCleanerServer } from './server';
+
+describe('Cleaner server', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = createCleanerServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  const LEADS = 'Name,Mobile\nA,9818202888\nB,98182 02888\nC,9313123456\nD,9845123456\nE,12345\n';
+
+  function upload(route: string, file: Blob, fileName: string, options?: unknown): Promise<Response> {
+    const form = new FormData();
+    form.append('file', file, fileName);
+    if (options !== undefined) form.append('options', typeof options === 'string' ? options : JSON.stringify(options));
+    return fetch(url + route, { method: 'POST', body: form });
+  }
+
+  it('should answer health checks and reject unknown routes', async () => {
+    const health = await fetch(`${url}/health`);
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({ ok: true });
+
+    const missing = await fetch(`${url}/export`, { method: 'POST' });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ error: 'Not found. Use POST /inspect or POST /clean.' });
+  });
+
+  it('should inspect an upload and return the detected mapping', async () => {
+    const res = await upload('/inspect', new Blob([LEADS]), 'leads.csv');
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(
+      expect.objectContaining({
+        fileName: 'leads.csv',
+        sheetNames: ['CSV'],
+        sheetName: 'CSV',
+        headerRowIndex: 0,
+        headers: ['Name', 'Mobile'],
+        selectedColumns: [1],
+        selectedNameColumn: 0
+      })
+    );
+  });
+
+  it('should stream the cleaned export back as csv or xlsx with the statistics in headers', async () => {
+    const csv = await upload('/clean', new Blob([LEADS]), 'leads.csv', {
+      exportMode: 'unique',
+      outputFormat: 'csv'
+    });
+    expect(csv.status).toBe(200);
+    expect(csv.headers.get('content-disposition')).toContain('leads');
+    expect(csv.headers.get('x-export-rows')).toBe('3');
+    expect(JSON.parse(csv.headers.get('x-cleaning-stats')!)).toEqual(
+      expect.objectContaining({ total: 5, valid: 3, duplicates: 1, invalidLength: 1 })
+    );
+    expect((await csv.text()).split(/\r?\n/).filter(Boolean)).toEqual([
+      'Mobile_Number',
+      '+919818202888',
+      '+919313123456',
+      '+919845123456'
+    ]);
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.aoa_to_sheet(
+        LEADS.trim()
+          .split('\n')
+          .map(line => line.split(','))
+      ),
+      'Leads'
+    );
+    const book = new Blob([XLSX.write(wb, { type: 'array', bookType: 'xlsx' })]);
+    const xlsx = await upload('/clean', book, 'leads.xlsx', {
+      exportMode: 'mobile-name',
+      selectedColumns: [1]
+    });
+    expect(xlsx.status).toBe(200);
+    expect(xlsx.headers.get('content-type')).toContain('spreadsheetml');
+    const parsed = XLSX.read(new Uint8Array(await xlsx.arrayBuffer()), { type: 'array' });
+    expect(XLSX.utils.sheet_to_json(parsed.Sheets[parsed.SheetNames[0]], { header: 1 })).toEqual([
+      ['Name', 'Mobile_Number'],
+      ['A', '+919818202888'],
+      ['C', '+919313123456'],
+      ['D', '+919845123456']
+    ]);
+  });
+
+  it('should answer bad uploads and options with a JSON error and a 4xx status', async () => {
+    const expectError = async (res: Response, status: number, error: string) => {
+      expect(res.status).toBe(status);
+      expect(await res.json()).toEqual(expect.objectContaining({ error }));
+    };
+    const leads = new Blob([LEADS]);
+
+    await expectError(
+      await upload('/clean', leads, 'leads.csv', { selectedColumns: [7] }),
+      400,
+      'Column 7 is not in the header row (0 to 1).'
+    );
+    await expectError(
+      await upload('/inspect', new Blob(['Name,Mobile\n,\nA,9818202888\n']), 'leads.csv', {
+        headerRowIndex: 1
+      }),
+      422,
+      'Header row 2 is empty.'
+    );
+    await expectError(
+      await fetch(`${url}/clean`, {
+        method: 'POST',
+        headers: { 'content-type': 'multipart/form-data; boundary=cut' },
+        body: '--cut\r\nContent-Disposition: form-data; name="file"\r\n\r\nno closing boundary'
+      }),
+      400,
+      'Could not read the multipart upload.'
+    );
+    await expectError(
+      await fetch(`${url}/clean`, {
+        method: 'POST',
+        headers: { 'content-type': 'text/csv' },
+        body: LEADS
+      }),
+      415,
+      'Send the spreadsheet as multipart/form-data with a "file" field.'
+    );
+    await expectError(
+      await upload('/clean', leads, 'leads.csv', '[1]'),
+      400,
+      'The "options" field must be a JSON object.'
+    );
+    await expectError(await upload('/clean', leads, 'leads.csv', '{'), 400, 'The "options" field must be JSON.');
+    await expectError(
+      await upload('/clean', leads, 'leads.csv', { selectedColumns: '1' }),
+      400,
+      'selectedColumns must be an array of 0-based column indexes.'
+    );
+    await expectError(
+      await upload('/clean', leads, 'leads.csv', { exportMode: ['unique'] }),
+      400,
+      'exportMode must be one of full, unique, mobile-name, keep-all.'
+    );
+    await expectError(
+      await upload('/clean', leads, 'leads.csv', { duplicateStrategy: 1 }),
+      400,
+      'duplicateStrategy must be one of first, last, mostComplete, merge.'
+    );
+    await expectError(
+      await upload('/clean', leads, 'leads.csv', { validationRules: { blocklist: '9818202888' } }),
+      400,
+      'validationRules.blocklist must be an array of strings.'
+    );
+  });
+
+  it('should answer an oversized chunked upload with 413 and close it without reading the rest', async () => {
+    const small = createCleanerServer(1024 * 1024);
+    await new Promise<void>(resolve => small.listen(0, '127.0.0.1', resolve));
+    const { port } = small.address() as AddressInfo;
+
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      path: '/clean',
+      method: 'POST',
+      headers: { 'content-type': 'multipart/form-data; boundary=x', 'transfer-encoding': 'chunked' }
+    });
+    req.on('error', () => undefined);
+    let answered = false;
+    const response = new Promise<{ status?: number; body: string }>(resolve =>
+      req.on('response', res => {
+        answered = true;
+        let body = '';
+        res.on('data', chunk => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode, body }));
+      })
+    );
+    // Keeps sending until the server gives up: no Content-Length tells it the size up front.
+    const chunk = Buffer.alloc(64 * 1024, 'a');
+    req.write('--x\r\nContent-Disposition: form-data; name="file"; filename="big.csv"\r\n\r\n');
+    let sent = 0;
+    const pump = () => {
+      while (!answered && !req.destroyed && sent < 64 * 1024 * 1024) {
+        sent += chunk.length;
+        if (!req.write(chunk)) return void req.once('drain', pump);
+      }
+    };
+    pump();
+
+    const { status, body } = await response;
+    expect(status).toBe(413);
+    expect(JSON.parse(body)).toEqual({ error: 'File is too large. Maximum size is 1MB.' });
+    expect(sent).toBeLessThan(64 * 1024 * 1024);
+    req.destroy();
+    await new Promise(resolve => small.close(resolve));
+  });
+});
@@ -0,0 +1,366 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { Readable, Transform } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { parseArgs } from 'node:util';
+import { MAX_PREVIEW_ROWS } from '../app/cleaner-session';
+import type { MobileCleanerOptions } from '../app/mobile-cleaner';
+import { COUNTRY_CODES, CountryCode, CountryProfileId } from '../app/phone-profiles';
+import { TEXT_ENCODINGS, TextEncodingId, isTextEncoding } from '../app/text-encoding';
+import { EMPTY_VALIDATION_RULES, ValidationRules, validateRules } from '../app/validation-rules';
+import type { DuplicateStrategy, ExportMode } from '../app/cleaning-pipeline';
+import {
+  DUPLICATE_STRATEGIES,
+  EXIT,
+  EXPORT_MODES,
+  Failure,
+  cleanFailureCode,
+  cleanSpreadsheet,
+  exportBaseName,
+  isFailure,
+  loadSpreadsheet,
+  mapColumns
+} from './spreadsheet';
+
+/** Same upload limit as the web app. */
+const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+const MB = 1024 * 1024;
+/** How long a refused upload may go on sending after its 413 before the connection is closed. */
+const LINGER_MS = 2000;
+
+const STATUS_BY_EXIT: Record<number, number> = {
+  [EXIT.failed]: 400,
+  [EXIT.usage]: 400,
+  [EXIT.noValidNumbers]: 422,
+  [EXIT.emptySheet]: 422,
+  [EXIT.sheetTooLarge]: 413
+};
+
+/**
+ * JSON `options` field of a request, named like the web app's state. Columns are 0-based indexes
+ * into the header row; anything left out is detected as in the web app.
+ */
+export interface CleanRequestOptions {
+  sheetName?: string;
+  /** Encoding of a CSV, TSV or TXT upload; detected when left out. */
+  encoding?: TextEncodingId;
+  headerRowIndex?: number;
+  selectedColumns?: number[];
+  selectedNameColumn?: number | null;
+  exportMode?: ExportMode;
+  outputFormat?: 'xlsx' | 'csv';
+  countryProfile?: CountryProfileId;
+  multiCountryFallback?: CountryCode;
+  validationRules?: Partial<ValidationRules>;
+  duplicateStrategy?: DuplicateStrategy;
+}
+
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The cleaner as a local HTTP service, for systems that post a spreadsheet and want the cleaned file
+ * back. Needs no network access beyond the listening socket.
+ *
+ * - `POST /inspect`: multipart `file` (+ `options`); returns sheets, a preview and the detected mapping.
+ * - `POST /clean`: multipart `file` + `options`; streams the export back with the statistics in
+ *   `X-Cleaning-Stats` (JSON) and `X-Export-Rows`.
+ * - `GET /health`
+ *
+ * Errors are JSON `{ error }` with a 4xx/5xx status. An upload past `maxUploadBytes` is answered
+ * with 413 and its connection closed, without reading the rest of it.
+ */
+export function createCleanerServer(maxUploadBytes = MAX_UPLOAD_BYTES): Server {
+  return createServer((req, res) => {
+    handle(req, res, maxUploadBytes).catch(error => {
+      if (!(error instanceof RequestError)) console.error('Cleaner server error:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      if (error instanceof RequestError && error.status === 413) closeWhenSent(req, res);
+      sendJson(res, error instanceof RequestError ? error.status : 500, {
+        error: error instanceof RequestError ? error.message : 'Failed to process the file.'
+      });
+    });
+  });
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse, maxUploadBytes: number) {
+  const route = `${req.method} ${new URL(req.url || '/', 'http://localhost').pathname}`;
+  if (route === 'GET /health') {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+  if (route !== 'POST /inspect' && route !== 'POST /clean') {
+    throw new RequestError(404, 'Not found. Use POST /inspect or POST /clean.');
+  }
+
+  const { file, options } = await readUpload(req, maxUploadBytes);
+  checkOptions(options);
+  const mobile = mobileOptions(options);
+  const loaded = check(await loadSpreadsheet(file, file.name, options.sheetName, options.encoding));
+  const nameColumn = options.selectedNameColumn;
+  const mapping = check(
+    mapColumns(loaded.rows, mobile, {
+      headerRowIndex: options.headerRowIndex,
+      columns: options.selectedColumns && (headers => columnIndexes(headers, options.selectedColumns!)),
+      nameColumn:
+        nameColumn === undefined
+          ? undefined
+          : headers => (nameColumn === null ? null : columnIndexes(headers, [nameColumn])[0]),
+      allowNoColumns: route === 'POST /inspect' || options.exportMode === 'keep-all'
+    })
+  );
+
+  if (route === 'POST /inspect') {
+    sendJson(res, 200, {
+      fileName: file.name,
+      sheetNames: loaded.sheetNames,
+      sheetName: loaded.sheetName,
+      encoding: loaded.encoding,
+      preview: loaded.rows.slice(0, MAX_PREVIEW_ROWS),
+      warning: loaded.warning,
+      ...mapping
+    });
+    return;
+  }
+
+  const result = await cleanSpreadsheet(loaded, mapping, {
+    fileName: exportBaseName(file.name),
+    exportMode: options.exportMode ?? 'full',
+    mobile,
+    outputFormat: options.outputFormat,
+    duplicates: options.duplicateStrategy
+  });
+  if (result.error || !result.blob || !result.fileName) {
+    const exitCode = cleanFailureCode(result);
+    sendJson(res, STATUS_BY_EXIT[exitCode] ?? 500, {
+      error: result.error || 'Failed to build the export.',
+      stats: result.stats
+    });
+    return;
+  }
+
+  const warning = [loaded.warning, result.warning].filter(Boolean).join(' ');
+  res.writeHead(200, {
+    'Content-Type': result.blob.type || 'application/octet-stream',
+    'Content-Length': result.blob.size,
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(result.fileName)}`,
+    'X-Export-Rows': String(result.exportRowCount),
+    'X-Cleaning-Stats': JSON.stringify(result.stats),
+    ...(warning ? { 'X-Cleaning-Warning': encodeURIComponent(warning) } : {})
+  });
+  Readable.fromWeb(result.blob.stream() as unknown as NodeReadableStream).pipe(res);
+}
+
+/** Reads the multipart body, counting its bytes as they arrive since chunked uploads have no `Content-Length`. */
+async function readUpload(
+  req: IncomingMessage,
+  maxUploadBytes: number
+): Promise<{ file: File; options: CleanRequestOptions }> {
+  const tooLarge = () => new RequestError(413, `File is too large. Maximum size is ${maxUploadBytes / MB}MB.`);
+  if (Number(req.headers['content-length'] || 0) > maxUploadBytes) throw tooLarge();
+  if (!String(req.headers['content-type'] || '').startsWith('multipart/form-data')) {
+    throw new RequestError(415, 'Send the spreadsheet as multipart/form-data with a "file" field.');
+  }
+
+  let received = 0;
+  const counted = new Transform({
+    transform(chunk: Buffer, _encoding, done) {
+      received += chunk.length;
+      done(received > maxUploadBytes ? tooLarge() : null, chunk);
+    }
+  });
+  let form: FormData;
+  try {
+    const request = new Request('http://localhost', {
+      method: 'POST',
+      headers: { 'content-type': String(req.headers['content-type']) },
+      body: Readable.toWeb(req.pipe(counted)) as unknown as ReadableStream,
+      duplex: 'half'
+    } as RequestInit);
+    form = await request.formData();
+  } catch {
+    if (received > maxUploadBytes) {
+      req.unpipe(counted);
+      throw tooLarge();
+    }
+    throw new RequestError(400, 'Could not read the multipart upload.');
+  }
+
+  const file = form.get('file');
+  if (!file || typeof file === 'string') throw new RequestError(400, 'The "file" field is missing.');
+
+  const field = form.get('options');
+  let options: CleanRequestOptions = {};
+  if (field) {
+    try {
+      options = JSON.parse(typeof field === 'string' ? field : await field.text());
+    } catch {
+      throw new RequestError(400, 'The "options" field must be JSON.');
+    }
+  }
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    throw new RequestError(400, 'The "options" field must be a JSON object.');
+  }
+  return { file, options };
+}
+
+/** Rejects fields of the wrong type or value, so that only well-formed options reach the cleaner. */
+function checkOptions(options: CleanRequestOptions) {
+  const { sheetName, encoding, headerRowIndex, selectedColumns, selectedNameColumn } = options;
+  if (sheetName !== undefined && typeof sheetName !== 'string') {
+    throw new RequestError(400, 'sheetName must be a string.');
+  }
+  if (encoding !== undefined && !isTextEncoding(encoding)) {
+    throw new RequestError(400, `encoding must be one of ${TEXT_ENCODINGS.map(e => e.id).join(', ')}.`);
+  }
+  if (headerRowIndex !== undefined && !isIndex(headerRowIndex)) {
+    throw new RequestError(400, 'headerRowIndex must be a 0-based row index.');
+  }
+  if (selectedColumns !== undefined && !(Array.isArray(selectedColumns) && selectedColumns.every(isIndex))) {
+    throw new RequestError(400, 'selectedColumns must be an array of 0-based column indexes.');
+  }
+  if (selectedNameColumn !== undefined && selectedNameColumn !== null && !isIndex(selectedNameColumn)) {
+    throw new RequestError(400, 'selectedNameColumn must be a 0-based column index or null.');
+  }
+
+  const { exportMode, outputFormat, duplicateStrategy, validationRules } = options;
+  if (exportMode !== undefined && !EXPORT_MODES.includes(exportMode)) {
+    throw new RequestError(400, `exportMode must be one of ${EXPORT_MODES.join(', ')}.`);
+  }
+  if (outputFormat !== undefined && outputFormat !== 'xlsx' && outputFormat !== 'csv') {
+    throw new RequestError(400, 'outputFormat must be xlsx or csv.');
+  }
+  if (duplicateStrategy !== undefined && !DUPLICATE_STRATEGIES.includes(duplicateStrategy)) {
+    throw new RequestError(400, `duplicateStrategy must be one of ${DUPLICATE_STRATEGIES.join(', ')}.`);
+  }
+  if (validationRules === undefined) return;
+  if (!validationRules || typeof validationRules !== 'object' || Array.isArray(validationRules)) {
+    throw new RequestError(400, 'validationRules must be a JSON object.');
+  }
+  const list = (['denyPatterns', 'allowPrefixes', 'blocklist'] as const).find(
+    key => validationRules[key] !== undefined && !isStringList(validationRules[key])
+  );
+  if (list) throw new RequestError(400, `validationRules.${list} must be an array of strings.`);
+  const { rejectRepeatedHalves } = validationRules;
+  if (rejectRepeatedHalves !== undefined && typeof rejectRepeatedHalves !== 'boolean') {
+    throw new RequestError(400, 'validationRules.rejectRepeatedHalves must be true or false.');
+  }
+}
+
+function isIndex(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function mobileOptions(options: CleanRequestOptions): MobileCleanerOptions {
+  const countryProfile = options.countryProfile ?? 'IN';
+  if (countryProfile !== 'multi' && !COUNTRY_CODES.includes(countryProfile)) {
+    throw new RequestError(400, `countryProfile must be one of ${COUNTRY_CODES.join(', ')} or multi.`);
+  }
+  const multiCountryFallback = options.multiCountryFallback ?? 'IN';
+  if (!COUNTRY_CODES.includes(multiCountryFallback)) {
+    throw new RequestError(400, `multiCountryFallback must be one of ${COUNTRY_CODES.join(', ')}.`);
+  }
+  if (!options.validationRules) return { countryProfile, multiCountryFallback };
+
+  const rules = { ...EMPTY_VALIDATION_RULES, ...options.validationRules };
+  const problems = validateRules(rules);
+  if (problems.length) throw new RequestError(400, problems.join(' '));
+  return { countryProfile, multiCountryFallback, rules };
+}
+
+function columnIndexes(headers: string[], columns: number[]): number[] {
+  for (const col of columns) {
+    if (col >= headers.length) {
+      throw new Error(`Column ${col} is not in the header row (0 to ${headers.length - 1}).`);
+    }
+  }
+  return columns;
+}
+
+function check<T extends object>(value: T | Failure): T {
+  if (isFailure(value)) throw new RequestError(STATUS_BY_EXIT[value.exitCode] ?? 500, value.error);
+  return value;
+}
+
+/**
+ * Closes the connection of a refused upload once its answer is sent. The rest of the body is
+ * discarded for a moment first: closing with unread data resets the connection before the client
+ * has read the answer.
+ */
+function closeWhenSent(req: IncomingMessage, res: ServerResponse) {
+  res.setHeader('Connection', 'close');
+  res.on('finish', () => {
+    req.resume();
+    setTimeout(() => req.destroy(), LINGER_MS).unref();
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(json)
+  });
+  res.end(json);
+}
+
+/* ================= COMMAND ================= */
+
+export const SERVE_USAGE = `Usage: excel-mobile-cleaner serve [--port 8080] [--host 127.0.0.1]
+
+Runs the cleaner as a local HTTP service: POST /inspect and POST /clean take a multipart upload with
+a "file" field and an optional JSON "options" field.
+`;
+
+/** `serve` command: listens until the process is stopped. */
+export async function serve(argv: string[]): Promise<number> {
+  let values;
+  try {
+    values = parseArgs({
+      args: argv,
+      options: {
+        port: { type: 'string', short: 'p', default: '8080' },
+        host: { type: 'string', default: '127.0.0.1' },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    }).values;
+  } catch (error: any) {
+    process.stderr.write(`${error?.message || error}\n\n${SERVE_USAGE}`);
+    return EXIT.usage;
+  }
+  if (values.help) {
+    process.stdout.write(SERVE_USAGE);
+    return EXIT.ok;
+  }
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    process.stderr.write(`--port must be a port number.\n\n${SERVE_USAGE}`);
+    return EXIT.usage;
+  }
+
+  const server = createCleanerServer();
+  return new Promise(resolve => {
+    server.on('error', error => {
+      console.error('Cleaner server error:', error);
+      resolve(EXIT.failed);
+    });
+    server.listen(port, values.host, () => {
+      const address = server.address();
+      const actualPort = typeof address === 'object' && address ? address.port : port;
+      process.stderr.write(`Cleaner server listening on http://${values.host}:${actualPort}\n`);
+    });
+    server.on('close', () => resolve(EXIT.ok));
+  });
+}
@@ -0,0 +1,226 @@
+import { loadCsvPreview } from '../app/csv-utils';
+import { assessSheetSize, fileExtension, loadXlsx, readWorkbookFile } from '../app/workbook-utils';
+import { HEADER_DETECTION_ROWS, MAX_PREVIEW_ROWS } from '../app/cleaner-session';
+import { XlsxStreamReader, openLargeXlsx } from '../app/xlsx-stream-reader';
+import { detectHeaderRow, detectMobileColumns, detectNameColumn } from '../app/column-detection';
+import { MobileCleaner, MobileCleanerOptions } from '../app/mobile-cleaner';
+import type { TextEncodingId } from '../app/text-encoding';
+import {
+  CleanOptions,
+  CleanResult,
+  DuplicateStrategy,
+  ExportMode,
+  SourceInput,
+  cleanSources
+} from '../app/cleaning-pipeline';
+
+/** Process exit codes of the command; the server maps them to HTTP statuses. */
+export const EXIT = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  noValidNumbers: 3,
+  emptySheet: 4,
+  sheetTooLarge: 5
+} as const;
+
+/** Export modes that need no template. */
+export const EXPORT_MODES: ExportMode[] = ['full', 'unique', 'mobile-name', 'keep-all'];
+export const DUPLICATE_STRATEGIES: DuplicateStrategy[] = ['first', 'last', 'mostComplete', 'merge'];
+
+export interface Failure {
+  exitCode: number;
+  error: string;
+}
+
+/** One sheet (or CSV file) ready to be cleaned. */
+export interface LoadedSpreadsheet {
+  input: SourceInput;
+  sheetNames: string[];
+  sheetName: string;
+  /** Leading rows, enough for the preview and header/column detection. */
+  rows: any[][];
+  /** Encoding a CSV, TSV or TXT file was read in. */
+  encoding?: TextEncodingId;
+  warning?: string;
+}
+
+export interface ColumnMapping {
+  headerRowIndex: number;
+  headers: string[];
+  selectedColumns: number[];
+  selectedNameColumn: number | null;
+}
+
+export function isFailure(value: object): value is Failure {
+  return 'exitCode' in value && 'error' in value;
+}
+
+/**
+ * Reads a CSV or workbook upload and picks a sheet by name or 1-based number (default: first).
+ * Text files are read in `encoding`, or the detected one.
+ */
+export async function loadSpreadsheet(
+  file: Blob,
+  fileName: string,
+  sheet?: string,
+  encoding?: TextEncodingId
+): Promise<LoadedSpreadsheet | Failure> {
+  const ext = fileExtension(fileName);
+
+  if (ext === '.csv') {
+    const preview = await loadCsvPreview(file, MAX_PREVIEW_ROWS + HEADER_DETECTION_ROWS, undefined, undefined, encoding);
+    const { rows } = preview;
+    if (!rows.some(row => row.some(Boolean))) return { exitCode: EXIT.emptySheet, error: 'CSV file is empty' };
+    return {
+      input: { csv: file, encoding: preview.encoding },
+      sheetNames: ['CSV'],
+      sheetName: 'CSV',
+      rows,
+      encoding: preview.encoding
+    };
+  }
+
+  const streamed = ext === '.xlsx' ? await openLargeXlsx(file) : null;
+  if (streamed) return loadStreamedSheet(streamed, sheet);
+
+  const parsed = await readWorkbookFile(file, ext, encoding);
+  if (parsed.error) return { exitCode: EXIT.sheetTooLarge, error: parsed.error };
+  const workbook = parsed.workbook;
+  if (!workbook?.SheetNames?.length) {
+    return { exitCode: EXIT.emptySheet, error: 'Excel file contains no sheets' };
+  }
+
+  const sheetName = pickSheet(workbook.SheetNames, sheet);
+  const worksheet = sheetName === undefined ? undefined : workbook.Sheets[sheetName];
+  if (!sheetName || !worksheet) return sheetNotFound(workbook.SheetNames, sheet);
+
+  const XLSX = await loadXlsx();
+  const assessment = assessSheetSize(worksheet, XLSX);
+  if (assessment.error) {
+    return {
+      exitCode: worksheet['!ref'] ? EXIT.sheetTooLarge : EXIT.emptySheet,
+      error: assessment.error
+    };
+  }
+  // Raw values keep numeric mobile cells out of scientific notation, as in the web app.
+  const rows: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '', raw: true });
+  if (!rows.length) return { exitCode: EXIT.emptySheet, error: 'Selected sheet is empty' };
+
+  const warning = [parsed.repaired ? 'File repaired and loaded.' : '', parsed.warning, assessment.warning]
+    .filter(Boolean)
+    .join(' ');
+  return {
+    input: { rows },
+    sheetNames: workbook.SheetNames,
+    sheetName,
+    rows: rows.slice(0, MAX_PREVIEW_ROWS + HEADER_DETECTION_ROWS),
+    encoding: parsed.encoding,
+    warning: warning || undefined
+  };
+}
+
+/** A sheet of an XLSX too large to parse whole: its leading rows now, the rest while cleaning. */
+async function loadStreamedSheet(reader: XlsxStreamReader, sheet?: string): Promise<LoadedSpreadsheet | Failure> {
+  const sheetName = pickSheet(reader.sheetNames, sheet);
+  if (!sheetName) return sheetNotFound(reader.sheetNames, sheet);
+
+  const limit = MAX_PREVIEW_ROWS + HEADER_DETECTION_ROWS;
+  const rows: any[][] = [];
+  await reader.streamRows(sheetName, row => rows.push(row) < limit);
+  if (!rows.some(row => row.length)) return { exitCode: EXIT.emptySheet, error: 'Selected sheet is empty' };
+  return { input: { xlsx: reader, sheetName }, sheetNames: reader.sheetNames, sheetName, rows };
+}
+
+/** Sheet by name or 1-based number; the first one when none is given. */
+function pickSheet(sheetNames: string[], sheet?: string): string | undefined {
+  if (sheet === undefined) return sheetNames[0];
+  if (sheetNames.includes(sheet)) return sheet;
+  return /^\d+$/.test(sheet) ? sheetNames[Number(sheet) - 1] : undefined;
+}
+
+function sheetNotFound(sheetNames: string[], sheet?: string): Failure {
+  return { exitCode: EXIT.failed, error: `Sheet "${sheet}" not found. Sheets: ${sheetNames.join(', ')}` };
+}
+
+/**
+ * Header row and columns of a sheet: the given ones, or detected the way the web app does when
+ * left out. Column resolvers turn user input (names, numbers) into column indexes and may throw.
+ */
+export function mapColumns(
+  rows: any[][],
+  mobile: MobileCleanerOptions,
+  chosen: {
+    headerRowIndex?: number;
+    columns?: (headers: string[]) => number[];
+    nameColumn?: (headers: string[]) => number | null;
+    /** Whether an export without mobile columns makes sense (keep-all). */
+    allowNoColumns?: boolean;
+  } = {}
+): ColumnMapping | Failure {
+  const headerRowIndex = chosen.headerRowIndex ?? detectHeaderRow(rows);
+  if (headerRowIndex === null) {
+    return { exitCode: EXIT.emptySheet, error: 'No header row found in the first 5 rows.' };
+  }
+  if (!rows[headerRowIndex]?.some(hasValue)) {
+    return { exitCode: EXIT.emptySheet, error: `Header row ${headerRowIndex + 1} is empty.` };
+  }
+  if (!rows.slice(headerRowIndex + 1).some(row => row?.some(hasValue))) {
+    return { exitCode: EXIT.emptySheet, error: 'No data rows found after header row.' };
+  }
+  const headers = rows[headerRowIndex].map(h => String(h || '').trim());
+
+  let selectedColumns: number[];
+  let selectedNameColumn: number | null;
+  try {
+    const cleaner = new MobileCleaner(mobile);
+    selectedColumns = chosen.columns
+      ? chosen.columns(headers)
+      : detectMobileColumns(rows, headerRowIndex, cell => !!cleaner.cleanDetailed(cell).cleaned);
+    selectedNameColumn = chosen.nameColumn ? chosen.nameColumn(headers) : detectNameColumn(headers);
+  } catch (error: any) {
+    return { exitCode: EXIT.failed, error: error?.message || String(error) };
+  }
+  if (!selectedColumns.length && !chosen.allowNoColumns) {
+    return { exitCode: EXIT.noValidNumbers, error: 'No mobile columns detected.' };
+  }
+  return { headerRowIndex, headers, selectedColumns, selectedNameColumn };
+}
+
+/** Cleans one loaded sheet; `options` are everything but the source. */
+export function cleanSpreadsheet(
+  loaded: LoadedSpreadsheet,
+  mapping: ColumnMapping,
+  options: Omit<CleanOptions, 'sources'>
+): Promise<CleanResult> {
+  return cleanSources(
+    [loaded.input],
+    {
+      ...options,
+      sources: [{ sourceId: options.fileName, fileName: options.fileName, sheetName: loaded.sheetName, ...mapping }]
+    },
+    { yieldControl: () => new Promise(resolve => setImmediate(resolve)) }
+  );
+}
+
+/** Exit code of a run that produced no export. */
+export function cleanFailureCode(result: CleanResult): number {
+  if (!result.stats.total) return EXIT.emptySheet;
+  return result.exportRowCount === 0 ? EXIT.noValidNumbers : EXIT.failed;
+}
+
+/** Upload name without extension, safe to use in export file names. */
+export function exportBaseName(fileName: string): string {
+  return fileName
+    .replace(/^.*[\\/]/, '')
+    .replace(/\.[^/.]+$/, '')
+    .replace(/[<>:"/\\|?*]/g, '_');
+}
+
+export function columnLabel(headers: string[], col: number): string {
+  return headers[col] || `Column_${col + 1}`;
+}
+
+function hasValue(cell: any): boolean {
+  return cell !== null && cell !== undefined && cell !== '';
+}
@@ -0,0 +1,24 @@
+// jsdom's Blob has no arrayBuffer()/text(), which the streaming CSV reader relies on.
+export function textBlob(text: string): Blob {
+  const bytes = new TextEncoder().encode(text);
+  const slice = (start = 0, end = bytes.length) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer });
+  return { size: bytes.length, slice } as unknown as Blob;
+}
+
+export function readBlobText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+export function readBlobBuffer(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}